@@ -1,6 +1,10 @@
-import React from 'react';
-import { Play, Pause, RotateCcw, Shuffle, Globe, Disc, Target, Equal, Dna, Eye, EyeOff, Infinity } from 'lucide-react';
-import { DistributionMode, ImpactMode } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Play, Pause, RotateCcw, Shuffle, Globe, Disc, Target, Equal, Dna, Eye, EyeOff, Infinity, Sigma, Sun, Orbit, Circle, RotateCw, Zap, Expand, Waves, CircleDot, Flashlight, List } from 'lucide-react';
+import { getHorizons } from '../services/metrics';
+import { FATE_LABELS } from '../services/observables';
+import { MIN_SHIFT, MAX_SHIFT } from '../services/colormap';
+import { getISCORadius, getSourceRadii, getEmissionImpactParameter, getEscapeConeAngle, getSourceRayCount, spreadsOrientations, createImpactSampler } from '../services/physics';
+import { DistributionMode, ImpactMode, IntegratorMethod, IntegratorSettings, ParticleType, ParticleSettings, OrbitSpec, SpacetimeKind, SpacetimeSettings, PlaybackClock, EmitterMode, EmitterSettings, BeamShape, SourceRay, SourceSettings, ImpactDistribution, ImpactSettings, DiskModel, DiskEmissivity, DiskSettings, RayColorMode, RayColorSettings, FateCategory } from '../types';
 
 interface ControlsProps {
   mass: number;
@@ -25,10 +29,34 @@ interface ControlsProps {
   impactMode: ImpactMode;
   setImpactMode: (mode: ImpactMode) => void;
   progress: number;
-  maxSteps: number;
+  maxTime: number;
+  clock: PlaybackClock;
+  setClock: (clock: PlaybackClock) => void;
+  observerRadius: number;
+  setObserverRadius: (r: number) => void;
   bCrit: number;
   showEventHorizon: boolean;
   toggleEventHorizon: () => void;
+  showInterior: boolean;
+  toggleInterior: () => void;
+  integrator: IntegratorSettings;
+  setIntegrator: (settings: IntegratorSettings) => void;
+  particle: ParticleSettings;
+  setParticle: (settings: ParticleSettings) => void;
+  spacetime: SpacetimeSettings;
+  setSpacetime: (settings: SpacetimeSettings) => void;
+  emitter: EmitterSettings;
+  setEmitter: (settings: EmitterSettings) => void;
+  source: SourceSettings;
+  setSource: (settings: SourceSettings) => void;
+  impact: ImpactSettings;
+  setImpact: (settings: ImpactSettings) => void;
+  seed: number;
+  setSeed: (seed: number) => void;
+  disk: DiskSettings;
+  setDisk: (settings: DiskSettings) => void;
+  rayColors: RayColorSettings;
+  setRayColors: (settings: RayColorSettings) => void;
 }
 
 const PresetButton: React.FC<{ label: string; value: number; onClick: (v: number) => void; active: boolean }> = ({ label, value, onClick, active }) => (
@@ -44,6 +72,29 @@ const PresetButton: React.FC<{ label: string; value: number; onClick: (v: number
   </button>
 );
 
+// The explicit source list is edited as text, one ray per line: b [θ φ ψ], with b in
+// units of M and angles in degrees (the equatorial plane when they are left out)
+function formatSourceList(list: SourceRay[]) {
+  return list.map(ray => [ray.b, ray.theta, ray.phi, ray.psi].join(', ')).join('\n');
+}
+
+function parseSourceList(text: string): { list: SourceRay[]; invalid: number } {
+  const list: SourceRay[] = [];
+  let invalid = 0;
+  text.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const values = trimmed.split(/[\s,]+/).map(Number);
+    if (values.length > 4 || values.some(v => !isFinite(v)) || values[0] < 0) {
+      invalid++;
+      return;
+    }
+    const [b, theta = 90, phi = 0, psi = 0] = values;
+    list.push({ b, theta, phi, psi });
+  });
+  return { list, invalid };
+}
+
 const Controls: React.FC<ControlsProps> = ({
   mass, setMass,
   b, setB,
@@ -55,35 +106,219 @@ const Controls: React.FC<ControlsProps> = ({
   onReset, onSeek, onRandomize,
   distributionMode, setDistributionMode,
   impactMode, setImpactMode,
-  progress, maxSteps,
+  progress, maxTime,
+  clock, setClock,
+  observerRadius, setObserverRadius,
   bCrit,
   showEventHorizon,
-  toggleEventHorizon
+  toggleEventHorizon,
+  showInterior,
+  toggleInterior,
+  integrator, setIntegrator,
+  particle, setParticle,
+  spacetime, setSpacetime,
+  emitter, setEmitter,
+  source, setSource,
+  impact, setImpact,
+  seed, setSeed,
+  disk, setDisk,
+  rayColors, setRayColors
 }) => {
   
-  // Dynamic presets based on Mass
+  // Dynamic presets based on Mass and the metric's critical impact parameter
   const bPresets = [
-    { label: "High", value: 8.0 * mass },
-    { label: "Esc", value: 5.3 * mass },
-    { label: "Crit", value: 5.2 * mass }, // Approx critical
-    { label: "Cap", value: 5.1 * mass },
-    { label: "Low", value: 4.0 * mass },
+    { label: "High", value: bCrit + 2.8 * mass },
+    { label: "Esc", value: bCrit + 0.1 * mass },
+    { label: "Crit", value: bCrit },
+    { label: "Cap", value: bCrit - 0.1 * mass },
+    { label: "Low", value: bCrit - 1.2 * mass },
   ];
 
   const maxB = 10.0 * mass;
   const minB = 2.1 * mass;
 
-  const distModes: { id: DistributionMode; label: string; icon: React.ReactNode }[] = [
-    { id: 'beam', label: 'Beam', icon: <Target size={14} /> },
-    { id: 'isotropic', label: 'Random', icon: <Globe size={14} /> },
-    { id: 'planar', label: 'Plane', icon: <Disc size={14} /> },
+  const distModes: { id: DistributionMode; label: string; title: string; icon: React.ReactNode }[] = [
+    { id: 'beam', label: 'Beam', title: 'Rays fanned out from the north pole with a shared b', icon: <Target size={14} /> },
+    { id: 'isotropic', label: 'Random', title: 'Rays from random directions in random planes', icon: <Globe size={14} /> },
+    { id: 'planar', label: 'Plane', title: 'Rays from random directions in the equatorial plane', icon: <Disc size={14} /> },
+    { id: 'plane-wave', label: 'Wave', title: 'Parallel plane wave from infinity across a grid of impact parameters', icon: <Waves size={14} /> },
+    { id: 'ring', label: 'Ring', title: 'Parallel rays on a ring of radius b', icon: <CircleDot size={14} /> },
+    { id: 'point', label: 'Point', title: 'Point source at a finite distance emitting into a cone', icon: <Flashlight size={14} /> },
+    { id: 'list', label: 'List', title: 'Explicit list of impact parameters and orientations', icon: <List size={14} /> },
   ];
+  const beamShapes: { id: BeamShape; label: string }[] = [
+    { id: 'disk', label: 'Disk' },
+    { id: 'square', label: 'Square' },
+  ];
+  // b and the ray count come from the source layout for these
+  const fixedLayout = distributionMode === 'plane-wave' || distributionMode === 'list';
+  const usesB = spreadsOrientations(distributionMode) || distributionMode === 'ring';
 
   const impactModes: { id: ImpactMode; label: string; icon: React.ReactNode }[] = [
     { id: 'fixed', label: 'Fixed (Slider)', icon: <Equal size={14} /> },
     { id: 'random', label: 'Random (Mixed)', icon: <Dna size={14} /> },
   ];
 
+  const integratorMethods: { id: IntegratorMethod; label: string }[] = [
+    { id: 'rk4', label: 'RK4 (Fixed)' },
+    { id: 'rk45', label: 'RK45 (Adaptive)' },
+  ];
+
+  const updateIntegrator = (patch: Partial<IntegratorSettings>) => setIntegrator({ ...integrator, ...patch });
+
+  const particleTypes: { id: ParticleType; label: string; icon: React.ReactNode }[] = [
+    { id: 'photon', label: 'Photon', icon: <Sun size={14} /> },
+    { id: 'massive', label: 'Massive', icon: <Orbit size={14} /> },
+  ];
+
+  const orbitSpecs: { id: OrbitSpec; label: string }[] = [
+    { id: 'apsides', label: 'Periapsis / Apoapsis' },
+    { id: 'energy', label: 'Energy / Ang. Mom.' },
+  ];
+
+  // Named orbits in units of M (E is dimensionless)
+  const orbitPresets: { label: string; patch: Partial<ParticleSettings> }[] = [
+    { label: "Rosette", patch: { spec: 'apsides', periapsis: 8, apoapsis: 20 } },
+    { label: "Zoom-Whirl", patch: { spec: 'apsides', periapsis: 4.4, apoapsis: 30 } },
+    { label: "ISCO", patch: { spec: 'energy', energy: Math.sqrt(8 / 9), angularMomentum: Math.sqrt(12) } },
+    { label: "Plunge", patch: { spec: 'energy', energy: 0.97, angularMomentum: 3.5 } },
+    { label: "Scatter", patch: { spec: 'energy', energy: 1.05, angularMomentum: 4.5 } },
+  ];
+
+  const spacetimes: { id: SpacetimeKind; label: string; title: string; icon: React.ReactNode }[] = [
+    { id: 'schwarzschild', label: 'Schwarzschild', title: 'Schwarzschild', icon: <Circle size={14} /> },
+    { id: 'kerr', label: 'Kerr', title: 'Kerr (rotating)', icon: <RotateCw size={14} /> },
+    { id: 'reissner-nordstrom', label: 'Reissner–N.', title: 'Reissner–Nordström (charged)', icon: <Zap size={14} /> },
+    { id: 'schwarzschild-de-sitter', label: 'de Sitter', title: 'Schwarzschild–de Sitter (Λ > 0)', icon: <Expand size={14} /> },
+  ];
+
+  // Λ spans several decades, so its slider works in log10(Λ M^2)
+  const logLambdaMin = -5;
+  const logLambdaMax = Math.log10(0.05);
+  const horizons = getHorizons(mass, spacetime);
+
+  const isMassive = particle.type === 'massive';
+
+  const clocks: { id: PlaybackClock; label: string; title: string }[] = [
+    { id: 'affine', label: isMassive ? 'Proper τ' : 'Affine λ', title: 'Each ray advances along its own affine parameter' },
+    { id: 'coordinate', label: 'Coord. t', title: 'Time of static observers far from the hole' },
+    { id: 'observer', label: 'Observer', title: 'Proper time of a static observer at r_obs' },
+  ];
+  const clockSymbol = clock === 'affine' ? (isMassive ? 'τ' : 'λ') : clock === 'coordinate' ? 't' : 'τ_obs';
+  // Static observers on Kerr's equator need r > 2M, outside the ergosphere
+  const staticLimit = spacetime.kind === 'kerr' ? 2 * mass : horizons.event;
+  const observerMin = Math.ceil(1.1 * staticLimit / mass * 10) / 10;
+  const observerMax = horizons.cosmological !== null ? Math.max(observerMin, Math.floor(0.95 * horizons.cosmological / mass)) : 150;
+
+  const updateParticle = (patch: Partial<ParticleSettings>) => setParticle({ ...particle, ...patch });
+
+  const emitterModes: { id: EmitterMode; label: string; title: string }[] = [
+    { id: 'distant', label: 'Distant', title: 'Rays come in from the start radius with impact parameter b' },
+    { id: 'local', label: 'Local Emitter', title: 'Rays leave an emitter at r_e at a chosen angle' },
+    { id: 'hot-spot', label: 'Hot Spot', title: 'A spot on a circular orbit flashes light towards a distant observer' },
+  ];
+  const updateEmitter = (patch: Partial<EmitterSettings>) => setEmitter({ ...emitter, ...patch });
+  // Massive particles keep their own launch point, so only light uses the emitter
+  const canEmit = !isMassive && spreadsOrientations(distributionMode);
+  const isEmitting = emitter.mode === 'local' && canEmit;
+  const isHotSpot = emitter.mode === 'hot-spot' && canEmit;
+  // The hot spot rides a stable circular orbit (Kerr in its a = 0 limit)
+  const spotISCO = getISCORadius(mass, spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime);
+  const spotMin = spotISCO !== null ? Math.ceil((spotISCO / mass) * 100) / 100 : 6;
+  const sourceRadii = getSourceRadii(mass, spacetime, { ...emitter, mode: 'local' });
+  const rEmit = sourceRadii.rEmit ?? 0;
+  const emitterMin = Math.ceil((1.01 * horizons.event) / mass * 100) / 100;
+  const emitterMax = Math.max(emitterMin, Math.floor((0.9 * sourceRadii.rEscape) / mass));
+  const emissionB = getEmissionImpactParameter((emitter.angle * Math.PI) / 180, rEmit, mass, spacetime);
+  const escapeCone = (getEscapeConeAngle(rEmit, mass, spacetime) * 180) / Math.PI;
+  const emissionEscapes = emitter.angle < escapeCone;
+
+  const updateSource = (patch: Partial<SourceSettings>) => setSource({ ...source, ...patch });
+  const sourceRayCount = getSourceRayCount(distributionMode, rayCount, source);
+  const rPoint = Math.min(Math.max(source.pointDistance, emitterMin), emitterMax);
+  // Angular radius of the hole seen from the point source, about the inward direction
+  const pointShadow = 180 - (getEscapeConeAngle(rPoint * mass, mass, spacetime) * 180) / Math.PI;
+  const [listText, setListText] = useState(() => formatSourceList(source.list));
+  // A list that arrives from elsewhere (a loaded scenario) replaces the text being edited
+  useEffect(() => {
+    if (JSON.stringify(parseSourceList(listText).list) !== JSON.stringify(source.list)) setListText(formatSourceList(source.list));
+  }, [source.list]);
+  const listInvalid = parseSourceList(listText).invalid;
+
+  const impactDistributions: { id: ImpactDistribution; label: string; title: string }[] = [
+    { id: 'uniform', label: 'Uniform b', title: 'Uniform in b' },
+    { id: 'area', label: 'Uniform b²', title: 'Uniform in b², as a uniform beam delivers them' },
+    { id: 'gaussian', label: 'Gaussian', title: 'Gaussian around b_crit' },
+    { id: 'log-critical', label: 'Log |b−b_c|', title: 'Logarithmic in the distance from b_crit' },
+    { id: 'sweep', label: 'Sweep', title: 'Evenly spaced from min to max' },
+  ];
+  const impactNotes: Record<ImpactDistribution, string> = {
+    'uniform': 'Every b in the range is equally likely.',
+    'area': 'Equal numbers per unit cross-sectional area, as a uniform beam delivers them: capture and scattering fractions come out as cross-sections.',
+    'gaussian': 'Clustered around b_crit with the chosen width, redrawn when they fall outside the range.',
+    'log-critical': 'Evenly spread in log |b − b_crit| on both sides, down to 10⁻⁴ M, to resolve the logarithmic divergence of the deflection.',
+    'sweep': 'No randomness: b steps evenly from the minimum to the maximum.',
+  };
+  const updateImpact = (patch: Partial<ImpactSettings>) => setImpact({ ...impact, ...patch });
+  // The sampled b values the rays actually get, binned between min and max
+  const impactBins = 24;
+  const impactHistogram = useMemo(() => {
+    const counts = new Array(impactBins).fill(0);
+    const sample = createImpactSampler(impact, sourceRayCount, seed, mass, spacetime);
+    const lo = Math.min(impact.min, impact.max) * mass;
+    const width = Math.abs(impact.max - impact.min) * mass || 1;
+    for (let i = 0; i < sourceRayCount; i++) {
+      counts[Math.min(impactBins - 1, Math.max(0, Math.floor(((sample() - lo) / width) * impactBins)))]++;
+    }
+    return counts;
+  }, [impact, sourceRayCount, seed, mass, spacetime]);
+  const histogramPeak = Math.max(1, ...impactHistogram);
+
+  const diskModels: { id: DiskModel; label: string; title: string }[] = [
+    { id: 'decorative', label: 'Decorative', title: 'Animated plasma with no relativistic effects' },
+    { id: 'physical', label: 'Physical', title: 'Keplerian thin disk from the ISCO, lensed and redshifted in the observer image' },
+  ];
+  const diskEmissivities: { id: DiskEmissivity; label: string }[] = [
+    { id: 'novikov-thorne', label: 'Novikov–Thorne' },
+    { id: 'power-law', label: 'Power Law' },
+  ];
+  const updateDisk = (patch: Partial<DiskSettings>) => setDisk({ ...disk, ...patch });
+  // The image and the disk use the a = 0 limit of Kerr
+  const rISCO = getISCORadius(mass, spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime);
+  const colorModes: { id: RayColorMode; label: string; title: string }[] = [
+    { id: 'fate', label: 'Fate', title: 'Captured, strongly lensed, escaped or bound' },
+    { id: 'impact', label: 'b', title: 'Impact parameter, on a colormap centred on b_crit' },
+    { id: 'winding', label: 'Loops', title: 'Full loops around the hole' },
+    { id: 'deflection', label: 'α', title: 'Deflection angle of escaping rays' },
+    { id: 'orientation', label: 'Direction', title: 'Direction each ray sets off in' },
+    { id: 'shift', label: 'ν/ν_e', title: 'Frequency shift between static observers, point by point' },
+  ];
+  const updateRayColors = (patch: Partial<RayColorSettings>) => setRayColors({ ...rayColors, ...patch });
+  const fateCategories: FateCategory[] = ['captured', 'strong', 'escaped', 'bound'];
+  // Thresholds of the chosen colour mode
+  const colorSliders: { label: string; display: string; min: number; max: number; step: number; value: number; onChange: (v: number) => void }[] = {
+    fate: [
+      { label: 'Strong Lensing Below', display: `${rayColors.strongFactor.toFixed(2)} b_crit`, min: 1, max: 3, step: 0.05, value: rayColors.strongFactor, onChange: (v: number) => updateRayColors({ strongFactor: v }) },
+    ],
+    impact: [
+      { label: 'Range', display: `b_crit (1 ± ${rayColors.impactSpan.toFixed(2)})`, min: 0.05, max: 1, step: 0.05, value: rayColors.impactSpan, onChange: (v: number) => updateRayColors({ impactSpan: v }) },
+    ],
+    winding: [
+      { label: 'Saturate At', display: `${rayColors.maxWindings} loops`, min: 1, max: 10, step: 1, value: rayColors.maxWindings, onChange: (v: number) => updateRayColors({ maxWindings: v }) },
+    ],
+    deflection: [
+      { label: 'Saturate At', display: `${rayColors.maxDeflection.toFixed(2)} rad (${((rayColors.maxDeflection * 180) / Math.PI).toFixed(0)}°)`, min: 0.05, max: 4 * Math.PI, step: 0.05, value: rayColors.maxDeflection, onChange: (v: number) => updateRayColors({ maxDeflection: v }) },
+    ],
+    orientation: [
+      { label: 'Red At Azimuth', display: `${rayColors.orientationOffset.toFixed(0)}°`, min: 0, max: 359, step: 1, value: rayColors.orientationOffset, onChange: (v: number) => updateRayColors({ orientationOffset: v }) },
+    ],
+    shift: [
+      { label: 'Reddest', display: rayColors.shiftRange[0].toFixed(2), min: Math.log10(MIN_SHIFT), max: -0.05, step: 0.01, value: Math.log10(rayColors.shiftRange[0]), onChange: (v: number) => updateRayColors({ shiftRange: [Math.pow(10, v), rayColors.shiftRange[1]] }) },
+      { label: 'Bluest', display: rayColors.shiftRange[1].toFixed(2), min: 0.05, max: Math.log10(MAX_SHIFT), step: 0.01, value: Math.log10(rayColors.shiftRange[1]), onChange: (v: number) => updateRayColors({ shiftRange: [rayColors.shiftRange[0], Math.pow(10, v)] }) },
+    ],
+  }[rayColors.mode];
+  const critPosition = (bCrit / mass - Math.min(impact.min, impact.max)) / (Math.abs(impact.max - impact.min) || 1);
+
   return (
     <div className="flex flex-col gap-6">
       
@@ -92,7 +327,7 @@ const Controls: React.FC<ControlsProps> = ({
         <div className="flex items-center justify-between mb-2">
           <div className="text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">Timeline</div>
           {!isContinuous && (
-            <div className="text-xs font-mono text-white/50">{Math.floor(progress)} / {maxSteps}</div>
+            <div className="text-xs font-mono text-white/50">{clockSymbol} = {progress.toFixed(1)} / {maxTime.toFixed(1)}</div>
           )}
           {isContinuous && (
              <div className="text-xs font-mono text-amber-400/80 flex items-center gap-1">
@@ -108,7 +343,7 @@ const Controls: React.FC<ControlsProps> = ({
                 {/* Progress Fill */}
                 <div 
                    className="h-full bg-cyan-500/60 shadow-[0_0_10px_rgba(34,211,238,0.4)]" 
-                   style={{ width: `${maxSteps > 0 ? (progress / maxSteps) * 100 : 0}%` }}
+                   style={{ width: `${maxTime > 0 ? (progress / maxTime) * 100 : 0}%` }}
                 />
             </div>
             
@@ -116,7 +351,7 @@ const Controls: React.FC<ControlsProps> = ({
             <input
                 type="range"
                 min="0"
-                max={maxSteps}
+                max={maxTime}
                 step="0.1"
                 value={progress}
                 onChange={(e) => onSeek(parseFloat(e.target.value))}
@@ -127,7 +362,7 @@ const Controls: React.FC<ControlsProps> = ({
             {/* Custom Thumb */}
             <div 
                className="absolute h-3.5 w-3.5 bg-cyan-300 rounded-full shadow-[0_0_8px_#44ffff] pointer-events-none transition-transform duration-75 group-hover:scale-125 border border-white/20"
-               style={{ left: `${maxSteps > 0 ? (progress / maxSteps) * 100 : 0}%`, transform: 'translateX(-50%)' }}
+               style={{ left: `${maxTime > 0 ? (progress / maxTime) * 100 : 0}%`, transform: 'translateX(-50%)' }}
             />
         </div>
         
@@ -182,6 +417,49 @@ const Controls: React.FC<ControlsProps> = ({
             className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
           />
         </div>
+
+        {/* Playback Clock */}
+        <div className="space-y-2 mt-4">
+          <div className="text-xs text-white/70">Clock</div>
+          <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+            {clocks.map((c) => (
+              <button
+                key={c.id}
+                title={c.title}
+                onClick={() => setClock(c.id)}
+                className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all
+                  ${clock === c.id
+                    ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50'
+                    : 'text-white/50 hover:text-white hover:bg-white/5'
+                  }`}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+          {clock === 'observer' && (
+            <div className="space-y-1 animate-in fade-in slide-in-from-top-2 duration-300">
+              <div className="flex justify-between text-xs text-white/70">
+                <span>Observer radius (r_obs)</span>
+                <span className="font-mono">{Math.min(Math.max(observerRadius, observerMin), observerMax).toFixed(1)}M</span>
+              </div>
+              <input
+                type="range"
+                min={observerMin}
+                max={observerMax}
+                step="0.1"
+                value={Math.min(Math.max(observerRadius, observerMin), observerMax)}
+                onChange={(e) => setObserverRadius(parseFloat(e.target.value))}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+            </div>
+          )}
+          {clock !== 'affine' && (
+            <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+              All rays share one clock, so Shapiro delays show up as lag between them. Seen from afar nothing crosses the horizon: t diverges there and infalling photons freeze just outside.
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Visual Settings */}
@@ -200,6 +478,16 @@ const Controls: React.FC<ControlsProps> = ({
               {showEventHorizon ? <Eye size={16} /> : <EyeOff size={16} />}
             </button>
           </div>
+          <div className="flex justify-between items-center">
+            <label className="text-sm font-medium text-white/90">Horizon Interior</label>
+            <button
+              onClick={toggleInterior}
+              className={`p-1.5 rounded-md transition-colors ${showInterior ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-white/50 hover:text-white'}`}
+              title={showInterior ? "Stop rays at the horizon" : "Follow rays to the singularity"}
+            >
+              {showInterior ? <Eye size={16} /> : <EyeOff size={16} />}
+            </button>
+          </div>
           <div className="flex justify-between items-center">
             <label className="text-sm font-medium text-white/90">Photon Size</label>
             <span className="font-mono text-sm text-white/70">{photonSize.toFixed(2)}</span>
@@ -213,6 +501,134 @@ const Controls: React.FC<ControlsProps> = ({
             onChange={(e) => setPhotonSize(parseFloat(e.target.value))}
             className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
           />
+
+          {/* Ray colours */}
+          <div className="space-y-3 pt-2 border-t border-white/5">
+            <label className="text-sm font-medium text-white/90">Color By</label>
+            <div className="grid grid-cols-3 gap-1 p-1 bg-space-900/50 rounded-lg border border-white/10">
+              {colorModes.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => updateRayColors({ mode: mode.id })}
+                  title={mode.title}
+                  className={`py-1.5 text-xs font-medium rounded-md transition-all
+                    ${rayColors.mode === mode.id
+                      ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50'
+                      : 'text-white/50 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            {rayColors.mode === 'fate' && (
+              <div className="grid grid-cols-2 gap-2">
+                {fateCategories.map(category => (
+                  <label key={category} className="flex items-center gap-2 text-xs text-white/70">
+                    <input
+                      type="color"
+                      value={rayColors.fateColors[category]}
+                      onChange={(e) => updateRayColors({ fateColors: { ...rayColors.fateColors, [category]: e.target.value } })}
+                      className="w-5 h-5 rounded border border-white/10 bg-transparent cursor-pointer"
+                    />
+                    {FATE_LABELS[category]}
+                  </label>
+                ))}
+              </div>
+            )}
+            {colorSliders.map(slider => (
+              <div key={slider.label} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">{slider.label}</label>
+                  <span className="font-mono text-sm text-white/70">{slider.display}</span>
+                </div>
+                <input
+                  type="range"
+                  min={slider.min}
+                  max={slider.max}
+                  step={slider.step}
+                  value={slider.value}
+                  onChange={(e) => slider.onChange(parseFloat(e.target.value))}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Accretion Disk */}
+          <div className="space-y-3 pt-2 border-t border-white/5">
+            <label className="text-sm font-medium text-white/90">Accretion Disk</label>
+            <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+              {diskModels.map(model => (
+                <button
+                  key={model.id}
+                  onClick={() => updateDisk({ model: model.id })}
+                  title={model.title}
+                  className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all
+                    ${disk.model === model.id
+                      ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50'
+                      : 'text-white/50 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                  {model.label}
+                </button>
+              ))}
+            </div>
+            {disk.model === 'physical' && (
+              <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">Outer Radius</label>
+                  <span className="font-mono text-sm text-white/70">{disk.outerRadius.toFixed(0)}M</span>
+                </div>
+                <input
+                  type="range"
+                  min="8"
+                  max="50"
+                  step="1"
+                  value={disk.outerRadius}
+                  onChange={(e) => updateDisk({ outerRadius: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+                <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+                  {diskEmissivities.map(profile => (
+                    <button
+                      key={profile.id}
+                      onClick={() => updateDisk({ emissivity: profile.id })}
+                      className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all
+                        ${disk.emissivity === profile.id
+                          ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50'
+                          : 'text-white/50 hover:text-white hover:bg-white/5'
+                        }`}
+                    >
+                      {profile.label}
+                    </button>
+                  ))}
+                </div>
+                {disk.emissivity === 'power-law' && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <label className="text-sm font-medium text-white/90">Index (F ∝ r^-q)</label>
+                      <span className="font-mono text-sm text-white/70">q = {disk.powerIndex.toFixed(1)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="6"
+                      step="0.1"
+                      value={disk.powerIndex}
+                      onChange={(e) => updateDisk({ powerIndex: parseFloat(e.target.value) })}
+                      className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+                    />
+                  </>
+                )}
+                <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                  {rISCO === null
+                    ? 'Λ is too large for stable circular orbits, so there is no disk.'
+                    : <>Gas on Keplerian orbits from the ISCO at {(rISCO / mass).toFixed(2)}M. The Observer Image traces it through the curved geometry: the far side appears lensed over the top, and each pixel carries the combined gravitational and Doppler shift g, brightening as g⁴.</>}
+                </div>
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
@@ -220,15 +636,38 @@ const Controls: React.FC<ControlsProps> = ({
       <div className="bg-space-700/50 rounded-xl p-4 border border-white/10 backdrop-blur-sm flex flex-col gap-5">
         <div className="text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">Physics</div>
 
+        {/* Particle Type */}
+        <div className="flex flex-col gap-2">
+          <label className="text-sm font-medium text-white/90">Test Particle</label>
+          <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+            {particleTypes.map((type) => (
+              <button
+                key={type.id}
+                onClick={() => updateParticle({ type: type.id })}
+                disabled={isPlaying || isContinuous}
+                className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
+                  ${particle.type === type.id
+                    ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50' 
+                    : 'text-white/50 hover:text-white hover:bg-white/5'
+                  }`}
+              >
+                {type.icon}
+                {type.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Modes Grid */}
         <div className="grid grid-cols-1 gap-4">
           {/* Distribution */}
           <div className="flex flex-col gap-2">
-            <label className="text-sm font-medium text-white/90">Source Position</label>
-            <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+            <label className="text-sm font-medium text-white/90">Source</label>
+            <div className="grid grid-cols-4 gap-1 p-1 bg-space-900/50 rounded-lg border border-white/10">
               {distModes.map((mode) => (
                 <button
                   key={mode.id}
+                  title={mode.title}
                   onClick={() => setDistributionMode(mode.id)}
                   disabled={isPlaying || isContinuous}
                   className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
@@ -242,6 +681,116 @@ const Controls: React.FC<ControlsProps> = ({
                 </button>
               ))}
             </div>
+            {distributionMode === 'plane-wave' && (
+              <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+                  {beamShapes.map((shape) => (
+                    <button
+                      key={shape.id}
+                      onClick={() => updateSource({ beamShape: shape.id })}
+                      disabled={isPlaying || isContinuous}
+                      className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
+                        ${source.beamShape === shape.id
+                          ? 'bg-purple-600 text-white shadow-lg shadow-purple-900/50'
+                          : 'text-white/50 hover:text-white hover:bg-white/5'
+                        }`}
+                    >
+                      {shape.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">{source.beamShape === 'disk' ? 'Beam Radius' : 'Beam Half-Width'}</label>
+                  <span className="font-mono text-sm text-white/70">{source.beamRadius.toFixed(1)}M</span>
+                </div>
+                <input
+                  type="range"
+                  min="1"
+                  max="20"
+                  step="0.5"
+                  value={source.beamRadius}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => updateSource({ beamRadius: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">Ray Spacing</label>
+                  <span className="font-mono text-sm text-white/70">{source.beamSpacing.toFixed(2)}M</span>
+                </div>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="2"
+                  step="0.05"
+                  value={source.beamSpacing}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => updateSource({ beamSpacing: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+                <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                  <span className="font-mono text-white/90">{sourceRayCount}</span> parallel rays come down the −Z axis from infinity, each with b equal to its distance from the axis. The grid is capped at 31 × 31 rays, so fine spacings shrink the beam.
+                </div>
+              </div>
+            )}
+            {distributionMode === 'ring' && (
+              <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed animate-in fade-in slide-in-from-top-2 duration-300">
+                Parallel rays on a ring of radius b around the −Z axis, evenly spaced in azimuth. Behind the hole they cross the axis, where an Einstein ring would be seen.
+              </div>
+            )}
+            {distributionMode === 'point' && (
+              <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">Distance</label>
+                  <span className="font-mono text-sm text-white/70">{rPoint.toFixed(1)}M</span>
+                </div>
+                <input
+                  type="range"
+                  min={emitterMin}
+                  max={emitterMax}
+                  step="0.1"
+                  value={rPoint}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => updateSource({ pointDistance: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">Cone Half-Angle</label>
+                  <span className="font-mono text-sm text-white/70">{source.coneAngle.toFixed(0)}°</span>
+                </div>
+                <input
+                  type="range"
+                  min="1"
+                  max="90"
+                  step="1"
+                  value={source.coneAngle}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => updateSource({ coneAngle: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+                <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                  A point on the +Z axis fills a cone aimed at the hole, evenly by solid angle (at random in Random mode). Seen from there the hole covers <span className="font-mono text-white/90">{pointShadow.toFixed(1)}°</span> around the inward direction; rays inside that are captured.
+                </div>
+              </div>
+            )}
+            {distributionMode === 'list' && (
+              <div className="space-y-2 animate-in fade-in slide-in-from-top-2 duration-300">
+                <textarea
+                  value={listText}
+                  rows={5}
+                  spellCheck={false}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => {
+                    setListText(e.target.value);
+                    updateSource({ list: parseSourceList(e.target.value).list });
+                  }}
+                  className="w-full bg-space-900/50 border border-white/10 rounded-lg p-2 text-xs font-mono text-white/80 focus:outline-none focus:border-purple-500/50 disabled:opacity-50"
+                />
+                <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                  One ray per line: <span className="font-mono text-white/90">b, θ, φ, ψ</span> with b in units of M and the orientation of its plane in degrees (start direction θ, φ; spin ψ about it). Missing angles put the ray in the equatorial plane.
+                  {listInvalid > 0 && <span className="text-red-400"> {listInvalid} line{listInvalid > 1 ? 's' : ''} skipped.</span>}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Impact Mode */}
@@ -252,7 +801,7 @@ const Controls: React.FC<ControlsProps> = ({
                 <button
                   key={mode.id}
                   onClick={() => setImpactMode(mode.id)}
-                  disabled={isPlaying || isContinuous}
+                  disabled={isPlaying || isContinuous || isMassive || fixedLayout}
                   className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
                     ${impactMode === mode.id
                       ? 'bg-purple-600 text-white shadow-lg shadow-purple-900/50' 
@@ -267,6 +816,92 @@ const Controls: React.FC<ControlsProps> = ({
           </div>
         </div>
 
+        {/* Spacetime */}
+        <div className="space-y-3 pt-2 border-t border-white/5">
+          <label className="text-sm font-medium text-white/90">Spacetime</label>
+          <div className="grid grid-cols-2 gap-1 p-1 bg-space-900/50 rounded-lg border border-white/10">
+            {spacetimes.map((kind) => (
+              <button
+                key={kind.id}
+                title={kind.title}
+                onClick={() => setSpacetime({ ...spacetime, kind: kind.id })}
+                disabled={isPlaying || isContinuous}
+                className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
+                  ${spacetime.kind === kind.id
+                    ? 'bg-purple-600 text-white shadow-lg shadow-purple-900/50' 
+                    : 'text-white/50 hover:text-white hover:bg-white/5'
+                  }`}
+              >
+                {kind.icon}
+                {kind.label}
+              </button>
+            ))}
+          </div>
+          {spacetime.kind === 'kerr' && (
+            <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Spin (a)</label>
+                <span className="font-mono text-sm text-white/70">{spacetime.spin.toFixed(3)}M</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="0.998"
+                step="0.001"
+                value={spacetime.spin}
+                disabled={isPlaying || isContinuous}
+                onChange={(e) => setSpacetime({ ...spacetime, spin: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+              <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                The spin axis is normal to the <span className="font-mono text-white/90">Plane</span> source, which alternates prograde and retrograde rays. Rays are integrated fully in 3D, so off-axis rays visibly wind around the spin axis (frame dragging).
+              </div>
+            </div>
+          )}
+          {spacetime.kind === 'reissner-nordstrom' && (
+            <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Charge (Q)</label>
+                <span className="font-mono text-sm text-white/70">{spacetime.charge.toFixed(3)}M</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="0.999"
+                step="0.001"
+                value={spacetime.charge}
+                disabled={isPlaying || isContinuous}
+                onChange={(e) => setSpacetime({ ...spacetime, charge: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+              <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                f(r) = 1 − 2M/r + Q²/r². Charge pulls the event horizon in to <span className="font-mono text-white/90">r₊ = {horizons.event.toFixed(2)}</span> and opens an inner (Cauchy) horizon at <span className="font-mono text-white/90">r₋ = {(horizons.inner ?? 0).toFixed(2)}</span>; the photon sphere and b_crit shrink with it.
+              </div>
+            </div>
+          )}
+          {spacetime.kind === 'schwarzschild-de-sitter' && (
+            <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Cosmological Constant (Λ)</label>
+                <span className="font-mono text-sm text-white/70">{spacetime.cosmologicalConstant.toExponential(1)}/M²</span>
+              </div>
+              <input
+                type="range"
+                min={logLambdaMin}
+                max={logLambdaMax}
+                step="0.05"
+                value={Math.log10(Math.max(spacetime.cosmologicalConstant, 10 ** logLambdaMin))}
+                disabled={isPlaying || isContinuous}
+                onChange={(e) => setSpacetime({ ...spacetime, cosmologicalConstant: 10 ** parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+              <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                f(r) = 1 − 2M/r − Λr²/3. A cosmological horizon forms at <span className="font-mono text-white/90">r_c = {(horizons.cosmological ?? Infinity).toFixed(1)}</span>; rays start no further out than 0.8 r_c and count as escaped beyond 0.95 r_c at most. The photon sphere stays at 3M but b_crit grows.
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Mass Parameter */}
         <div className="space-y-3 pt-2 border-t border-white/5">
           <div className="flex justify-between items-center">
@@ -285,8 +920,145 @@ const Controls: React.FC<ControlsProps> = ({
           />
         </div>
 
+        {/* Emitter and Source Radii */}
+        <div className="space-y-3 pt-2 border-t border-white/5">
+          <label className="text-sm font-medium text-white/90">Emitter</label>
+          <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+            {emitterModes.map((mode) => (
+              <button
+                key={mode.id}
+                title={mode.title}
+                onClick={() => updateEmitter({ mode: mode.id })}
+                disabled={isPlaying || isContinuous || !canEmit}
+                className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
+                  ${emitter.mode === mode.id
+                    ? 'bg-purple-600 text-white shadow-lg shadow-purple-900/50'
+                    : 'text-white/50 hover:text-white hover:bg-white/5'
+                  }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          {isEmitting ? (
+            <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Emitter Radius (r_e)</label>
+                <span className="font-mono text-sm text-white/70">{(rEmit / mass).toFixed(2)}M</span>
+              </div>
+              <input
+                type="range"
+                min={emitterMin}
+                max={emitterMax}
+                step="0.01"
+                value={Math.min(Math.max(emitter.radius, emitterMin), emitterMax)}
+                disabled={isPlaying || isContinuous}
+                onChange={(e) => updateEmitter({ radius: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+              {impactMode === 'fixed' && (
+                <>
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-medium text-white/90">Emission Angle</label>
+                    <span className={`font-mono text-sm ${emissionEscapes ? 'text-emerald-400' : 'text-red-400'}`}>{emitter.angle.toFixed(0)}°</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="180"
+                    step="1"
+                    value={emitter.angle}
+                    disabled={isPlaying || isContinuous}
+                    onChange={(e) => updateEmitter({ angle: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                  />
+                </>
+              )}
+              <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                {impactMode === 'fixed'
+                  ? <>Angles are measured from the outward radial direction by a static observer at r_e; this one corresponds to <span className="font-mono text-white/90">b = {emissionB.toFixed(2)}</span> (b_crit = {bCrit.toFixed(2)}). </>
+                  : <>Rays leave r_e isotropically in the static observer's frame. </>}
+                Light escapes inside a cone of half-angle <span className="font-mono text-white/90">{escapeCone.toFixed(1)}°</span> about the outward radial, shown green at the emitter; the rest falls in.
+              </div>
+            </div>
+          ) : isHotSpot ? (
+            <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Orbit Radius</label>
+                <span className="font-mono text-sm text-white/70">{Math.max(emitter.orbitRadius, spotMin).toFixed(2)}M</span>
+              </div>
+              <input
+                type="range"
+                min={spotMin}
+                max={Math.max(spotMin, 30)}
+                step="0.01"
+                value={Math.max(emitter.orbitRadius, spotMin)}
+                disabled={isPlaying || isContinuous || spotISCO === null}
+                onChange={(e) => updateEmitter({ orbitRadius: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Observer Inclination</label>
+                <span className="font-mono text-sm text-white/70">{emitter.inclination.toFixed(0)}°</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="90"
+                step="1"
+                value={emitter.inclination}
+                disabled={isPlaying || isContinuous}
+                onChange={(e) => updateEmitter({ inclination: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+              <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+                {spotISCO === null
+                  ? 'Λ is too large for stable circular orbits, so there is nothing for the spot to ride.'
+                  : <>The spot orbits in the equatorial plane from the ISCO at {(spotISCO / mass).toFixed(2)}M outward and flashes evenly over one orbit. Each flash sends two rays: the primary image, straight to the observer, and the secondary, which goes round the far side of the hole. The light curve below follows both.</>}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Start Radius</label>
+                <span className="font-mono text-sm text-white/70">{emitter.startRadius.toFixed(0)}M</span>
+              </div>
+              <input
+                type="range"
+                min="20"
+                max="300"
+                step="5"
+                value={emitter.startRadius}
+                disabled={isPlaying || isContinuous}
+                onChange={(e) => {
+                  const startRadius = parseFloat(e.target.value);
+                  updateEmitter({ startRadius, escapeRadius: Math.max(emitter.escapeRadius, startRadius + 5) });
+                }}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+            </>
+          )}
+          <div className="flex justify-between items-center">
+            <label className="text-sm font-medium text-white/90">Escape Radius</label>
+            <span className="font-mono text-sm text-white/70">{emitter.escapeRadius.toFixed(0)}M</span>
+          </div>
+          <input
+            type="range"
+            min="25"
+            max="400"
+            step="5"
+            value={emitter.escapeRadius}
+            disabled={isPlaying || isContinuous}
+            onChange={(e) => {
+              const escapeRadius = parseFloat(e.target.value);
+              updateEmitter({ escapeRadius, startRadius: Math.min(emitter.startRadius, escapeRadius - 5) });
+            }}
+            className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+          />
+        </div>
+
         {/* Impact Parameter Slider (Only if Fixed) */}
-        {impactMode === 'fixed' && (
+        {impactMode === 'fixed' && !isMassive && !isEmitting && !isHotSpot && usesB && (
           <div className="space-y-3 pt-2 border-t border-white/5 animate-in fade-in slide-in-from-top-2 duration-300">
             <div className="flex justify-between items-center">
               <label className="text-sm font-medium text-white/90">Value (b)</label>
@@ -321,19 +1093,216 @@ const Controls: React.FC<ControlsProps> = ({
           </div>
         )}
         
-        {impactMode === 'random' && (
-           <div className="pt-2 border-t border-white/5 animate-in fade-in slide-in-from-top-2 duration-300">
+        {impactMode === 'random' && !isMassive && !isEmitting && !isHotSpot && usesB && (
+           <div className="space-y-3 pt-2 border-t border-white/5 animate-in fade-in slide-in-from-top-2 duration-300">
+              <label className="text-sm font-medium text-white/90">b Distribution</label>
+              <div className="grid grid-cols-3 gap-1 p-1 bg-space-900/50 rounded-lg border border-white/10">
+                {impactDistributions.map((dist) => (
+                  <button
+                    key={dist.id}
+                    title={dist.title}
+                    onClick={() => updateImpact({ distribution: dist.id })}
+                    disabled={isPlaying || isContinuous}
+                    className={`flex-1 flex items-center justify-center py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
+                      ${impact.distribution === dist.id
+                        ? 'bg-purple-600 text-white shadow-lg shadow-purple-900/50'
+                        : 'text-white/50 hover:text-white hover:bg-white/5'
+                      }`}
+                  >
+                    {dist.label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Minimum b</label>
+                <span className="font-mono text-sm text-white/70">{impact.min.toFixed(1)}M</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="19.9"
+                step="0.1"
+                value={impact.min}
+                disabled={isPlaying || isContinuous}
+                onChange={(e) => {
+                  const min = parseFloat(e.target.value);
+                  updateImpact({ min, max: Math.max(impact.max, min + 0.1) });
+                }}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-white/90">Maximum b</label>
+                <span className="font-mono text-sm text-white/70">{impact.max.toFixed(1)}M</span>
+              </div>
+              <input
+                type="range"
+                min="0.1"
+                max="20"
+                step="0.1"
+                value={impact.max}
+                disabled={isPlaying || isContinuous}
+                onChange={(e) => {
+                  const max = parseFloat(e.target.value);
+                  updateImpact({ max, min: Math.min(impact.min, max - 0.1) });
+                }}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+              {impact.distribution === 'gaussian' && (
+                <>
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-medium text-white/90">Width (σ)</label>
+                    <span className="font-mono text-sm text-white/70">{impact.width.toFixed(2)}M</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.05"
+                    max="3"
+                    step="0.05"
+                    value={impact.width}
+                    disabled={isPlaying || isContinuous}
+                    onChange={(e) => updateImpact({ width: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                  />
+                </>
+              )}
+
+              {/* Preview of the sampled values */}
+              <div className="space-y-1">
+                <div className="relative h-14 flex items-end gap-px bg-space-900/50 rounded-md border border-white/10 p-1">
+                  {impactHistogram.map((n, k) => (
+                    <div key={k} className="flex-1 bg-purple-400/60 rounded-t-sm" style={{ height: `${(100 * n) / histogramPeak}%` }}></div>
+                  ))}
+                  {critPosition >= 0 && critPosition <= 1 && (
+                    <div className="absolute top-0 bottom-0 w-px bg-red-400/80" style={{ left: `${critPosition * 100}%` }} title="b_crit"></div>
+                  )}
+                </div>
+                <div className="flex justify-between text-[10px] font-mono text-white/40">
+                  <span>{(Math.min(impact.min, impact.max) * mass).toFixed(1)}</span>
+                  <span className="text-red-400/80">b_crit = {bCrit.toFixed(2)}</span>
+                  <span>{(Math.max(impact.min, impact.max) * mass).toFixed(1)}</span>
+                </div>
+              </div>
               <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
-                 Generating rays with random impact parameters between <span className="font-mono text-white/90">{(2.5*mass).toFixed(1)}</span> and <span className="font-mono text-white/90">{(7.5*mass).toFixed(1)}</span>. This range covers both capture and escape trajectories.
+                {impactNotes[impact.distribution]} The range is in units of M; the histogram shows the values of this ray set.
               </div>
            </div>
         )}
 
+        {/* Massive Particle Orbit */}
+        {isMassive && (
+          <div className="space-y-3 pt-2 border-t border-white/5 animate-in fade-in slide-in-from-top-2 duration-300">
+            <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+              {orbitSpecs.map((spec) => (
+                <button
+                  key={spec.id}
+                  onClick={() => updateParticle({ spec: spec.id })}
+                  disabled={isPlaying || isContinuous}
+                  className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
+                    ${particle.spec === spec.id
+                      ? 'bg-purple-600 text-white shadow-lg shadow-purple-900/50' 
+                      : 'text-white/50 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                  {spec.label}
+                </button>
+              ))}
+            </div>
+
+            {particle.spec === 'apsides' && (
+              <>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">Periapsis (r_p)</label>
+                  <span className="font-mono text-sm text-white/70">{particle.periapsis.toFixed(1)}M</span>
+                </div>
+                <input
+                  type="range"
+                  min="4"
+                  max="60"
+                  step="0.1"
+                  value={particle.periapsis}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => {
+                    const rp = parseFloat(e.target.value);
+                    updateParticle({ periapsis: rp, apoapsis: Math.max(rp, particle.apoapsis) });
+                  }}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">Apoapsis (r_a)</label>
+                  <span className="font-mono text-sm text-white/70">{particle.apoapsis.toFixed(1)}M</span>
+                </div>
+                <input
+                  type="range"
+                  min="4"
+                  max="100"
+                  step="0.1"
+                  value={particle.apoapsis}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => {
+                    const ra = parseFloat(e.target.value);
+                    updateParticle({ apoapsis: ra, periapsis: Math.min(ra, particle.periapsis) });
+                  }}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+              </>
+            )}
+
+            {particle.spec === 'energy' && (
+              <>
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">Energy (E)</label>
+                  <span className={`font-mono text-sm ${particle.energy < 1 ? 'text-purple-300' : 'text-amber-300'}`}>{particle.energy.toFixed(4)}</span>
+                </div>
+                <input
+                  type="range"
+                  min="0.9"
+                  max="1.2"
+                  step="0.0005"
+                  value={particle.energy}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => updateParticle({ energy: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-white/90">Angular Momentum (L)</label>
+                  <span className="font-mono text-sm text-white/70">{particle.angularMomentum.toFixed(3)}M</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="8"
+                  step="0.01"
+                  value={particle.angularMomentum}
+                  disabled={isPlaying || isContinuous}
+                  onChange={(e) => updateParticle({ angularMomentum: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-purple-400 [&::-webkit-slider-thumb]:rounded-full"
+                />
+              </>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {orbitPresets.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => updateParticle(preset.patch)}
+                  disabled={isPlaying || isContinuous}
+                  className="px-3 py-1.5 text-xs font-mono rounded border transition-colors bg-white/5 border-white/10 hover:bg-white/10 text-slate-300 disabled:opacity-50"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+              Bound particles (E &lt; 1) start at apoapsis. The ISCO at <span className="font-mono text-white/90">6M</span> has E = √(8/9), L = √12 M; below it no stable circular orbits exist.
+            </div>
+          </div>
+        )}
+
         {/* Ray Count */}
         <div className="space-y-3 pt-2 border-t border-white/5">
           <div className="flex justify-between items-center">
             <label className="text-sm font-medium text-white/90">Ray Count</label>
-            <span className="font-mono text-sm text-white/70">{rayCount}</span>
+            <span className="font-mono text-sm text-white/70">{sourceRayCount}</span>
           </div>
           <div className="flex gap-3 items-center">
             <input
@@ -342,10 +1311,26 @@ const Controls: React.FC<ControlsProps> = ({
               max="1000"
               step="1"
               value={rayCount}
-              disabled={isPlaying || isContinuous}
+              disabled={isPlaying || isContinuous || fixedLayout}
               onChange={(e) => setRayCount(parseInt(e.target.value))}
               className="flex-1 h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-indigo-400 [&::-webkit-slider-thumb]:rounded-full"
             />
+          </div>
+          {/* Same seed, same angles and random impact parameters */}
+          <div className="flex gap-3 items-center">
+            <label className="text-xs text-white/50 font-mono">Seed</label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={seed}
+              disabled={isPlaying || isContinuous}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                if (isFinite(value) && value >= 0) setSeed(value);
+              }}
+              className="flex-1 min-w-0 px-2 py-1 bg-space-900/50 border border-white/10 rounded-lg text-xs font-mono text-white/80 focus:outline-none focus:border-indigo-500/50 disabled:opacity-50"
+            />
             <button
               onClick={onRandomize}
               disabled={isPlaying || isContinuous}
@@ -358,6 +1343,99 @@ const Controls: React.FC<ControlsProps> = ({
         </div>
 
       </div>
+
+      {/* Integrator Settings */}
+      <div className="bg-space-700/50 rounded-xl p-4 border border-white/10 backdrop-blur-sm flex flex-col gap-4">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <Sigma size={12} /> Integrator
+        </div>
+
+        <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+          {integratorMethods.map((method) => (
+            <button
+              key={method.id}
+              onClick={() => updateIntegrator({ method: method.id })}
+              disabled={isPlaying || isContinuous}
+              className={`flex-1 flex items-center justify-center gap-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
+                ${integrator.method === method.id
+                  ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50' 
+                  : 'text-white/50 hover:text-white hover:bg-white/5'
+                }`}
+            >
+              {method.label}
+            </button>
+          ))}
+        </div>
+
+        {integrator.method === 'rk4' && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-white/90">Step (dλ)</label>
+              <span className="font-mono text-sm text-white/70">{integrator.step.toFixed(3)}</span>
+            </div>
+            <input
+              type="range"
+              min="0.005"
+              max="0.2"
+              step="0.005"
+              value={integrator.step}
+              disabled={isPlaying || isContinuous}
+              onChange={(e) => updateIntegrator({ step: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-indigo-400 [&::-webkit-slider-thumb]:rounded-full"
+            />
+          </div>
+        )}
+
+        {integrator.method === 'rk45' && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-white/90">Absolute Tolerance</label>
+              <span className="font-mono text-sm text-white/70">{integrator.absTol.toExponential(0)}</span>
+            </div>
+            <input
+              type="range"
+              min="-12"
+              max="-3"
+              step="1"
+              value={Math.log10(integrator.absTol)}
+              disabled={isPlaying || isContinuous}
+              onChange={(e) => updateIntegrator({ absTol: Math.pow(10, parseFloat(e.target.value)) })}
+              className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-indigo-400 [&::-webkit-slider-thumb]:rounded-full"
+            />
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-white/90">Relative Tolerance</label>
+              <span className="font-mono text-sm text-white/70">{integrator.relTol.toExponential(0)}</span>
+            </div>
+            <input
+              type="range"
+              min="-12"
+              max="-3"
+              step="1"
+              value={Math.log10(integrator.relTol)}
+              disabled={isPlaying || isContinuous}
+              onChange={(e) => updateIntegrator({ relTol: Math.pow(10, parseFloat(e.target.value)) })}
+              className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-indigo-400 [&::-webkit-slider-thumb]:rounded-full"
+            />
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-white/90">Max Step</label>
+              <span className="font-mono text-sm text-white/70">{integrator.maxStep.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min="0.05"
+              max="5"
+              step="0.05"
+              value={integrator.maxStep}
+              disabled={isPlaying || isContinuous}
+              onChange={(e) => updateIntegrator({ maxStep: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-indigo-400 [&::-webkit-slider-thumb]:rounded-full"
+            />
+            <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+              Dormand–Prince 5(4) on the second-order radial equation. Steps shrink automatically near periapsis and the photon sphere.
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
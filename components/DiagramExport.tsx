@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, PenTool } from 'lucide-react';
+import { DiagramProjection, DiagramSettings, DiagramTheme, RayColorSettings, RayPath, SpacetimeSettings } from '../types';
+import { DEFAULT_DIAGRAM, exportDiagramSvg, getDiagramExtent } from '../services/svgExport';
+import { downloadFile } from '../services/download';
+
+interface DiagramExportProps {
+  rays: RayPath[]; // The rays on screen (hidden ones left out)
+  mass: number;
+  spacetime: SpacetimeSettings;
+  rayColors: RayColorSettings;
+  showInterior: boolean;
+  seed: number;
+}
+
+const DiagramExport: React.FC<DiagramExportProps> = ({ rays, mass, spacetime, rayColors, showInterior, seed }) => {
+  const [settings, setSettings] = useState<DiagramSettings>(DEFAULT_DIAGRAM);
+  const update = (patch: Partial<DiagramSettings>) => setSettings({ ...settings, ...patch });
+
+  const svg = useMemo(
+    () => exportDiagramSvg({ rays, mass, spacetime, rayColors, showInterior }, settings),
+    [rays, mass, spacetime, rayColors, showInterior, settings]
+  );
+
+  // Preview through an object URL, so the figure's ids stay out of the page
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [svg]);
+
+  const projections: { id: DiagramProjection; label: string; title: string }[] = [
+    { id: 'orbital', label: 'Orbital', title: 'Each ray in its own orbital plane, from its (r, φ)' },
+    { id: 'xy', label: 'x–y', title: 'The scene seen down the z axis (equatorial plane)' },
+    { id: 'xz', label: 'x–z', title: 'The scene seen along the y axis' },
+    { id: 'yz', label: 'y–z', title: 'The scene seen along the x axis' },
+  ];
+  const themes: { id: DiagramTheme; label: string }[] = [
+    { id: 'print', label: 'Print' },
+    { id: 'dark', label: 'Dark' },
+  ];
+
+  const segment = (active: boolean) =>
+    `flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all
+      ${active ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50' : 'text-white/50 hover:text-white hover:bg-white/5'}`;
+
+  return (
+    <div className="bg-space-800/50 border border-white/5 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <PenTool size={14} /> Figure Export
+        </div>
+        <button
+          onClick={() => downloadFile(svg, 'image/svg+xml', `geodesics-${seed}-${settings.projection}.svg`)}
+          disabled={rays.length === 0}
+          className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Download size={12} /> SVG
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-3">
+        <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10 gap-1">
+          {projections.map(p => (
+            <button key={p.id} onClick={() => update({ projection: p.id })} title={p.title} className={segment(settings.projection === p.id)}>
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10 gap-1">
+          {themes.map(t => (
+            <button key={t.id} onClick={() => update({ theme: t.id })} className={segment(settings.theme === t.id)}>
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium text-white/90">Half-Width</label>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => update({ extent: getDiagramExtent(rays, mass) })}
+              disabled={rays.length === 0}
+              className="px-2 py-0.5 text-[10px] font-mono uppercase tracking-widest rounded border bg-white/5 border-white/10 hover:bg-white/10 text-slate-300 disabled:opacity-50"
+              title="Fit the rays' starting points"
+            >
+              Fit
+            </button>
+            <span className="font-mono text-sm text-white/70">{settings.extent}M</span>
+          </div>
+        </div>
+        <input
+          type="range"
+          min="5"
+          max="200"
+          step="1"
+          value={settings.extent}
+          onChange={(e) => update({ extent: parseInt(e.target.value) })}
+          className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-white/90">ISCO Circle</label>
+        <button
+          onClick={() => update({ showISCO: !settings.showISCO })}
+          className={`px-3 py-1 text-xs font-mono rounded-md transition-colors ${settings.showISCO ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-white/50 hover:text-white'}`}
+        >
+          {settings.showISCO ? 'Shown' : 'Hidden'}
+        </button>
+      </div>
+
+      {previewUrl && rays.length > 0 && (
+        <img src={previewUrl} alt="Preview of the exported figure" className="w-full rounded border border-white/10" />
+      )}
+
+      <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+        The orbital view draws every ray from the (r, φ) of its own plane, as integrated before the 3D rotation, so rays of one impact parameter overlap. The axis views project the scene instead. Trails keep the current colouring and its legend; hidden rays are left out. Kerr rays have no orbital plane and are drawn at their (r, φ) in the equatorial plane.
+      </div>
+    </div>
+  );
+};
+
+export default DiagramExport;
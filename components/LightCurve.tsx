@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { Activity } from 'lucide-react';
+import { getHotSpotOrbit, computeLightCurve } from '../services/hotSpot';
+import { getCoordinateTime } from '../services/playback';
+import { EmitterSettings, PlaybackClock, SpacetimeSettings } from '../types';
+
+interface LightCurveProps {
+  mass: number;
+  spacetime: SpacetimeSettings;
+  emitter: EmitterSettings;
+  time: number; // Reading of the shared clock
+  clock: PlaybackClock;
+  observerFactor: number;
+}
+
+const PERIODS = 2; // Orbits shown side by side
+const WIDTH = 600;
+const PLOT_HEIGHT = 90;
+
+const SERIES = {
+  total: '#ffffff',
+  primary: '#22d3ee',
+  secondary: '#c084fc',
+};
+
+// SVG path through (x, y) pairs, broken wherever y is not finite
+function toPath(xs: number[], ys: number[]) {
+  let d = '';
+  let pen = false;
+  xs.forEach((x, i) => {
+    if (!isFinite(ys[i])) {
+      pen = false;
+      return;
+    }
+    d += `${pen ? 'L' : 'M'}${x.toFixed(1)},${ys[i].toFixed(1)}`;
+    pen = true;
+  });
+  return d;
+}
+
+const LightCurve: React.FC<LightCurveProps> = ({ mass, spacetime, emitter, time, clock, observerFactor }) => {
+  const orbit = useMemo(() => getHotSpotOrbit(mass, spacetime, emitter), [mass, spacetime, emitter]);
+  const curve = useMemo(() => (orbit ? computeLightCurve(orbit) : null), [orbit]);
+
+  const plots = useMemo(() => {
+    if (!curve) return null;
+    const n = curve.times.length;
+    const xs: number[] = [];
+    const index: number[] = [];
+    for (let p = 0; p < PERIODS; p++) {
+      for (let j = 0; j < n; j++) {
+        xs.push(((p * n + j) / (PERIODS * n)) * WIDTH);
+        index.push(j);
+      }
+    }
+    const shifts = [...curve.shift.primary, ...curve.shift.secondary].filter(isFinite);
+    const gMin = Math.min(1, ...shifts) * 0.95;
+    const gMax = Math.max(1, ...shifts) * 1.05;
+    const fluxY = (v: number) => PLOT_HEIGHT - 4 - v * (PLOT_HEIGHT - 8);
+    const shiftY = (g: number) => PLOT_HEIGHT - 4 - ((g - gMin) / (gMax - gMin)) * (PLOT_HEIGHT - 8);
+    return {
+      flux: (['total', 'primary', 'secondary'] as const).map(key => ({ key, d: toPath(xs, index.map(j => fluxY(curve.flux[key][j]))) })),
+      shift: (['primary', 'secondary'] as const).map(key => ({ key, d: toPath(xs, index.map(j => shiftY(curve.shift[key][j]))) })),
+      unitShift: shiftY(1),
+      gMin,
+      gMax,
+    };
+  }, [curve]);
+
+  if (!orbit || !curve || !plots) {
+    return (
+      <div className="bg-space-800/50 border border-white/5 rounded-lg p-4 text-xs text-white/60">
+        No stable circular orbits exist for these parameters, so there is no hot spot to follow.
+      </div>
+    );
+  }
+
+  // The distant observer's time, with the light travel time to them taken out
+  const observed = getCoordinateTime(time, clock, observerFactor);
+  const span = PERIODS * curve.period;
+  const cursor = ((((observed % span) + span) % span) / span) * WIDTH;
+
+  return (
+    <div className="bg-space-800/50 border border-white/5 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <Activity size={14} /> Hot Spot Light Curve
+        </div>
+        <div className="text-[10px] font-mono text-white/40">
+          r = {(orbit.rSpot / mass).toFixed(2)}M · i = {emitter.inclination.toFixed(0)}° · P = {curve.period.toFixed(1)}
+          {spacetime.kind === 'kerr' && ' · a = 0 limit'}
+        </div>
+      </div>
+      <div className="space-y-2">
+        {[
+          { label: 'Flux', series: plots.flux, range: ['1', '0'], reference: null },
+          { label: 'ν_obs / ν_emit', series: plots.shift, range: [plots.gMax.toFixed(2), plots.gMin.toFixed(2)], reference: plots.unitShift },
+        ].map(plot => (
+          <div key={plot.label} className="relative">
+            <div className="absolute top-1 left-2 text-[10px] font-mono uppercase tracking-widest text-white/40 pointer-events-none">{plot.label}</div>
+            <svg viewBox={`0 0 ${WIDTH} ${PLOT_HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-space-900/50 rounded border border-white/5">
+              {plot.reference !== null && (
+                <line x1={0} x2={WIDTH} y1={plot.reference} y2={plot.reference} stroke="rgba(255,255,255,0.15)" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+              )}
+              {Array.from({ length: PERIODS - 1 }, (_, p) => (
+                <line key={p} x1={((p + 1) / PERIODS) * WIDTH} x2={((p + 1) / PERIODS) * WIDTH} y1={0} y2={PLOT_HEIGHT} stroke="rgba(255,255,255,0.08)" vectorEffect="non-scaling-stroke" />
+              ))}
+              {plot.series.map(({ key, d }) => (
+                <path key={key} d={d} fill="none" stroke={SERIES[key]} strokeWidth={key === 'total' ? 1.5 : 1.2} strokeOpacity={key === 'total' ? 0.9 : 0.8} vectorEffect="non-scaling-stroke" />
+              ))}
+              <line x1={cursor} x2={cursor} y1={0} y2={PLOT_HEIGHT} stroke="#fb923c" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className="absolute top-1 right-2 text-[9px] font-mono text-white/30 pointer-events-none">{plot.range[0]}</div>
+            <div className="absolute bottom-1 right-2 text-[9px] font-mono text-white/30 pointer-events-none">{plot.range[1]}</div>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mt-2 text-[10px] font-mono uppercase tracking-widest text-white/50">
+        <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-white"></span>Total</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-cyan-400"></span>Primary</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-purple-400"></span>Secondary</span>
+        <span className="ml-auto normal-case tracking-normal text-white/40">Observed time t − r*, {PERIODS} orbits</span>
+      </div>
+    </div>
+  );
+};
+
+export default LightCurve;
@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { MicrolensingSettings, SpacetimeSettings } from '../types';
+import {
+  TRACK_HALF_LENGTH, MAX_IMPACT_PARAMETER,
+  createLens, solveLensEquation, computeMicrolensingCurve, getPaczynskiMagnification, getWeakFieldImages, getSourcePosition,
+} from '../services/microlensing';
+
+interface MicrolensingProps {
+  mass: number;
+  setMass: (val: number) => void;
+  spacetime: SpacetimeSettings;
+  time: number; // Reading of the shared clock; one playback run is one crossing
+  maxTime: number;
+  settings: MicrolensingSettings;
+  setSettings: (settings: MicrolensingSettings) => void;
+}
+
+// Half-width of the sky plot, in Einstein radii
+const SKY_EXTENT = 3.2;
+const CURVE_WIDTH = 600;
+const CURVE_HEIGHT = 90;
+
+const Microlensing: React.FC<MicrolensingProps> = ({ mass, setMass, spacetime, time, maxTime, settings, setSettings }) => {
+  const update = (patch: Partial<MicrolensingSettings>) => setSettings({ ...settings, ...patch });
+
+  // The deflection table only depends on the lens; the curve only on how close the track passes
+  const lens = useMemo(() => createLens(mass, spacetime, settings.lensDistance), [mass, spacetime, settings.lensDistance]);
+  const curve = useMemo(() => computeMicrolensingCurve(lens, settings.impactParameter), [lens, settings.impactParameter]);
+
+  const tau = -TRACK_HALF_LENGTH + 2 * TRACK_HALF_LENGTH * Math.min(1, Math.max(0, maxTime > 0 ? time / maxTime : 0));
+  const [sx, sy] = getSourcePosition(settings, tau);
+  const u = Math.hypot(sx, sy);
+  // Unit vector from the lens towards the source; every image lies on this line
+  const [ux, uy] = u > 0 ? [sx / u, sy / u] : [1, 0];
+  const images = solveLensEquation(lens, u);
+  const weakImages = getWeakFieldImages(u);
+  const exactTotal = images.reduce((sum, image) => sum + Math.abs(image.magnification), 0);
+  const weakTotal = getPaczynskiMagnification(u);
+
+  const plot = useMemo(() => {
+    const peak = Math.max(...curve.exact, ...curve.paczynski) * 1.05;
+    const x = (t: number) => ((t + TRACK_HALF_LENGTH) / (2 * TRACK_HALF_LENGTH)) * CURVE_WIDTH;
+    const y = (a: number) => CURVE_HEIGHT - 4 - ((a - 1) / (peak - 1)) * (CURVE_HEIGHT - 8);
+    const path = (values: number[]) => values.map((a, j) => `${j === 0 ? 'M' : 'L'}${x(curve.tau[j]).toFixed(1)},${y(a).toFixed(1)}`).join('');
+    return { exact: path(curve.exact), paczynski: path(curve.paczynski), peak, x };
+  }, [curve]);
+
+  const [start, end] = [getSourcePosition(settings, -TRACK_HALF_LENGTH), getSourcePosition(settings, TRACK_HALF_LENGTH)];
+  // Angular radius of the shadow on this sky, b_crit / (D_L θ_E)
+  const shadow = lens.bCrit / (lens.distanceL * lens.thetaE);
+
+  const sliders: { label: string; value: number; display: string; min: number; max: number; step: number; onChange: (v: number) => void }[] = [
+    { label: 'Impact u₀', value: settings.impactParameter, display: `${settings.impactParameter.toFixed(2)} θ_E`, min: 0.02, max: MAX_IMPACT_PARAMETER, step: 0.01, onChange: v => update({ impactParameter: v }) },
+    { label: 'Track Angle', value: settings.trackAngle, display: `${settings.trackAngle.toFixed(0)}°`, min: 0, max: 180, step: 1, onChange: v => update({ trackAngle: v }) },
+    { label: 'Mass', value: mass, display: `${mass.toFixed(1)}`, min: 0.5, max: 2.5, step: 0.1, onChange: setMass },
+    { label: 'D_L', value: settings.lensDistance, display: `${settings.lensDistance.toFixed(0)}`, min: 50, max: 5000, step: 10, onChange: v => update({ lensDistance: v }) },
+  ];
+
+  return (
+    <div className="w-full h-full min-h-[400px] relative bg-black rounded-xl overflow-hidden shadow-2xl border border-white/10">
+      {/* Sky around the lens, in Einstein radii (y up) */}
+      <svg viewBox={`${-SKY_EXTENT} ${-SKY_EXTENT} ${2 * SKY_EXTENT} ${2 * SKY_EXTENT}`} className="absolute inset-x-0 top-0 w-full h-[60%]">
+        <g transform="scale(1,-1)">
+          <circle r={1} fill="none" stroke="#22d3ee" strokeOpacity={0.35} strokeDasharray="0.06 0.06" strokeWidth={0.015} />
+          <circle r={Math.max(shadow, 0.02)} fill="#000" stroke="#ffffff" strokeOpacity={0.4} strokeWidth={0.01} />
+          <line x1={start[0]} y1={start[1]} x2={end[0]} y2={end[1]} stroke="#ffffff" strokeOpacity={0.2} strokeDasharray="0.05 0.05" strokeWidth={0.012} />
+          {weakImages.map((theta, k) => (
+            <circle key={k} cx={theta * ux} cy={theta * uy} r={0.09} fill="none" stroke="#c084fc" strokeOpacity={0.7} strokeWidth={0.015} />
+          ))}
+          {images.map((image, k) => (
+            <circle
+              key={k}
+              cx={image.theta * ux}
+              cy={image.theta * uy}
+              r={image.order > 0 ? 0.025 : Math.min(0.25, 0.05 + 0.04 * Math.sqrt(Math.abs(image.magnification)))}
+              fill={image.order > 0 ? '#fde68a' : '#22d3ee'}
+              fillOpacity={0.9}
+            />
+          ))}
+          <circle cx={sx} cy={sy} r={0.05} fill="#fb923c" />
+        </g>
+      </svg>
+
+      <div className="absolute top-4 left-4 pointer-events-none space-y-1 text-[10px] font-mono uppercase tracking-widest text-white/50">
+        <div>θ_E = {(lens.thetaE * 180 / Math.PI).toFixed(3)}°, R_E = {(lens.distanceL * lens.thetaE / mass).toFixed(1)}M</div>
+        <div>D_S = {lens.distanceS.toFixed(0)}, b_crit = {lens.bCrit.toFixed(3)}</div>
+        <div>τ = {tau.toFixed(2)} t_E, u = {u.toFixed(3)}</div>
+        <div className="text-cyan-300/80">A = {exactTotal.toFixed(4)} ({images.length} images)</div>
+        <div className="text-purple-300/80">A_Paczyński = {weakTotal.toFixed(4)} ({((exactTotal / weakTotal - 1) * 100).toFixed(2)}%)</div>
+        {spacetime.kind === 'kerr' && <div className="text-amber-300/80">Kerr shown in its a = 0 limit</div>}
+        {spacetime.kind === 'schwarzschild-de-sitter' && <div className="text-amber-300/80">Λ left out: the lens needs flat space far away</div>}
+      </div>
+      <div className="absolute top-4 right-4 pointer-events-none space-y-1 text-[10px] font-mono uppercase tracking-widest text-white/50 text-right">
+        <div className="flex items-center justify-end gap-1.5"><span className="w-2 h-2 rounded-full bg-orange-400"></span>Source</div>
+        <div className="flex items-center justify-end gap-1.5"><span className="w-2 h-2 rounded-full bg-cyan-400"></span>Images (exact)</div>
+        <div className="flex items-center justify-end gap-1.5"><span className="w-2 h-2 rounded-full border border-purple-400"></span>Weak field</div>
+        <div className="flex items-center justify-end gap-1.5"><span className="w-2 h-2 rounded-full bg-amber-200"></span>Relativistic</div>
+        <div className="flex items-center justify-end gap-1.5"><span className="w-3 border-t border-dashed border-cyan-400"></span>Einstein ring</div>
+      </div>
+
+      {/* Light curve and track */}
+      <div className="absolute bottom-4 left-4 right-4 bg-space-900/80 backdrop-blur border border-white/10 rounded-lg p-3 space-y-2">
+        <div className="relative">
+          <div className="absolute top-1 left-2 text-[10px] font-mono uppercase tracking-widest text-white/40 pointer-events-none">Magnification</div>
+          <svg viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 bg-space-900/50 rounded border border-white/5">
+            <path d={plot.paczynski} fill="none" stroke="#c084fc" strokeWidth={1.2} strokeDasharray="5 3" vectorEffect="non-scaling-stroke" />
+            <path d={plot.exact} fill="none" stroke="#22d3ee" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            <line x1={plot.x(tau)} x2={plot.x(tau)} y1={0} y2={CURVE_HEIGHT} stroke="#fb923c" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          </svg>
+          <div className="absolute top-1 right-2 text-[9px] font-mono text-white/30 pointer-events-none">{plot.peak.toFixed(2)}</div>
+          <div className="absolute bottom-1 right-2 text-[9px] font-mono text-white/30 pointer-events-none">1</div>
+        </div>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+          {sliders.map(slider => (
+            <div key={slider.label} className="space-y-1">
+              <div className="flex justify-between text-xs text-white/70">
+                <span>{slider.label}</span>
+                <span className="font-mono">{slider.display}</span>
+              </div>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={slider.value}
+                onChange={(e) => slider.onChange(parseFloat(e.target.value))}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="text-[10px] font-mono text-white/40">
+          Source at D_S = 2 D_L, crossing τ = ±{TRACK_HALF_LENGTH} t_E over one playback run. Distances are in the units of the mass.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Microlensing;
@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { DiskSettings, ObserverImageSettings, SkyKind, SpacetimeSettings } from '../types';
+import { getObserverRadii, Panorama, ObserverImageRequest, ObserverImageResult, ObserverImageError } from '../services/observerImage';
+import { getCriticalB, getEscapeConeAngle, getISCORadius } from '../services/physics';
+
+interface ObserverImageProps {
+  mass: number;
+  spacetime: SpacetimeSettings;
+  disk: DiskSettings;
+  settings: ObserverImageSettings;
+  setSettings: (settings: ObserverImageSettings) => void;
+}
+
+// Longest side of uploaded panoramas; larger ones are scaled down before sampling
+const MAX_PANORAMA_WIDTH = 4096;
+
+async function loadPanorama(file: File): Promise<Panorama> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_PANORAMA_WIDTH / bitmap.width);
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { width, height, data: ctx.getImageData(0, 0, width, height).data };
+}
+
+const ObserverImage: React.FC<ObserverImageProps> = ({ mass, spacetime, disk, settings, setSettings }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  // One render at a time: requests made meanwhile collapse into the latest one
+  const busyRef = useRef(false);
+  const pendingRef = useRef<ObserverImageRequest | null>(null);
+  const jobIdRef = useRef(0);
+
+  const [panorama, setPanorama] = useState<Panorama | null>(null);
+  const [panoramaName, setPanoramaName] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [panoramaError, setPanoramaError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ObserverImageSettings>) => setSettings({ ...settings, ...patch });
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../services/imageWorker.ts', import.meta.url), { type: 'module' });
+    const post = (request: ObserverImageRequest) => {
+      busyRef.current = true;
+      worker.postMessage(request);
+    };
+    const next = () => {
+      busyRef.current = false;
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      if (pending) post(pending);
+    };
+    worker.onmessage = (event: MessageEvent<ObserverImageResult | ObserverImageError>) => {
+      const result = event.data;
+      next();
+      if (result.jobId !== jobIdRef.current) return;
+      setIsRendering(false);
+      if ('error' in result) {
+        setRenderError(result.error);
+        return;
+      }
+      setRenderError(null);
+      const { width, height, pixels } = result;
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(pixels), width, height), 0, 0);
+    };
+    worker.onerror = event => {
+      // The worker itself failed (e.g. its script did not load)
+      event.preventDefault();
+      setRenderError(event.message || 'The image worker failed');
+      setIsRendering(false);
+      next();
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+    const jobId = ++jobIdRef.current;
+    const request: ObserverImageRequest = {
+      jobId,
+      settings,
+      mass,
+      spacetime,
+      width: settings.resolution,
+      height: settings.resolution,
+      panorama: settings.sky === 'panorama' ? panorama : null,
+      disk,
+    };
+    setIsRendering(true);
+    if (busyRef.current) {
+      pendingRef.current = request;
+    } else {
+      busyRef.current = true;
+      worker.postMessage(request);
+    }
+  }, [settings, mass, spacetime, panorama, disk]);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setPanorama(await loadPanorama(file));
+      setPanoramaName(file.name);
+      setPanoramaError(null);
+      update({ sky: 'panorama' });
+    } catch (err) {
+      setPanoramaError(`Could not read ${file.name}: ${err instanceof Error ? err.message : 'not an image'}`);
+    }
+  };
+
+  const { rObs, rHorizon } = getObserverRadii(settings, mass, spacetime);
+  const shadowAngle = 180 - (getEscapeConeAngle(rObs, mass, spacetime) * 180) / Math.PI;
+  // The image uses the a = 0 limit of Kerr, so its numbers have to as well
+  const imageSpacetime: SpacetimeSettings = spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime;
+  const bCrit = getCriticalB(mass, imageSpacetime);
+  const rISCO = getISCORadius(mass, imageSpacetime);
+  const showDisk = disk.model === 'physical';
+  const minRadius = Math.ceil((1.05 * rHorizon) / mass * 10) / 10;
+
+  const skies: { id: SkyKind; label: string }[] = [
+    { id: 'checker', label: 'Checkerboard' },
+    { id: 'panorama', label: 'Panorama' },
+    { id: 'none', label: 'None' },
+  ];
+  const resolutions = [256, 384, 512];
+
+  const sliders: { label: string; value: number; display: string; min: number; max: number; step: number; onChange: (v: number) => void }[] = [
+    { label: 'r_obs', value: Math.max(settings.observerRadius, minRadius), display: `${(rObs / mass).toFixed(1)}M`, min: minRadius, max: 100, step: 0.1, onChange: v => update({ observerRadius: v }) },
+    { label: 'Field of View', value: settings.fov, display: `${settings.fov.toFixed(0)}°`, min: 5, max: 150, step: 1, onChange: v => update({ fov: v }) },
+    { label: 'Latitude', value: settings.latitude, display: `${settings.latitude.toFixed(0)}°`, min: -90, max: 90, step: 1, onChange: v => update({ latitude: v }) },
+    { label: 'Sky Rotation', value: settings.skyRotation, display: `${settings.skyRotation.toFixed(0)}°`, min: 0, max: 360, step: 1, onChange: v => update({ skyRotation: v }) },
+  ];
+
+  return (
+    <div className="w-full h-full min-h-[400px] relative bg-black rounded-xl overflow-hidden shadow-2xl border border-white/10 flex items-center justify-center">
+      <canvas ref={canvasRef} className="h-full aspect-square max-w-full object-contain" style={{ imageRendering: 'pixelated' }} />
+
+      {isRendering && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none bg-space-900/80 backdrop-blur border border-white/10 rounded-lg px-3 py-2 text-[10px] font-mono uppercase tracking-widest text-cyan-300/80 animate-pulse">
+          Tracing Image
+        </div>
+      )}
+
+      {!isRendering && renderError && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none max-w-sm bg-space-900/80 backdrop-blur border border-red-500/30 rounded-lg px-3 py-2 text-[10px] font-mono">
+          <div className="uppercase tracking-widest text-red-300/90">Image could not be traced</div>
+          <div className="text-white/50 mt-1 break-words">{renderError}</div>
+        </div>
+      )}
+
+      <div className="absolute top-4 left-4 pointer-events-none space-y-1 text-[10px] font-mono uppercase tracking-widest text-white/50">
+        <div>Shadow radius b_crit = {bCrit.toFixed(3)}</div>
+        <div>Seen at {shadowAngle.toFixed(2)}° from r_obs</div>
+        {showDisk && (
+          <div className="text-orange-300/80">
+            {rISCO !== null && rISCO < disk.outerRadius * mass
+              ? <>Disk {(rISCO / mass).toFixed(2)}M – {disk.outerRadius.toFixed(0)}M, inclination {(90 - Math.abs(settings.latitude)).toFixed(0)}°</>
+              : 'No stable circular orbits: no disk'}
+          </div>
+        )}
+        {spacetime.kind === 'kerr' && <div className="text-amber-300/80">Kerr shown in its a = 0 limit</div>}
+      </div>
+
+      {/* Camera and sky */}
+      <div className="absolute bottom-4 left-4 right-4 bg-space-900/80 backdrop-blur border border-white/10 rounded-lg p-3 space-y-2">
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+          {sliders.map(slider => (
+            <div key={slider.label} className="space-y-1">
+              <div className="flex justify-between text-xs text-white/70">
+                <span>{slider.label}</span>
+                <span className="font-mono">{slider.display}</span>
+              </div>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={slider.value}
+                onChange={(e) => slider.onChange(parseFloat(e.target.value))}
+                className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10">
+            {skies.map(sky => (
+              <button
+                key={sky.id}
+                onClick={() => sky.id === 'panorama' && !panorama ? fileInputRef.current?.click() : update({ sky: sky.id })}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all
+                  ${settings.sky === sky.id
+                    ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50'
+                    : 'text-white/50 hover:text-white hover:bg-white/5'
+                  }`}
+              >
+                {sky.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors flex items-center gap-1.5"
+            title="Load an equirectangular (2:1) panorama"
+          >
+            <Upload size={12} /> {panoramaName ?? 'Upload'}
+          </button>
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleUpload} />
+          <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10 ml-auto">
+            {resolutions.map(res => (
+              <button
+                key={res}
+                onClick={() => update({ resolution: res })}
+                className={`px-2 py-1 text-xs font-mono rounded-md transition-all
+                  ${settings.resolution === res
+                    ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50'
+                    : 'text-white/50 hover:text-white hover:bg-white/5'
+                  }`}
+              >
+                {res}
+              </button>
+            ))}
+          </div>
+        </div>
+        {panoramaError && <div className="text-xs text-red-300/80">{panoramaError}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ObserverImage;
@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import { ChartLine } from 'lucide-react';
+import { getRadialPotential, getAllowedIntervals } from '../services/potential';
+import { getPlaybackSample } from '../services/playback';
+import { getHorizons, getPhotonSphere } from '../services/metrics';
+import { PlaybackClock, RayPath, SpacetimeSettings } from '../types';
+
+interface PotentialPlotProps {
+  ray: RayPath | null; // The selected ray
+  rayNumber: number; // Its place in the ray list, from 1
+  mass: number;
+  spacetime: SpacetimeSettings;
+  time: number; // Reading of the shared clock
+  clock: PlaybackClock;
+  observerFactor: number;
+  isContinuous: boolean;
+  clockRate: number;
+}
+
+const WIDTH = 300;
+const HEIGHT = 160;
+const SAMPLES = 400;
+
+// Log-spaced radii between rLo and rHi
+function logRange(rLo: number, rHi: number, n: number) {
+  return Array.from({ length: n }, (_, k) => rLo * Math.pow(rHi / rLo, k / (n - 1)));
+}
+
+function toPath(xs: number[], ys: number[]) {
+  let d = '';
+  let pen = false;
+  xs.forEach((x, i) => {
+    if (!isFinite(ys[i])) {
+      pen = false;
+      return;
+    }
+    d += `${pen ? 'L' : 'M'}${x.toFixed(1)},${ys[i].toFixed(1)}`;
+    pen = true;
+  });
+  return d;
+}
+
+const PotentialPlot: React.FC<PotentialPlotProps> = ({ ray, rayNumber, mass, spacetime, time, clock, observerFactor, isContinuous, clockRate }) => {
+  const spherical: SpacetimeSettings = spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime;
+  const rHorizon = getHorizons(mass, spherical).event;
+  const rPhoton = getPhotonSphere(mass, spherical);
+
+  const plots = useMemo(() => {
+    if (!ray || ray.points.length < 2) return null;
+    const potential = getRadialPotential(ray, mass, spacetime);
+    const photon = ray.particle === 'photon';
+    // Potentials in units of M: V M^2 for light, V as it is for massive particles
+    const unit = photon ? mass * mass : 1;
+
+    // V(r) on a log r axis from inside the horizon to beyond the ray's farthest point
+    const rLo = 0.5 * rHorizon;
+    const rHi = Math.max(20 * mass, 1.1 * ray.points.reduce((max, p) => Math.max(max, p.r), 0));
+    const radii = logRange(rLo, rHi, SAMPLES);
+    const values = radii.map(r => potential.potential(r) * unit);
+    const level = potential.level * unit;
+    const outside = values.filter((_, k) => radii[k] > rHorizon);
+    const top = 1.25 * Math.max(level, ...outside);
+    const bottom = photon ? -0.25 * top : Math.min(...outside) - 0.15 * (top - Math.min(...outside));
+    const xOf = (r: number) => (Math.log(r / rLo) / Math.log(rHi / rLo)) * WIDTH;
+    const yOf = (v: number) => HEIGHT - ((Math.max(bottom, Math.min(top, v)) - bottom) / (top - bottom)) * HEIGHT;
+    const allowed = getAllowedIntervals(potential, radii).map(([a, b]) => [xOf(a), xOf(b)] as [number, number]);
+    const ticks = [1, 2, 3, 5, 10, 20, 50, 100, 200].map(t => t * mass).filter(r => r > rLo && r < rHi);
+
+    // u = M/r against the swept angle, up to just inside the horizon
+    const phi0 = ray.points[0].phi;
+    const phiSpan = Math.max(1e-6, ...ray.points.map(p => Math.abs(p.phi - phi0)));
+    const uTop = (1.2 * mass) / rHorizon;
+    const uX = (phi: number) => (Math.abs(phi - phi0) / phiSpan) * WIDTH;
+    const uY = (u: number) => HEIGHT - (Math.min(u, uTop) / uTop) * HEIGHT;
+
+    return {
+      photon,
+      level,
+      potentialPath: toPath(radii.map(xOf), values.map(yOf)),
+      levelY: yOf(level),
+      zeroY: yOf(0),
+      allowed,
+      ticks: ticks.map(r => ({ x: xOf(r), label: `${(r / mass).toFixed(0)}` })),
+      xOf,
+      yOf,
+      orbitPath: toPath(ray.points.map(p => uX(p.phi)), ray.points.map(p => uY(mass / p.r))),
+      phiSpan,
+      uX,
+      uY,
+      uTop,
+    };
+  }, [ray, mass, spacetime, rHorizon]);
+
+  if (!ray || !plots) {
+    return (
+      <div className="bg-space-800/50 border border-white/5 rounded-lg p-4 text-xs text-white/60">
+        No ray to plot yet.
+      </div>
+    );
+  }
+
+  // The marker follows the selected ray exactly as the canvas plays it
+  const sample = getPlaybackSample(ray, time, clock, observerFactor, isContinuous, clockRate);
+  const current = sample ? ray.points[sample.index] : null;
+  const percent = (v: number, span: number) => `${(100 * v) / span}%`;
+
+  const guides = [
+    { r: rHorizon, color: 'rgba(255,255,255,0.35)', label: 'r_h' },
+    { r: rPhoton, color: 'rgba(34,211,238,0.45)', label: 'r_ph' },
+  ];
+
+  return (
+    <div className="bg-space-800/50 border border-white/5 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <ChartLine size={14} /> Effective Potential
+        </div>
+        <div className="text-[10px] font-mono text-white/40">
+          Ray {rayNumber} · {plots.photon ? `b = ${(ray.b / mass).toFixed(3)}M` : `E = ${ray.energy.toFixed(4)}, L = ${(ray.angularMomentum / mass).toFixed(3)}M`}
+          {spacetime.kind === 'kerr' && ' · a = 0 limit'}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {/* V_eff(r) against the ray's level */}
+        <div className="relative">
+          <div className="absolute top-1 left-2 text-[10px] font-mono uppercase tracking-widest text-white/40 pointer-events-none">
+            {plots.photon ? 'V = f/r² · M² vs 1/b²' : 'V = f(1 + L²/r²) vs E²'}
+          </div>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 bg-space-900/50 rounded border border-white/5">
+            {plots.allowed.map(([x0, x1], k) => (
+              <rect key={k} x={x0} y={0} width={Math.max(0, x1 - x0)} height={HEIGHT} fill="rgba(52,211,153,0.08)" />
+            ))}
+            {plots.ticks.map(t => (
+              <line key={t.label} x1={t.x} x2={t.x} y1={0} y2={HEIGHT} stroke="rgba(255,255,255,0.05)" vectorEffect="non-scaling-stroke" />
+            ))}
+            {plots.photon && (
+              <line x1={0} x2={WIDTH} y1={plots.zeroY} y2={plots.zeroY} stroke="rgba(255,255,255,0.1)" vectorEffect="non-scaling-stroke" />
+            )}
+            {guides.map(g => (
+              <line key={g.label} x1={plots.xOf(g.r)} x2={plots.xOf(g.r)} y1={0} y2={HEIGHT} stroke={g.color} strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+            ))}
+            <path d={plots.potentialPath} fill="none" stroke="#c084fc" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            <line x1={0} x2={WIDTH} y1={plots.levelY} y2={plots.levelY} stroke="#fbbf24" strokeWidth={1.2} strokeDasharray="6 3" vectorEffect="non-scaling-stroke" />
+            {current && (
+              <line x1={plots.xOf(current.r)} x2={plots.xOf(current.r)} y1={0} y2={HEIGHT} stroke="rgba(251,146,60,0.4)" vectorEffect="non-scaling-stroke" />
+            )}
+          </svg>
+          {current && (
+            <div
+              className="absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-orange-400 shadow-[0_0_8px_orange] pointer-events-none"
+              style={{ left: percent(plots.xOf(current.r), WIDTH), top: percent(plots.levelY, HEIGHT) }}
+            ></div>
+          )}
+          <div className="relative h-3 mt-0.5">
+            {plots.ticks.map(t => (
+              <span key={t.label} className="absolute -translate-x-1/2 text-[9px] font-mono text-white/30" style={{ left: percent(t.x, WIDTH) }}>{t.label}</span>
+            ))}
+          </div>
+        </div>
+
+        {/* Orbit equation: u = M/r against φ */}
+        <div className="relative">
+          <div className="absolute top-1 left-2 text-[10px] font-mono uppercase tracking-widest text-white/40 pointer-events-none">u = M/r vs φ</div>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 bg-space-900/50 rounded border border-white/5">
+            {/* Every π of sweep */}
+            {Array.from({ length: Math.floor(plots.phiSpan / Math.PI) }, (_, k) => (
+              <line key={k} x1={((k + 1) * Math.PI * WIDTH) / plots.phiSpan} x2={((k + 1) * Math.PI * WIDTH) / plots.phiSpan} y1={0} y2={HEIGHT} stroke="rgba(255,255,255,0.05)" vectorEffect="non-scaling-stroke" />
+            ))}
+            {guides.map(g => (
+              <line key={g.label} x1={0} x2={WIDTH} y1={plots.uY(mass / g.r)} y2={plots.uY(mass / g.r)} stroke={g.color} strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+            ))}
+            <path d={plots.orbitPath} fill="none" stroke="#22d3ee" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          </svg>
+          {current && (
+            <div
+              className="absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-orange-400 shadow-[0_0_8px_orange] pointer-events-none"
+              style={{ left: percent(plots.uX(current.phi), WIDTH), top: percent(plots.uY(mass / current.r), HEIGHT) }}
+            ></div>
+          )}
+          <div className="flex justify-between h-3 mt-0.5 text-[9px] font-mono text-white/30">
+            <span>0</span>
+            <span>Δφ = {(plots.phiSpan / Math.PI).toFixed(2)}π</span>
+          </div>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mt-2 text-[10px] font-mono uppercase tracking-widest text-white/50">
+        <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-purple-400"></span>V_eff</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 border-t border-dashed border-amber-400"></span>{plots.photon ? '1/b²' : 'E²'}</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 h-2 bg-emerald-400/20"></span>Allowed</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 border-t border-dashed border-cyan-400"></span>r_ph</span>
+        <span className="flex items-center gap-1.5"><span className="w-3 border-t border-dashed border-white/50"></span>r_h</span>
+        <span className="ml-auto normal-case tracking-normal text-white/40">log r/M · click a ray or a table row to pick one</span>
+      </div>
+    </div>
+  );
+};
+
+export default PotentialPlot;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { Crosshair, Eye, EyeOff, Focus, X } from 'lucide-react';
+import { getPlaybackSample } from '../services/playback';
+import { getRayFate } from '../services/observables';
+import { PlaybackClock, RayPath } from '../types';
+
+interface RayInspectorProps {
+  ray: RayPath | null; // The ray picked on the canvas
+  rayNumber: number; // Its place in the ray list, from 1
+  mass: number;
+  bCrit: number;
+  strongFactor: number; // Where the fate colouring splits off strongly lensed light
+  time: number; // Reading of the shared clock
+  clock: PlaybackClock;
+  observerFactor: number;
+  isContinuous: boolean;
+  clockRate: number;
+  hiddenRayIds: string[];
+  soloRayId: string | null;
+  onToggleHidden: () => void;
+  onToggleSolo: () => void;
+  onShowAll: () => void;
+  onClose: () => void;
+}
+
+const toDegrees = (rad: number) => `${((rad * 180) / Math.PI).toFixed(1)}°`;
+const formatNumber = (v: number, digits = 3) => (isFinite(v) ? v.toFixed(digits) : '—');
+
+const RayInspector: React.FC<RayInspectorProps> = ({
+  ray, rayNumber, mass, bCrit, strongFactor, time, clock, observerFactor, isContinuous, clockRate,
+  hiddenRayIds, soloRayId, onToggleHidden, onToggleSolo, onShowAll, onClose,
+}) => {
+  const filtered = hiddenRayIds.length > 0 || soloRayId !== null;
+  const filterLabel = soloRayId !== null ? 'Solo' : `${hiddenRayIds.length} hidden`;
+
+  // Nothing picked: only a way back to the full set, if part of it is hidden
+  if (!ray) {
+    if (!filtered) return null;
+    return (
+      <button
+        onClick={onShowAll}
+        className="px-3 py-1.5 text-[10px] font-mono uppercase tracking-widest rounded-md bg-space-900/80 backdrop-blur border border-white/10 text-white/60 hover:text-white"
+      >
+        {filterLabel} · Show all
+      </button>
+    );
+  }
+
+  // Where the playhead has the ray, between the bracketing points
+  const sample = getPlaybackSample(ray, time, clock, observerFactor, isContinuous, clockRate);
+  let current: { r: number; phi: number; shift: number } | null = null;
+  if (sample) {
+    const p = ray.points[sample.index];
+    const q = ray.points[Math.min(sample.index + 1, ray.points.length - 1)];
+    const lerp = (a: number, b: number) => a + sample.frac * (b - a);
+    current = { r: lerp(p.r, q.r), phi: lerp(p.phi, q.phi), shift: lerp(p.shift, q.shift) };
+  }
+
+  const isHidden = hiddenRayIds.includes(ray.id);
+  const isSolo = soloRayId === ray.id;
+  const { orientation } = ray;
+  const rows: [string, string][] = [
+    ['b', `${formatNumber(ray.b / mass)}M`],
+    ['Fate', getRayFate(ray, bCrit, strongFactor)],
+    ['Start', orientation ? `θ ${toDegrees(orientation.theta)} φ ${toDegrees(orientation.phi)} ψ ${toDegrees(orientation.psi)}` : 'Scene frame'],
+    ['r_min', `${formatNumber(ray.rMin / mass)}M`],
+    ['Points', `${ray.points.length}`],
+  ];
+  const live: [string, string][] = current
+    ? [
+        ['r', `${formatNumber(current.r / mass)}M`],
+        ['φ', toDegrees(current.phi)],
+        ['ν/ν_e', formatNumber(current.shift, 4)],
+        ['z', formatNumber(1 / current.shift - 1, 4)],
+      ]
+    : [];
+
+  const button = (active: boolean) =>
+    `flex-1 px-2 py-1 text-[10px] font-mono uppercase tracking-widest rounded-md transition-all flex items-center justify-center gap-1.5
+      ${active ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50' : 'text-white/50 hover:text-white hover:bg-white/5'}`;
+
+  return (
+    <div className="w-64 bg-space-900/80 backdrop-blur border border-white/10 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <Crosshair size={14} /> Ray {rayNumber}
+        </div>
+        <button onClick={onClose} className="text-white/40 hover:text-white" title="Clear the selection">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex items-center gap-1.5 text-[10px] font-mono text-white/40">
+        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ray.color }}></span>
+        {ray.id}
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-[11px] font-mono">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-white/40">{label}</dt>
+            <dd className="text-white/80 text-right">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      <div className="border-t border-white/5 pt-2">
+        <div className="text-[10px] font-mono uppercase tracking-widest text-white/40 mb-1">At the playhead</div>
+        {current ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-[11px] font-mono">
+            {live.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-white/40">{label}</dt>
+                <dd className="text-orange-300 text-right">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        ) : (
+          <div className="text-[11px] text-white/40">Not on screen at this reading</div>
+        )}
+      </div>
+      <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10 gap-1">
+        <button onClick={onToggleSolo} className={button(isSolo)} title="Draw only this ray">
+          <Focus size={12} /> Solo
+        </button>
+        <button onClick={onToggleHidden} className={button(isHidden)} title="Leave this ray out of the scene">
+          {isHidden ? <EyeOff size={12} /> : <Eye size={12} />} Hide
+        </button>
+      </div>
+      {filtered && (
+        <button onClick={onShowAll} className="w-full text-[10px] font-mono uppercase tracking-widest text-white/40 hover:text-white">
+          {filterLabel} · Show all
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RayInspector;
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { Table, ArrowUp, ArrowDown } from 'lucide-react';
+import { getWeakFieldDeflection, getStrongDeflection, getRayFate } from '../services/observables';
+import { RayPath, SpacetimeSettings } from '../types';
+
+interface RayTableProps {
+  rays: RayPath[];
+  mass: number;
+  spacetime: SpacetimeSettings;
+  bCrit: number;
+  strongFactor: number; // Where the fate colouring splits off strongly lensed light
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+type SortKey = 'index' | 'b' | 'fate' | 'rMin' | 'deflection' | 'weak' | 'strong' | 'windings' | 'lambdaNear' | 'tNear';
+
+interface Row {
+  ray: RayPath;
+  index: number;
+  fate: string;
+  weak: number;
+  strong: number;
+}
+
+const formatNumber = (v: number, digits = 3) => (isFinite(v) ? v.toFixed(digits) : '—');
+
+const RayTable: React.FC<RayTableProps> = ({ rays, mass, spacetime, bCrit, strongFactor, selectedId, onSelect }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('index');
+  const [ascending, setAscending] = useState<boolean>(true);
+
+  // Bozza's coefficients are the Schwarzschild ones; other metrics only get 4M/b
+  const hasStrongLimit = spacetime.kind === 'schwarzschild';
+
+  const rows = useMemo<Row[]>(() => rays.map((ray, index) => {
+    const photon = ray.particle === 'photon';
+    return {
+      ray,
+      index,
+      fate: getRayFate(ray, bCrit, strongFactor),
+      weak: photon ? getWeakFieldDeflection(ray.b, mass) : NaN,
+      strong: photon && hasStrongLimit ? getStrongDeflection(ray.b, mass) : NaN,
+    };
+  }), [rays, mass, hasStrongLimit, bCrit, strongFactor]);
+
+  const sorted = useMemo(() => {
+    const value = (row: Row): number | string => {
+      switch (sortKey) {
+        case 'index': return row.index;
+        case 'fate': return row.fate;
+        case 'weak': return row.weak;
+        case 'strong': return row.strong;
+        default: return row.ray[sortKey];
+      }
+    };
+    return [...rows].sort((p, q) => {
+      const a = value(p);
+      const b = value(q);
+      if (typeof a === 'string' || typeof b === 'string') {
+        return (ascending ? 1 : -1) * String(a).localeCompare(String(b));
+      }
+      // Undefined values (NaN) always sink to the bottom
+      if (!isFinite(a) || !isFinite(b)) return Number(!isFinite(a)) - Number(!isFinite(b));
+      return ascending ? a - b : b - a;
+    });
+  }, [rows, sortKey, ascending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const columns: { key: SortKey; label: string; title: string }[] = [
+    { key: 'index', label: '#', title: 'Ray number' },
+    { key: 'b', label: 'b/M', title: 'Impact parameter' },
+    { key: 'fate', label: 'Fate', title: 'Captured, escaped or still bound when integration stopped' },
+    { key: 'rMin', label: 'r_min/M', title: 'Closest approach' },
+    { key: 'deflection', label: 'α', title: 'Measured deflection between the asymptotes, Δφ - π (rad)' },
+    { key: 'weak', label: '4M/b', title: 'Weak-field prediction (rad)' },
+    { key: 'strong', label: 'SDL', title: 'Strong deflection limit, -ln(b/b_c - 1) + ln[216(7 - 4√3)] - π (rad)' },
+    { key: 'windings', label: 'Loops', title: 'Full loops around the hole' },
+    { key: 'lambdaNear', label: 'λ<3M', title: 'Affine parameter spent within r = 3M' },
+    { key: 'tNear', label: 't<3M', title: 'Coordinate time spent within r = 3M, outside the horizon' },
+  ];
+
+  return (
+    <div className="bg-space-800/50 border border-white/5 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <Table size={14} /> Ray Observables
+        </div>
+        <div className="text-[10px] font-mono text-white/40">
+          {rays.length} rays{!hasStrongLimit && ' · SDL is Schwarzschild only'}
+        </div>
+      </div>
+      <div className="max-h-72 overflow-auto rounded border border-white/5">
+        <table className="w-full text-[11px] font-mono text-right">
+          <thead className="sticky top-0 bg-space-900/95 text-white/50">
+            <tr>
+              {columns.map(col => (
+                <th
+                  key={col.key}
+                  title={col.title}
+                  onClick={() => handleSort(col.key)}
+                  className={`px-2 py-1.5 font-normal cursor-pointer select-none whitespace-nowrap hover:text-white ${sortKey === col.key ? 'text-cyan-300' : ''}`}
+                >
+                  <span className="inline-flex items-center gap-0.5">
+                    {col.label}
+                    {sortKey === col.key && (ascending ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(({ ray, index, fate, weak, strong }) => (
+              <tr
+                key={ray.id}
+                onClick={() => onSelect(ray.id)}
+                className={`border-t border-white/5 text-white/80 cursor-pointer ${ray.id === selectedId ? 'bg-cyan-500/10' : 'hover:bg-white/5'}`}
+              >
+                <td className="px-2 py-1 text-white/40">{index + 1}</td>
+                <td className="px-2 py-1">{(ray.b / mass).toFixed(3)}</td>
+                <td className="px-2 py-1">
+                  <span className="inline-flex items-center gap-1.5">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ray.color }}></span>
+                    {fate}
+                  </span>
+                </td>
+                <td className="px-2 py-1">{formatNumber(ray.rMin / mass)}</td>
+                <td className="px-2 py-1 text-white">{formatNumber(ray.deflection, 4)}</td>
+                <td className="px-2 py-1 text-white/50">{formatNumber(weak, 4)}</td>
+                <td className="px-2 py-1 text-white/50">{formatNumber(strong, 4)}</td>
+                <td className="px-2 py-1">{ray.windings}</td>
+                <td className="px-2 py-1">{formatNumber(ray.lambdaNear, 2)}</td>
+                <td className="px-2 py-1">{formatNumber(ray.tNear, 2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RayTable;
@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Download, Link, Save, Trash2, Upload } from 'lucide-react';
+import {
+  Scenario, ScenarioState, createScenario, encodeScenarioHash, exportScenarioJson, readScenarioFile,
+  listSavedScenarios, saveScenario, removeSavedScenario,
+} from '../services/scenario';
+import { downloadFile } from '../services/download';
+
+interface ScenarioLibraryProps {
+  getState: () => ScenarioState; // The current scenario, camera included
+  onLoad: (state: ScenarioState) => void;
+}
+
+const toFileName = (name: string) => name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'scenario';
+
+const ScenarioLibrary: React.FC<ScenarioLibraryProps> = ({ getState, onLoad }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const [library, setLibrary] = useState<Scenario[]>(() => listSavedScenarios());
+  const [status, setStatus] = useState<{ text: string; error: boolean } | null>(null);
+
+  const report = (text: string, error = false) => setStatus({ text, error });
+  const message = (err: unknown) => (err instanceof Error ? err.message : String(err));
+  const currentName = name.trim() || 'Untitled';
+
+  const handleSave = () => {
+    try {
+      setLibrary(saveScenario(createScenario(currentName, getState())));
+      report(`Saved "${currentName}"`);
+    } catch (err) {
+      report(`Could not save: ${message(err)}`, true);
+    }
+  };
+
+  const handleRemove = (entry: string) => {
+    try {
+      setLibrary(removeSavedScenario(entry));
+      setStatus(null);
+    } catch (err) {
+      report(`Could not delete: ${message(err)}`, true);
+    }
+  };
+
+  const handleLoad = (scenario: Scenario) => {
+    onLoad(scenario.state);
+    setName(scenario.name);
+    report(`Loaded "${scenario.name}"`);
+  };
+
+  // The link carries the whole scenario, so it works without the sender's library
+  const handleShare = async () => {
+    const url = new URL(window.location.href);
+    url.hash = encodeScenarioHash(createScenario(currentName, getState()));
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url.href);
+      report('Link copied to the clipboard');
+    } catch {
+      report('Link is in the address bar');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      handleLoad(await readScenarioFile(file));
+    } catch (err) {
+      report(`Could not read the file: ${message(err)}`, true);
+    }
+  };
+
+  const buttonClass = 'px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors flex items-center gap-1.5';
+
+  return (
+    <div className="bg-space-800/50 border border-white/5 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <Bookmark size={14} /> Scenarios
+        </div>
+        <div className="text-[10px] font-mono text-white/40">{library.length} saved</div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Scenario name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          className="flex-1 min-w-[8rem] px-2 py-1.5 bg-space-900/50 border border-white/10 rounded-lg text-xs font-mono text-white/90 placeholder:text-white/30 focus:outline-none focus:border-cyan-500/50"
+        />
+        <button onClick={handleSave} className={buttonClass} title="Save to this browser's library">
+          <Save size={12} /> Save
+        </button>
+        <button onClick={handleShare} className={buttonClass} title="Put the scenario in the URL and copy the link">
+          <Link size={12} /> Share link
+        </button>
+        <button
+          onClick={() => downloadFile(exportScenarioJson(createScenario(currentName, getState())), 'application/json', `${toFileName(currentName)}.scenario.json`)}
+          className={buttonClass}
+          title="Download the scenario as JSON"
+        >
+          <Download size={12} /> JSON
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Load a scenario JSON file">
+          <Upload size={12} /> Import
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+      {library.length > 0 && (
+        <div className="divide-y divide-white/5 border border-white/5 rounded-lg">
+          {[...library].reverse().map(scenario => (
+            <div key={scenario.name} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+              <button onClick={() => handleLoad(scenario)} className="flex-1 text-left font-mono text-white/80 hover:text-white truncate" title="Load this scenario">
+                {scenario.name}
+              </button>
+              <span className="text-[10px] font-mono text-white/30">
+                {scenario.savedAt && new Date(scenario.savedAt).toLocaleString()}
+              </span>
+              <button onClick={() => handleRemove(scenario.name)} className="text-white/30 hover:text-red-300" title="Delete from the library">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {status && <div className={`text-xs ${status.error ? 'text-red-300/80' : 'text-white/50'}`}>{status.text}</div>}
+      <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+        A scenario holds every setting, the seed, the playhead, the picked and hidden rays and the 3D camera, so the same rays come back exactly. Uploaded panoramas and imported trajectories are not part of it. Saved scenarios stay in this browser; links and JSON files work anywhere.
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioLibrary;
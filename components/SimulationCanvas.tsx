@@ -1,8 +1,30 @@
 import React, { useEffect, useRef, useMemo } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import { RayPath } from '../types';
-import { WORLD_SCALE } from '../services/physics';
+import { RayPath, SpacetimeSettings, PlaybackClock, EmitterSettings, DiskSettings, RayColorSettings, CameraPose } from '../types';
+import { WORLD_SCALE, getWorldTransform, getEscapeConeAngle } from '../services/physics';
+import { getKerrHorizons, getKerrErgosphereRadius, getKerrPhotonOrbitRadii } from '../services/kerr';
+import { getHorizons, getPhotonSphere, getCriticalImpactParameter } from '../services/metrics';
+import { getClockDuration, getLaunchReading, getCoordinateTime, getPlaybackSample } from '../services/playback';
+import { createDiskProfile } from '../services/accretionDisk';
+import { getHotSpotOrbit } from '../services/hotSpot';
+import { createEmbeddingProfile, liftRay, EmbeddingProfile } from '../services/embedding';
+import { createRayColoring, getRayColorLegend, RayColoring } from '../services/rayColors';
+import { TrajectoryOverlay } from '../services/trajectoryIO';
+import { DISPLAY_FPS } from '../services/recording';
+import { RayProgress } from '../services/rayPool';
+
+// The scene from outside: the orbit camera (saved scenarios) and frame-by-frame
+// rendering (recordings)
+export interface SceneHandle {
+  getPose: () => CameraPose;
+  setPose: (pose: CameraPose) => void;
+  // Fixes the drawing buffer at width x height and stops the live loop; returns the canvas
+  beginRecording: (width: number, height: number) => HTMLCanvasElement;
+  // Advances autorotation and the disk shader by dt seconds of the recording, then draws
+  renderFrame: (dt: number) => void;
+  endRecording: () => void;
+}
 
 interface SimulationCanvasProps {
   rays: RayPath[];
@@ -14,6 +36,23 @@ interface SimulationCanvasProps {
   height?: string;
   isContinuous: boolean;
   showEventHorizon: boolean;
+  showISCO: boolean;
+  showInterior: boolean;
+  spacetime: SpacetimeSettings;
+  disk: DiskSettings;
+  emitter: EmitterSettings | null; // Null when the rays are not light (massive particles)
+  clock: PlaybackClock;
+  observerFactor: number; // dτ_obs/dt for the observer clock
+  clockRate: number; // Clock units per animation frame at 1x
+  rayProgress: RayProgress; // Rays traced so far by the worker pool
+  embedding: boolean; // Show the equatorial slice as an embedding diagram instead of the 3D scene
+  selectedRayId: string | null; // Highlighted ray; the others are faded while one is picked
+  hiddenRayIds: string[];
+  soloRayId: string | null; // When set, the only ray drawn
+  onSelectRay: (id: string | null) => void; // Click on a trail, or on empty space to clear
+  rayColors: RayColorSettings;
+  overlay: TrajectoryOverlay | null; // Imported trajectories drawn over ours
+  sceneHandle?: React.MutableRefObject<SceneHandle | null>; // Filled in once the scene is set up
 }
 
 // Vertex Shader for Accretion Disk
@@ -34,6 +73,11 @@ const DISK_FRAGMENT_SHADER = `
   uniform float time;
   uniform vec3 colorInner;
   uniform vec3 colorOuter;
+  // Physical disk: sharp inner edge at the ISCO (as a fraction of the outer radius),
+  // brightness from its flux profile and Keplerian shear
+  uniform float physical;
+  uniform float innerEdge;
+  uniform float profile[DISK_PROFILE_SIZE];
 
   // Simple pseudo-noise function
   float rand(vec2 n) { 
@@ -58,6 +102,10 @@ const DISK_FRAGMENT_SHADER = `
 
     // Animation rotation
     float rot = time * 0.2;
+    if (physical > 0.5) {
+      rot *= pow(innerEdge / max(r, innerEdge), 1.5) * 4.0; // Ω ∝ r^-3/2
+      angle += rot;
+    }
     float n1 = noise(vec2(r * 10.0 - rot * 2.0, angle * 5.0 + rot));
     float n2 = noise(vec2(r * 20.0 + rot, angle * 10.0 - rot));
     
@@ -68,12 +116,73 @@ const DISK_FRAGMENT_SHADER = `
     
     // Soft edges
     float alpha = smoothstep(0.2, 0.3, r) * (1.0 - smoothstep(0.8, 1.0, r));
+
+    if (physical > 0.5) {
+      float x = clamp((r - innerEdge) / (1.0 - innerEdge), 0.0, 1.0) * float(DISK_PROFILE_SIZE - 1);
+      int k = int(min(x, float(DISK_PROFILE_SIZE - 2)));
+      float flux = mix(profile[k], profile[k + 1], x - float(k));
+      color = mix(colorOuter, colorInner, sqrt(flux));
+      intensity = flux * (0.75 + 0.5 * intensity);
+      alpha = step(innerEdge, r) * (1.0 - smoothstep(0.95, 1.0, r)) * 1.5;
+    }
     
     // Boost intensity for bloom feel
     gl_FragColor = vec4(color * (intensity + 0.5), alpha * 0.8 * intensity);
   }
 `;
 
+// Samples of the flux profile handed to the disk shader
+const DISK_PROFILE_SIZE = 64;
+
+// How far (in pixels) a click may land from a trail and still pick it
+const PICK_RADIUS = 6;
+// Pointer travel (in pixels) beyond which a press is an orbit drag, not a click
+const CLICK_SLOP = 4;
+
+// Vertex colours of a trail: the chosen colormap outside the horizon, violet inside it
+function getTrailColors(ray: RayPath, coloring: RayColoring): number[] {
+  const colors: number[] = [];
+  const colorAt = coloring.colorRay(ray);
+  const c = new THREE.Color();
+  ray.points.forEach((p, idx) => {
+    const rgb = colorAt(p);
+    if (ray.horizonIndex >= 0 && idx >= ray.horizonIndex) {
+      c.setHSL(0.83, 1.0, 0.6); // Violet (Inside the horizon)
+    } else if (rgb) {
+      c.setRGB(rgb[0], rgb[1], rgb[2]);
+    } else {
+      c.setHSL(0.0, 0.0, 0.35); // Grey (Undefined here, e.g. no static observers in the ergosphere)
+    }
+    colors.push(c.r, c.g, c.b);
+  });
+  return colors;
+}
+
+// The Three.js objects drawing one ray, and what they currently show
+interface RayObjects {
+  ray: RayPath;
+  positions: number[]; // Trail in the 3D scene, scene units
+  colors: number[];
+  brightLine: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  brightGeom: THREE.BufferGeometry;
+  dimLine: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  dimGeom: THREE.BufferGeometry;
+  photon: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>;
+  revealed: boolean;
+  shown: number[] | null; // Positions on the lines: 3D, or lifted onto the embedding
+  lifted: number[] | null;
+  liftedFor: EmbeddingProfile | null;
+  hidden: boolean; // Hidden by hand, or not the soloed ray
+  headScale: number;
+  coloredFor: RayColoring;
+}
+
+// Phase of the accretion disk's plasma shader per second
+const DISK_TIME_RATE = 0.6;
+
+// Rim of the embedding diagram, in units of M; the surface is lowered so the rim sits at z = 0
+const EMBEDDING_RADIUS = 30;
+
 const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ 
   rays, 
   mass,
@@ -81,7 +190,24 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   setMaxTime,
   photonSize,
   isContinuous,
-  showEventHorizon
+  showEventHorizon,
+  showISCO,
+  showInterior,
+  spacetime,
+  disk,
+  emitter,
+  clock,
+  observerFactor,
+  clockRate,
+  rayProgress,
+  embedding,
+  selectedRayId,
+  hiddenRayIds,
+  soloRayId,
+  onSelectRay,
+  rayColors,
+  overlay,
+  sceneHandle
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -91,14 +217,36 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
-  const rayObjectsRef = useRef<any[]>([]); // Store mesh references
+  const rayObjectsRef = useRef<RayObjects[]>([]);
+  const sharedRayResourcesRef = useRef<{
+    photonGeom: THREE.SphereGeometry;
+    brightMat: THREE.LineBasicMaterial;
+    dimMat: THREE.LineBasicMaterial;
+    // Trails of the picked ray, and of the others while one is picked
+    selectedBrightMat: THREE.LineBasicMaterial;
+    selectedDimMat: THREE.LineBasicMaterial;
+    fadedBrightMat: THREE.LineBasicMaterial;
+    fadedDimMat: THREE.LineBasicMaterial;
+  } | null>(null);
+  // The pointer handlers are bound once, so they read the latest callback from here
+  const onSelectRayRef = useRef(onSelectRay);
+  onSelectRayRef.current = onSelectRay;
+  // While set, frames are advanced and drawn by the recorder alone
+  const recordingRef = useRef(false);
   
   // Geometry refs for updates
   const horizonMeshRef = useRef<THREE.Mesh | null>(null);
   const photonSphereMeshRef = useRef<THREE.Mesh | null>(null);
+  const iscoMeshRef = useRef<THREE.Mesh | null>(null);
+  const structureGroupRef = useRef<THREE.Group | null>(null);
+  const escapeConeRef = useRef<THREE.Group | null>(null);
+  const hotSpotRef = useRef<THREE.Group | null>(null);
+  const hotSpotMarkerRef = useRef<THREE.Mesh | null>(null);
   const accretionDiskRef = useRef<THREE.Mesh | null>(null);
   const accretionGlowRef = useRef<THREE.Sprite | null>(null);
   const accretionMaterialRef = useRef<THREE.ShaderMaterial | null>(null);
+  const embeddingRef = useRef<THREE.Group | null>(null);
+  const overlayRef = useRef<THREE.Group | null>(null);
 
   // Initialize Three.js
   useEffect(() => {
@@ -197,7 +345,11 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         time: { value: 0 },
         colorInner: { value: new THREE.Color(0xffaa00) }, // Orange/Gold
         colorOuter: { value: new THREE.Color(0xaa0000) }, // Reddish
+        physical: { value: 0 },
+        innerEdge: { value: 0.25 },
+        profile: { value: new Array(DISK_PROFILE_SIZE).fill(0) },
       },
+      defines: { DISK_PROFILE_SIZE },
       side: THREE.DoubleSide,
       transparent: true,
       depthWrite: false, // Glow effect
@@ -228,14 +380,54 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     scene.add(photonSphere);
     photonSphereMeshRef.current = photonSphere;
 
+    // 5. ISCO (Massive particle reference)
+    const iscoGeom = new THREE.SphereGeometry(1, 48, 24);
+    const iscoMat = new THREE.MeshBasicMaterial({ 
+      color: 0xc084fc, 
+      transparent: true, 
+      opacity: 0.04, 
+      wireframe: true 
+    });
+    const isco = new THREE.Mesh(iscoGeom, iscoMat);
+    isco.visible = false;
+    scene.add(isco);
+    iscoMeshRef.current = isco;
+
+    // 6. Metric-specific structure (inner and cosmological horizons, ergosphere,
+    //    photon orbit rings), rebuilt when the spacetime parameters change
+    const structureGroup = new THREE.Group();
+    structureGroup.visible = false;
+    scene.add(structureGroup);
+    structureGroupRef.current = structureGroup;
+
+    // 7. Escape cone around a local emitter, rebuilt with the rays
+    const escapeCone = new THREE.Group();
+    scene.add(escapeCone);
+    escapeConeRef.current = escapeCone;
+
+    // 8. Orbit, marker and observer direction of a hot spot, rebuilt with its settings
+    const hotSpotGroup = new THREE.Group();
+    scene.add(hotSpotGroup);
+    hotSpotRef.current = hotSpotGroup;
+
+    // 9. Embedding diagram of the equatorial slice, rebuilt with the metric
+    const embeddingGroup = new THREE.Group();
+    embeddingGroup.visible = false;
+    scene.add(embeddingGroup);
+    embeddingRef.current = embeddingGroup;
+
+    // 10. Imported trajectories, rebuilt when a file is loaded
+    const overlayGroup = new THREE.Group();
+    scene.add(overlayGroup);
+    overlayRef.current = overlayGroup;
+
     // Save refs
     sceneRef.current = scene;
     cameraRef.current = camera;
     rendererRef.current = renderer;
     controlsRef.current = controls;
-
     const handleResize = () => {
-      if (!containerRef.current || !rendererRef.current || !cameraRef.current) return;
+      if (!containerRef.current || !rendererRef.current || !cameraRef.current || recordingRef.current) return;
       const w = containerRef.current.clientWidth;
       const h = containerRef.current.clientHeight;
       cameraRef.current.aspect = w / h;
@@ -244,14 +436,46 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     };
     window.addEventListener('resize', handleResize);
 
-    const animate = () => {
-      requestAnimationFrame(animate);
-      if (controlsRef.current) controlsRef.current.update();
-      
-      // Update Uniforms
+    // Picking: a click (not an orbit drag) selects the nearest visible trail under the
+    // pointer, or clears the selection when it lands on empty space
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    let pressedAt: { x: number; y: number } | null = null;
+    const handlePointerDown = (e: PointerEvent) => {
+      pressedAt = { x: e.clientX, y: e.clientY };
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      const start = pressedAt;
+      pressedAt = null;
+      if (!start || Math.hypot(e.clientX - start.x, e.clientY - start.y) > CLICK_SLOP) return;
+      const rect = renderer.domElement.getBoundingClientRect();
+      pointer.set(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(pointer, camera);
+      // PICK_RADIUS pixels, as a distance at the orbit target
+      const pixel = (2 * camera.position.distanceTo(controls.target) * Math.tan((camera.fov * Math.PI) / 360)) / rect.height;
+      raycaster.params.Line = { threshold: PICK_RADIUS * pixel };
+      // The dim trail spans the whole visible path, so it is what gets hit
+      const candidates = rayObjectsRef.current.filter(obj => obj.dimLine.visible).map(obj => obj.dimLine);
+      const [hit] = raycaster.intersectObjects(candidates, false);
+      const picked = hit ? rayObjectsRef.current.find(obj => obj.dimLine === hit.object) : undefined;
+      onSelectRayRef.current(picked ? picked.ray.id : null);
+    };
+    renderer.domElement.addEventListener('pointerdown', handlePointerDown);
+    renderer.domElement.addEventListener('pointerup', handlePointerUp);
+
+    // Autorotation and the disk's plasma move with elapsed seconds: display frames
+    // when live, the recording clock when recording
+    const advance = (dt: number) => {
+      controls.update(dt);
       if (accretionMaterialRef.current) {
-        accretionMaterialRef.current.uniforms.time.value += 0.01;
+        accretionMaterialRef.current.uniforms.time.value += DISK_TIME_RATE * dt;
       }
+    };
+
+    const animate = () => {
+      requestAnimationFrame(animate);
+      if (recordingRef.current) return;
+      advance(1 / DISPLAY_FPS);
 
       if (rendererRef.current && sceneRef.current && cameraRef.current) {
         rendererRef.current.render(sceneRef.current, cameraRef.current);
@@ -259,11 +483,53 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     };
     animate();
 
+    if (sceneHandle) {
+      sceneHandle.current = {
+        getPose: () => ({
+          position: camera.position.toArray() as [number, number, number],
+          target: controls.target.toArray() as [number, number, number],
+          autoRotate: controls.autoRotate,
+        }),
+        setPose: ({ position, target, autoRotate }) => {
+          camera.position.set(...position);
+          controls.target.set(...target);
+          controls.autoRotate = autoRotate;
+          controls.update();
+        },
+        beginRecording: (w, h) => {
+          recordingRef.current = true;
+          // Dragging mid-recording would break the fixed camera path
+          controls.enabled = false;
+          renderer.setPixelRatio(1);
+          renderer.setSize(w, h, false);
+          camera.aspect = w / h;
+          camera.updateProjectionMatrix();
+          if (accretionMaterialRef.current) accretionMaterialRef.current.uniforms.time.value = 0;
+          return renderer.domElement;
+        },
+        renderFrame: dt => {
+          advance(dt);
+          renderer.render(scene, camera);
+        },
+        endRecording: () => {
+          recordingRef.current = false;
+          controls.enabled = true;
+          renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+          handleResize();
+        },
+      };
+    }
+
     return () => {
+      if (sceneHandle) sceneHandle.current = null;
       window.removeEventListener('resize', handleResize);
+      renderer.domElement.removeEventListener('pointerdown', handlePointerDown);
+      renderer.domElement.removeEventListener('pointerup', handlePointerUp);
       renderer.dispose();
       horizonGeom.dispose();
       photonGeom.dispose();
+      iscoGeom.dispose();
+      iscoMat.dispose();
       diskGeom.dispose();
       diskMat.dispose();
       glowMat.dispose();
@@ -278,113 +544,421 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       // Ensure material properties are reset if they were modified by previous holdout logic
       const mat = horizonMeshRef.current.material as THREE.MeshBasicMaterial;
       mat.colorWrite = true;
-      mat.depthWrite = true;
-      mat.opacity = 1.0;
+      // With the interior shown, the horizon turns translucent so the rays behind it stay visible
+      mat.transparent = showInterior;
+      mat.depthWrite = !showInterior;
+      mat.opacity = showInterior ? 0.6 : 1.0;
+      mat.needsUpdate = true;
       
       // Completely toggle visibility
-      horizonMeshRef.current.visible = showEventHorizon;
+      horizonMeshRef.current.visible = showEventHorizon && !embedding;
     }
 
     // 2. Hide other structural elements when "Hidden" mode is active
     if (photonSphereMeshRef.current) {
-        photonSphereMeshRef.current.visible = showEventHorizon;
+        // Kerr has no photon sphere; the equatorial photon orbits are drawn as rings instead
+        photonSphereMeshRef.current.visible = showEventHorizon && !embedding && spacetime.kind !== 'kerr';
     }
     if (accretionDiskRef.current) {
-        accretionDiskRef.current.visible = showEventHorizon;
+        accretionDiskRef.current.visible = showEventHorizon && !embedding;
     }
     if (accretionGlowRef.current) {
-        accretionGlowRef.current.visible = showEventHorizon;
+        accretionGlowRef.current.visible = showEventHorizon && !embedding;
+    }
+    if (iscoMeshRef.current) {
+        // 6M only holds for plain Schwarzschild
+        iscoMeshRef.current.visible = showEventHorizon && !embedding && showISCO && spacetime.kind === 'schwarzschild';
     }
+    if (structureGroupRef.current) {
+        structureGroupRef.current.visible = showEventHorizon && !embedding && spacetime.kind !== 'schwarzschild';
+    }
+
+    // 3. The embedding diagram replaces the 3D structure
+    if (escapeConeRef.current) escapeConeRef.current.visible = !embedding;
+    if (hotSpotRef.current) hotSpotRef.current.visible = !embedding;
+    if (overlayRef.current) overlayRef.current.visible = !embedding;
+    if (embeddingRef.current) embeddingRef.current.visible = embedding;
 
-  }, [showEventHorizon]);
+  }, [showEventHorizon, showISCO, showInterior, spacetime.kind, embedding]);
 
-  // Update Geometry Scales based on Mass
+  // Update Geometry Scales based on Mass (and the metric parameters)
   useEffect(() => {
     if (!horizonMeshRef.current || !photonSphereMeshRef.current || !accretionDiskRef.current || !accretionGlowRef.current) return;
 
-    const rHorizon = 2.0 * mass * WORLD_SCALE;
-    horizonMeshRef.current.scale.set(rHorizon, rHorizon, rHorizon);
+    const isKerr = spacetime.kind === 'kerr';
+    const a = isKerr ? spacetime.spin * mass : 0;
 
-    const rPhoton = 3.0 * mass * WORLD_SCALE;
+    // Horizons are oblate spheroids in the Kerr Cartesian frame: equatorial radius
+    // sqrt(r^2 + a^2), polar radius r (spin axis is z). With a = 0 they are spheres.
+    const { event: outer, inner, cosmological } = getHorizons(mass, spacetime);
+    const rHorizon = outer * WORLD_SCALE;
+    const rHorizonEq = Math.sqrt(outer * outer + a * a) * WORLD_SCALE;
+    horizonMeshRef.current.scale.set(rHorizonEq, rHorizonEq, rHorizon);
+
+    const rPhoton = getPhotonSphere(mass, spacetime) * WORLD_SCALE;
     photonSphereMeshRef.current.scale.set(rPhoton, rPhoton, rPhoton);
 
-    // Accretion Disk scales: Inner ~ 2.5M, Outer ~ 8M
-    const scale = 12.0 * mass * WORLD_SCALE; 
-    accretionDiskRef.current.scale.set(scale, scale, 1);
+    if (iscoMeshRef.current) {
+      const rISCO = 6.0 * mass * WORLD_SCALE;
+      iscoMeshRef.current.scale.set(rISCO, rISCO, rISCO);
+    }
+
+    // With spin the accretion disk has to sit in the equatorial (xy) plane
+    accretionDiskRef.current.rotation.x = isKerr ? 0 : -Math.PI / 2;
     
     // Scale Glow
     const rGlow = rHorizon * 5.5;
     accretionGlowRef.current.scale.set(rGlow, rGlow, 1);
 
-  }, [mass]);
+    // Rebuild the metric-specific structures
+    const group = structureGroupRef.current;
+    if (!group) return;
+    group.children.slice().forEach(child => {
+      group.remove(child);
+      const obj = child as THREE.Mesh;
+      obj.geometry?.dispose();
+      (obj.material as THREE.Material)?.dispose();
+    });
+
+    // Inner (Cauchy) horizon: Kerr and Reissner-Nordström
+    if (inner !== null) {
+      const innerGeom = new THREE.SphereGeometry(1, 32, 32);
+      const innerMat = new THREE.MeshBasicMaterial({ color: 0xff8844, transparent: true, opacity: 0.15, wireframe: true });
+      const innerMesh = new THREE.Mesh(innerGeom, innerMat);
+      const rInnerEq = Math.sqrt(inner * inner + a * a) * WORLD_SCALE;
+      innerMesh.scale.set(rInnerEq, rInnerEq, Math.max(inner * WORLD_SCALE, 1e-4));
+      group.add(innerMesh);
+    }
+
+    // Cosmological horizon: Schwarzschild-de Sitter
+    if (cosmological !== null && isFinite(cosmological)) {
+      const cosmoGeom = new THREE.SphereGeometry(1, 48, 24);
+      const cosmoMat = new THREE.MeshBasicMaterial({ color: 0x34d399, transparent: true, opacity: 0.06, wireframe: true, depthWrite: false });
+      const cosmoMesh = new THREE.Mesh(cosmoGeom, cosmoMat);
+      const rCosmo = cosmological * WORLD_SCALE;
+      cosmoMesh.scale.set(rCosmo, rCosmo, rCosmo);
+      group.add(cosmoMesh);
+    }
+
+    if (!isKerr) return;
+
+    // Ergosphere: displace a unit sphere to the static limit r_E(θ)
+    const ergoGeom = new THREE.SphereGeometry(1, 64, 32);
+    const pos = ergoGeom.attributes.position;
+    for (let i = 0; i < pos.count; i++) {
+      const vx = pos.getX(i), vy = pos.getY(i), vz = pos.getZ(i);
+      const rE = getKerrErgosphereRadius(mass, a, vz);
+      const rho = Math.sqrt(rE * rE + a * a);
+      pos.setXYZ(i, vx * rho * WORLD_SCALE, vy * rho * WORLD_SCALE, vz * rE * WORLD_SCALE);
+    }
+    pos.needsUpdate = true;
+    const ergoMat = new THREE.MeshBasicMaterial({ color: 0xd946ef, transparent: true, opacity: 0.08, wireframe: true, depthWrite: false });
+    group.add(new THREE.Mesh(ergoGeom, ergoMat));
+
+    // Equatorial photon orbits
+    const { prograde, retrograde } = getKerrPhotonOrbitRadii(mass, a);
+    [
+      { r: prograde, color: 0x44ffff },
+      { r: retrograde, color: 0xffaa44 },
+    ].forEach(({ r, color }) => {
+      const rho = Math.sqrt(r * r + a * a) * WORLD_SCALE;
+      const ringPts: number[] = [];
+      for (let k = 0; k <= 128; k++) {
+        const ang = (k / 128) * Math.PI * 2;
+        ringPts.push(rho * Math.cos(ang), rho * Math.sin(ang), 0);
+      }
+      const ringGeom = new THREE.BufferGeometry();
+      ringGeom.setAttribute('position', new THREE.Float32BufferAttribute(ringPts, 3));
+      const ringMat = new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.6 });
+      group.add(new THREE.Line(ringGeom, ringMat));
+    });
+
+  }, [mass, spacetime]);
 
-  // Update Rays with Redshift Coloring
+  // The physical disk runs from the ISCO to its outer radius; without stable circular
+  // orbits there is nothing to draw
   useEffect(() => {
-    if (!sceneRef.current) return;
+    const diskMesh = accretionDiskRef.current;
+    const material = accretionMaterialRef.current;
+    if (!diskMesh || !material) return;
+    const physical = disk.model === 'physical';
+    const profile = physical ? createDiskProfile(mass, spacetime, disk) : null;
+    // Decorative scales: Inner ~ 2.5M, Outer ~ 8M
+    const scale = (physical ? 2 * disk.outerRadius * mass : 12.0 * mass) * WORLD_SCALE;
+    diskMesh.scale.set(scale, scale, 1);
+    material.uniforms.physical.value = physical ? 1 : 0;
+    material.uniforms.innerEdge.value = profile ? profile.rIn / profile.rOut : 1;
+    if (profile) {
+      material.uniforms.profile.value = Array.from({ length: DISK_PROFILE_SIZE }, (_, k) =>
+        profile.flux(profile.rIn + ((profile.rOut - profile.rIn) * k) / (DISK_PROFILE_SIZE - 1)));
+    }
+  }, [mass, spacetime, disk]);
 
-    // Cleanup previous rays
-    if (rayObjectsRef.current.length > 0) {
-      // 1. Dispose Shared Resources (stored on the first object)
-      const first = rayObjectsRef.current[0];
-      if (first.photon?.geometry) first.photon.geometry.dispose();
-      if (first.brightLine?.material) (first.brightLine.material as THREE.Material).dispose();
-      if (first.dimLine?.material) (first.dimLine.material as THREE.Material).dispose();
-
-      // 2. Dispose Unique Resources per Object
-      rayObjectsRef.current.forEach(obj => {
-        sceneRef.current?.remove(obj.brightLine);
-        sceneRef.current?.remove(obj.dimLine);
-        sceneRef.current?.remove(obj.photon);
-        
-        obj.brightLine?.geometry?.dispose();
-        obj.dimLine?.geometry?.dispose();
-        obj.photon?.material?.dispose();
-      });
+  // Escape cone of a local emitter: a small sphere of directions around it, green
+  // where light gets out and red where it falls in. Beam sources share one emitter;
+  // with the other sources it is drawn at the first ray's. Kerr rays have no orbital
+  // plane to place it in and are skipped.
+  const emitterRay = rays.find(r => r.orientation !== null);
+  useEffect(() => {
+    const group = escapeConeRef.current;
+    if (!group) return;
+    group.children.slice().forEach(child => {
+      group.remove(child);
+      const obj = child as THREE.Mesh;
+      obj.geometry?.dispose();
+      (obj.material as THREE.Material)?.dispose();
+    });
+
+    if (!emitter || emitter.mode !== 'local' || !emitterRay) return;
+    const start = emitterRay.points[0];
+    const rEmit = start.r;
+    const psi = getEscapeConeAngle(rEmit, mass, spacetime);
+    const size = Math.min(2 * mass, 0.5 * (rEmit - getHorizons(mass, spacetime).event)) * WORLD_SCALE;
+
+    const center = new THREE.Vector3(...getWorldTransform(emitterRay.orientation)(start)).multiplyScalar(WORLD_SCALE);
+    const radial = center.clone().normalize();
+    group.position.copy(center);
+
+    const sphereGeom = new THREE.SphereGeometry(1, 48, 24);
+    const pos = sphereGeom.attributes.position;
+    const colors: number[] = [];
+    const escapes = new THREE.Color(0x34d399);
+    const captured = new THREE.Color(0xef4444);
+    const dir = new THREE.Vector3();
+    for (let i = 0; i < pos.count; i++) {
+      dir.set(pos.getX(i), pos.getY(i), pos.getZ(i));
+      const c = dir.angleTo(radial) < psi ? escapes : captured;
+      colors.push(c.r, c.g, c.b);
     }
-    rayObjectsRef.current = [];
+    sphereGeom.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    const sphereMat = new THREE.MeshBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.35, depthWrite: false });
+    const sphere = new THREE.Mesh(sphereGeom, sphereMat);
+    sphere.scale.setScalar(size);
+    group.add(sphere);
 
-    // Max Time Calc
-    let maxT = 0;
-    rays.forEach(r => { if (r.points.length - 1 > maxT) maxT = r.points.length - 1; });
-    setMaxTime(maxT);
+    // Boundary of the cone: directions at ψ from the outward radial
+    const u = new THREE.Vector3().crossVectors(radial, Math.abs(radial.y) < 0.9 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0)).normalize();
+    const v = new THREE.Vector3().crossVectors(radial, u);
+    const ringPts: number[] = [];
+    for (let k = 0; k <= 96; k++) {
+      const ang = (k / 96) * Math.PI * 2;
+      const p = radial.clone().multiplyScalar(Math.cos(psi))
+        .addScaledVector(u, Math.sin(psi) * Math.cos(ang))
+        .addScaledVector(v, Math.sin(psi) * Math.sin(ang))
+        .multiplyScalar(size * 1.01);
+      ringPts.push(p.x, p.y, p.z);
+    }
+    const ringGeom = new THREE.BufferGeometry();
+    ringGeom.setAttribute('position', new THREE.Float32BufferAttribute(ringPts, 3));
+    group.add(new THREE.Line(ringGeom, new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.7 })));
+  }, [emitterRay, mass, spacetime, emitter]);
 
-    // Shared Resources for High Performance (1000 rays)
-    const sharedPhotonGeom = new THREE.SphereGeometry(1, 12, 12); 
-    const sharedBrightMat = new THREE.LineBasicMaterial({ 
-      vertexColors: true, 
-      transparent: true, 
-      opacity: 0.8, 
-      linewidth: 2 
+  // Hot spot: its circular orbit in the equatorial plane, a marker riding it and a
+  // line towards the distant observer
+  const hotSpotOrbit = useMemo(
+    () => (emitter?.mode === 'hot-spot' ? getHotSpotOrbit(mass, spacetime, emitter) : null),
+    [emitter, mass, spacetime]
+  );
+  useEffect(() => {
+    const group = hotSpotRef.current;
+    if (!group) return;
+    group.children.slice().forEach(child => {
+      group.remove(child);
+      const obj = child as THREE.Mesh;
+      obj.geometry?.dispose();
+      (obj.material as THREE.Material)?.dispose();
     });
-    const sharedDimMat = new THREE.LineBasicMaterial({ 
-      vertexColors: true,
-      transparent: true, 
-      opacity: 0.1 
+    hotSpotMarkerRef.current = null;
+    if (!hotSpotOrbit) return;
+
+    const r = hotSpotOrbit.rSpot * WORLD_SCALE;
+    const orbitPts: number[] = [];
+    for (let k = 0; k <= 128; k++) {
+      const ang = (k / 128) * Math.PI * 2;
+      orbitPts.push(r * Math.cos(ang), r * Math.sin(ang), 0);
+    }
+    const orbitGeom = new THREE.BufferGeometry();
+    orbitGeom.setAttribute('position', new THREE.Float32BufferAttribute(orbitPts, 3));
+    group.add(new THREE.Line(orbitGeom, new THREE.LineBasicMaterial({ color: 0xfb923c, transparent: true, opacity: 0.5 })));
+
+    const [ox, oy, oz] = hotSpotOrbit.observer;
+    const reach = 2.5 * r;
+    const sightGeom = new THREE.BufferGeometry();
+    sightGeom.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0, ox * reach, oy * reach, oz * reach], 3));
+    const sight = new THREE.Line(sightGeom, new THREE.LineDashedMaterial({ color: 0xffffff, transparent: true, opacity: 0.5, dashSize: 0.05, gapSize: 0.05 }));
+    sight.computeLineDistances();
+    group.add(sight);
+
+    const marker = new THREE.Mesh(
+      new THREE.SphereGeometry(Math.max(0.6 * mass * WORLD_SCALE, 0.02), 24, 12),
+      new THREE.MeshBasicMaterial({ color: 0xfdba74 })
+    );
+    group.add(marker);
+    hotSpotMarkerRef.current = marker;
+  }, [hotSpotOrbit, mass]);
+
+  // The marker rides the orbit on coordinate time
+  useEffect(() => {
+    const marker = hotSpotMarkerRef.current;
+    if (!marker || !hotSpotOrbit) return;
+    const phase = hotSpotOrbit.omega * getCoordinateTime(time, clock, observerFactor);
+    const r = hotSpotOrbit.rSpot * WORLD_SCALE;
+    marker.position.set(r * Math.cos(phase), r * Math.sin(phase), 0);
+  }, [time, clock, observerFactor, hotSpotOrbit]);
+
+  // Embedding diagram: the surface, a radial/azimuthal grid on it, and the horizon
+  // (its throat) and photon sphere as circles. Rays are lifted onto it separately.
+  const embeddingProfile = useMemo(() => createEmbeddingProfile(mass, spacetime), [mass, spacetime]);
+
+  // Trail colours; b_crit anchors the fate and impact parameter modes
+  const bCrit = getCriticalImpactParameter(mass, spacetime);
+  const rayColoring = useMemo(() => createRayColoring(rayColors, bCrit), [rayColors, bCrit]);
+  const embeddingRim = Math.min(EMBEDDING_RADIUS * mass, embeddingProfile.rMax);
+  const embeddingBase = embeddingProfile.height(embeddingRim);
+  useEffect(() => {
+    const group = embeddingRef.current;
+    if (!group) return;
+    group.children.slice().forEach(child => {
+      group.remove(child);
+      const obj = child as THREE.Mesh;
+      obj.geometry?.dispose();
+      (obj.material as THREE.Material)?.dispose();
+    });
+
+    const { rThroat, height } = embeddingProfile;
+    // Radii spaced in sqrt(r - r_h), which follows the surface up its steep throat
+    const profileRadii = Array.from({ length: 97 }, (_, k) => rThroat + (embeddingRim - rThroat) * (k / 96) * (k / 96));
+    const lift = (r: number) => (height(r) - embeddingBase) * WORLD_SCALE;
+    const circle = (r: number, color: number, opacity: number) => {
+      const pts: number[] = [];
+      for (let k = 0; k <= 128; k++) {
+        const ang = (k / 128) * Math.PI * 2;
+        pts.push(r * WORLD_SCALE * Math.cos(ang), r * WORLD_SCALE * Math.sin(ang), lift(r));
+      }
+      const geom = new THREE.BufferGeometry();
+      geom.setAttribute('position', new THREE.Float32BufferAttribute(pts, 3));
+      group.add(new THREE.Line(geom, new THREE.LineBasicMaterial({ color, transparent: true, opacity })));
+    };
+
+    // Surface of revolution about +Z (the lathe turns about Y)
+    const surface = new THREE.Mesh(
+      new THREE.LatheGeometry(profileRadii.map(r => new THREE.Vector2(r * WORLD_SCALE, lift(r))), 96),
+      new THREE.MeshBasicMaterial({ color: 0x1e3a8a, transparent: true, opacity: 0.18, side: THREE.DoubleSide, depthWrite: false })
+    );
+    surface.rotation.x = Math.PI / 2;
+    group.add(surface);
+
+    const spacing = 2.5 * mass;
+    for (let r = Math.ceil(rThroat / spacing) * spacing; r <= embeddingRim + 1e-9; r += spacing) circle(r, 0x94a3b8, 0.25);
+    for (let k = 0; k < 24; k++) {
+      const ang = (k / 24) * Math.PI * 2;
+      const pts = profileRadii.flatMap(r => [r * WORLD_SCALE * Math.cos(ang), r * WORLD_SCALE * Math.sin(ang), lift(r)]);
+      const geom = new THREE.BufferGeometry();
+      geom.setAttribute('position', new THREE.Float32BufferAttribute(pts, 3));
+      group.add(new THREE.Line(geom, new THREE.LineBasicMaterial({ color: 0x94a3b8, transparent: true, opacity: 0.25 })));
+    }
+
+    circle(rThroat, 0xffffff, 0.9);
+    const rPhoton = getPhotonSphere(mass, spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime);
+    if (rPhoton < embeddingRim) circle(rPhoton, 0x22d3ee, 0.9);
+  }, [embeddingProfile, embeddingRim, embeddingBase, mass, spacetime]);
+
+  // Imported paths as dashed lines. Undefined points (NaN) split a path into pieces.
+  useEffect(() => {
+    const group = overlayRef.current;
+    if (!group) return;
+    group.children.forEach(child => {
+      if (child instanceof THREE.Line) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    group.clear();
+    if (!overlay) return;
+
+    const material = new THREE.LineDashedMaterial({ color: 0x6ee7b7, dashSize: 0.08, gapSize: 0.05, transparent: true, opacity: 0.9 });
+    overlay.paths.forEach(({ positions }) => {
+      let piece: number[] = [];
+      const flush = () => {
+        if (piece.length >= 6) {
+          const geom = new THREE.BufferGeometry();
+          geom.setAttribute('position', new THREE.Float32BufferAttribute(piece, 3));
+          const line = new THREE.Line(geom, material);
+          line.computeLineDistances();
+          group.add(line);
+        }
+        piece = [];
+      };
+      for (let i = 0; i < positions.length; i += 3) {
+        const [x, y, z] = [positions[i], positions[i + 1], positions[i + 2]];
+        if (isFinite(x) && isFinite(y) && isFinite(z)) piece.push(x * WORLD_SCALE, y * WORLD_SCALE, z * WORLD_SCALE);
+        else flush();
+      }
+      flush();
     });
+  }, [overlay]);
+
+  // Update Rays with Redshift Coloring. Rays stream in from the worker pool, so
+  // objects are kept for rays that are still present and only new ones are built.
+  useEffect(() => {
+    if (!sceneRef.current) return;
+
+    // Shared Resources for High Performance (1000 rays)
+    if (!sharedRayResourcesRef.current) {
+      sharedRayResourcesRef.current = {
+        photonGeom: new THREE.SphereGeometry(1, 12, 12),
+        brightMat: new THREE.LineBasicMaterial({ 
+          vertexColors: true, 
+          transparent: true, 
+          opacity: 0.8, 
+          linewidth: 2 
+        }),
+        dimMat: new THREE.LineBasicMaterial({ 
+          vertexColors: true,
+          transparent: true, 
+          opacity: 0.1 
+        }),
+        selectedBrightMat: new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 1.0 }),
+        selectedDimMat: new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.5 }),
+        fadedBrightMat: new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.12 }),
+        fadedDimMat: new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: 0.03 }),
+      };
+    }
+    const shared = sharedRayResourcesRef.current;
+
+    // Cleanup rays that are gone
+    const current = new Set(rays);
+    const kept = new Map<RayPath, RayObjects>();
+    rayObjectsRef.current.forEach(obj => {
+      if (current.has(obj.ray)) {
+        kept.set(obj.ray, obj);
+        return;
+      }
+      sceneRef.current?.remove(obj.brightLine);
+      sceneRef.current?.remove(obj.dimLine);
+      sceneRef.current?.remove(obj.photon);
+      
+      obj.brightLine?.geometry?.dispose();
+      obj.dimLine?.geometry?.dispose();
+      obj.photon?.material?.dispose();
+    });
+    rayObjectsRef.current = [];
 
     rays.forEach(ray => {
+      const existing = kept.get(ray);
+      if (existing) {
+        rayObjectsRef.current.push(existing);
+        return;
+      }
       if (ray.points.length < 2) return;
 
       const positions: number[] = [];
-      const colors: number[] = [];
+      const colors = getTrailColors(ray, rayColoring);
+      const toWorld = getWorldTransform(ray.orientation);
 
       ray.points.forEach(p => {
-        positions.push(p.x * WORLD_SCALE, p.y * WORLD_SCALE, p.z * WORLD_SCALE);
-
-        const rVal = p.r / mass; // r in units of M
-        const c = new THREE.Color();
-        
-        if (rVal > 10) {
-          c.setHSL(0.6, 1.0, 0.9); // Blueish White
-        } else if (rVal > 4) {
-          c.setHSL(0.12, 1.0, 0.6); // Gold/Yellow
-        } else if (rVal > 2.2) {
-          c.setHSL(0.0, 1.0, 0.4); // Red
-        } else {
-          c.setHSL(0.0, 1.0, 0.1); // Dark Red/Fade
-        }
-        
-        colors.push(c.r, c.g, c.b);
+        const [x, y, z] = toWorld(p);
+        positions.push(x * WORLD_SCALE, y * WORLD_SCALE, z * WORLD_SCALE);
       });
 
       // 1. Bright Trail
@@ -393,7 +967,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       brightGeom.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
       brightGeom.setDrawRange(0, 0);
 
-      const brightLine = new THREE.Line(brightGeom, sharedBrightMat);
+      const brightLine = new THREE.Line(brightGeom, shared.brightMat);
       sceneRef.current?.add(brightLine);
 
       // 2. Dim Trail
@@ -402,12 +976,12 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       const dimColors = colors.map(c => c * 0.3);
       dimGeom.setAttribute('color', new THREE.Float32BufferAttribute(dimColors, 3));
       
-      const dimLine = new THREE.Line(dimGeom, sharedDimMat);
+      const dimLine = new THREE.Line(dimGeom, shared.dimMat);
       sceneRef.current?.add(dimLine);
 
       // 3. Photon Head
       const photonMat = new THREE.MeshBasicMaterial({ color: 0xffffff });
-      const photon = new THREE.Mesh(sharedPhotonGeom, photonMat);
+      const photon = new THREE.Mesh(shared.photonGeom, photonMat);
       photon.scale.set(photonSize, photonSize, photonSize);
       photon.visible = false;
       sceneRef.current?.add(photon);
@@ -421,40 +995,133 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         dimLine,
         dimGeom,
         photon,
-        revealed: false
+        revealed: false,
+        shown: positions,
+        lifted: null,
+        liftedFor: null,
+        hidden: false,
+        headScale: 1,
+        coloredFor: rayColoring,
       });
     });
 
-  }, [rays, setMaxTime, mass]);
+  }, [rays]);
 
-  // Animation & Visibility Updates
+  // Shared ray resources live as long as the canvas
+  useEffect(() => {
+    return () => {
+      const shared = sharedRayResourcesRef.current;
+      if (!shared) return;
+      shared.photonGeom.dispose();
+      shared.brightMat.dispose();
+      shared.dimMat.dispose();
+      shared.selectedBrightMat.dispose();
+      shared.selectedDimMat.dispose();
+      shared.fadedBrightMat.dispose();
+      shared.fadedDimMat.dispose();
+      sharedRayResourcesRef.current = null;
+    };
+  }, []);
+
+  // Swap the lines between the 3D paths and their lifts onto the embedding diagram.
+  // Rays outside the equatorial plane have no lift and are hidden meanwhile.
   useEffect(() => {
     rayObjectsRef.current.forEach(obj => {
-      const { ray, positions, brightGeom, photon } = obj;
-      let idx: number;
+      if (embedding && obj.liftedFor !== embeddingProfile) {
+        obj.lifted = liftRay(obj.ray, embeddingProfile, embeddingBase)?.map(v => v * WORLD_SCALE) ?? null;
+        obj.liftedFor = embeddingProfile;
+      }
+      const shown = embedding ? obj.lifted : obj.positions;
+      if (shown === obj.shown) return;
+      obj.shown = shown;
+      obj.brightLine.visible = shown !== null && !obj.hidden;
+      obj.dimLine.visible = shown !== null && !obj.hidden;
+      if (!shown) return;
+      [obj.brightGeom, obj.dimGeom].forEach(geom => {
+        geom.setAttribute('position', new THREE.Float32BufferAttribute(shown, 3));
+        geom.computeBoundingSphere();
+      });
+    });
+  }, [embedding, embeddingProfile, embeddingBase, rays]);
 
-      if (isContinuous) {
-        const cycleLength = ray.points.length + 60; 
-        const localTime = (time + ray.timeOffset) % cycleLength;
-        idx = localTime < ray.points.length ? Math.floor(localTime) : -1;
-      } else {
-        idx = Math.min(Math.floor(time), ray.points.length - 1);
+  // Recolour the trails when the colour mode or its thresholds change
+  useEffect(() => {
+    rayObjectsRef.current.forEach(obj => {
+      if (obj.coloredFor === rayColoring) return;
+      obj.colors = getTrailColors(obj.ray, rayColoring);
+      obj.coloredFor = rayColoring;
+      obj.brightGeom.setAttribute('color', new THREE.Float32BufferAttribute(obj.colors, 3));
+      obj.dimGeom.setAttribute('color', new THREE.Float32BufferAttribute(obj.colors.map(c => c * 0.3), 3));
+    });
+  }, [rayColoring, rays]);
+
+  // Picked ray on top at full strength, the rest faded; hidden rays (and all but a
+  // soloed one) drop out
+  useEffect(() => {
+    const shared = sharedRayResourcesRef.current;
+    if (!shared) return;
+    const hidden = new Set(hiddenRayIds);
+    const anySelected = rayObjectsRef.current.some(obj => obj.ray.id === selectedRayId);
+    rayObjectsRef.current.forEach(obj => {
+      const id = obj.ray.id;
+      const selected = id === selectedRayId;
+      const faded = anySelected && !selected;
+      obj.hidden = hidden.has(id) || (soloRayId !== null && id !== soloRayId);
+      obj.brightLine.visible = obj.shown !== null && !obj.hidden;
+      obj.dimLine.visible = obj.shown !== null && !obj.hidden;
+      obj.brightLine.material = selected ? shared.selectedBrightMat : faded ? shared.fadedBrightMat : shared.brightMat;
+      obj.dimLine.material = selected ? shared.selectedDimMat : faded ? shared.fadedDimMat : shared.dimMat;
+      obj.brightLine.renderOrder = selected ? 1 : 0;
+      obj.photon.material.transparent = faded;
+      obj.photon.material.opacity = faded ? 0.25 : 1;
+      obj.headScale = selected ? 1.6 : 1;
+    });
+  }, [selectedRayId, hiddenRayIds, soloRayId, rays]);
+
+  // Max Time Calc: the longest ray on the selected clock
+  useEffect(() => {
+    let maxT = 0;
+    rays.forEach(r => {
+      if (r.points.length < 2) return;
+      const duration = getClockDuration(r, clock, observerFactor) + getLaunchReading(r, clock, observerFactor);
+      if (isFinite(duration) && duration > maxT) maxT = duration;
+    });
+    setMaxTime(maxT);
+  }, [rays, clock, observerFactor, setMaxTime]);
+
+  // Animation & Visibility Updates
+  useEffect(() => {
+    rayObjectsRef.current.forEach(obj => {
+      const { ray, shown: positions, brightGeom, dimGeom, photon } = obj;
+      if (!positions || obj.hidden) {
+        photon.visible = false;
+        return;
       }
 
-      if (idx < 0) {
+      // Without the interior, every trail ends at its horizon crossing. The embedded
+      // slice ends there anyway.
+      const hideFrom = (!showInterior || embedding) && ray.horizonIndex >= 0 ? ray.horizonIndex : ray.points.length;
+      dimGeom.setDrawRange(0, Math.min(hideFrom + 1, ray.points.length));
+
+      // Every ray is placed at the same reading of the shared clock, counted from
+      // its launch
+      const sample = getPlaybackSample(ray, time, clock, observerFactor, isContinuous, clockRate);
+      // Not launched yet, or between passes in continuous mode
+      if (!sample) {
         photon.visible = false;
         brightGeom.setDrawRange(0, 0);
         return;
       }
+      const { index: idx, frac } = sample;
+      const next = Math.min(idx + 1, ray.points.length - 1);
 
-      const logicPt = ray.points[idx];
-      const isInside = logicPt.r < (2.02 * mass); // Just inside horizon
+      const isInside = idx >= hideFrom;
 
-      // Update Photon Position
+      // Update Photon Position, interpolated between the bracketing points
       photon.position.set(
-        positions[idx*3],
-        positions[idx*3+1],
-        positions[idx*3+2]
+        positions[idx*3] + frac * (positions[next*3] - positions[idx*3]),
+        positions[idx*3+1] + frac * (positions[next*3+1] - positions[idx*3+1]),
+        positions[idx*3+2] + frac * (positions[next*3+2] - positions[idx*3+2])
       );
       
       // Update Photon Color
@@ -468,20 +1135,56 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       if (isInside) {
         photon.scale.set(0,0,0);
       } else {
-        photon.scale.set(photonSize, photonSize, photonSize);
+        photon.scale.setScalar(photonSize * obj.headScale);
       }
 
       // Draw Trail
-      brightGeom.setDrawRange(0, idx + 1);
+      brightGeom.setDrawRange(0, Math.min(idx, hideFrom) + 1);
       brightGeom.attributes.position.needsUpdate = true;
     });
-  }, [time, mass, photonSize, isContinuous]);
+  }, [time, photonSize, isContinuous, showInterior, rays, clock, observerFactor, clockRate, embedding, embeddingProfile, selectedRayId, hiddenRayIds, soloRayId]);
+
+  const isKerr = spacetime.kind === 'kerr';
+  const kerrHorizons = getKerrHorizons(mass, isKerr ? spacetime.spin * mass : 0);
+  const kerrPhotonOrbits = getKerrPhotonOrbitRadii(mass, isKerr ? spacetime.spin * mass : 0);
+  const horizons = getHorizons(mass, spacetime);
+  const photonSphere = getPhotonSphere(mass, spacetime);
+  const legend = getRayColorLegend(rayColors, bCrit, mass, rays.some(r => r.particle === 'massive'));
 
   return (
     <div ref={containerRef} className="w-full h-full min-h-[400px] relative bg-black rounded-xl overflow-hidden shadow-2xl border border-white/10">
       <canvas ref={canvasRef} className="w-full h-full block" />
+
+      {rayProgress.done < rayProgress.total && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none w-48 bg-space-900/80 backdrop-blur border border-white/10 rounded-lg px-3 py-2">
+          <div className="flex items-center justify-between text-[10px] font-mono uppercase tracking-widest text-cyan-300/80 mb-1.5">
+            <span className="animate-pulse">Tracing Rays</span>
+            <span className="text-white/50">{rayProgress.done} / {rayProgress.total}</span>
+          </div>
+          <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+            <div className="h-full bg-cyan-400 transition-all duration-200" style={{ width: `${(100 * rayProgress.done) / rayProgress.total}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {rayProgress.done >= rayProgress.total && rayProgress.failed > 0 && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none max-w-sm bg-space-900/80 backdrop-blur border border-red-500/30 rounded-lg px-3 py-2 text-[10px] font-mono">
+          <div className="uppercase tracking-widest text-red-300/90">
+            {rayProgress.failed} of {rayProgress.total} rays could not be traced
+          </div>
+          {rayProgress.error && <div className="text-white/50 mt-1 break-words">{rayProgress.error}</div>}
+        </div>
+      )}
       
       <div className="absolute top-4 left-4 pointer-events-none space-y-1">
+         {embedding && (
+            <div className="mb-2 space-y-1">
+              <div className="text-[10px] font-mono text-cyan-300/80 uppercase tracking-widest">
+                {spacetime.kind === 'schwarzschild' || isKerr ? "Flamm's Paraboloid z = 2√(2M(r − 2M))" : 'Embedded Slice (dz/dr)² = 1/f − 1'}
+              </div>
+              <div className="text-[10px] font-mono text-white/40 uppercase tracking-widest">Equatorial rays only · t = const{isKerr ? ' · a = 0 limit' : ''}</div>
+            </div>
+         )}
          {!showEventHorizon && (
             <div className="text-[10px] font-mono text-cyan-400 uppercase tracking-widest animate-pulse mb-2">
                Structural Vis: OFF
@@ -489,12 +1192,115 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
          )}
          <div className="flex items-center gap-2">
            <div className={`w-3 h-3 rounded-full border border-gray-600 shadow-[0_0_10px_rgba(0,0,0,1)] ${showEventHorizon ? 'bg-black' : 'bg-transparent border-dashed opacity-50'}`}></div>
-           <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>Event Horizon (2M)</span>
+           <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>{isKerr ? `Outer Horizon (${kerrHorizons.outer.toFixed(2)})` : spacetime.kind === 'schwarzschild' ? 'Event Horizon (2M)' : `Event Horizon (${horizons.event.toFixed(2)})`}</span>
         </div>
+        {isKerr ? (
+          <>
+            <div className="flex items-center gap-2">
+               <div className={`w-3 h-3 rounded-full border border-orange-400/60 border-dashed bg-transparent transition-opacity ${showEventHorizon ? 'opacity-100' : 'opacity-20'}`}></div>
+               <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>Inner Horizon ({kerrHorizons.inner.toFixed(2)})</span>
+            </div>
+            <div className="flex items-center gap-2">
+               <div className={`w-3 h-3 rounded-full border border-fuchsia-500/60 bg-transparent transition-opacity ${showEventHorizon ? 'opacity-100' : 'opacity-20'}`}></div>
+               <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>Ergosphere</span>
+            </div>
+            <div className="flex items-center gap-2">
+               <div className={`w-3 h-0.5 bg-cyan-400 transition-opacity ${showEventHorizon ? 'opacity-100' : 'opacity-20'}`}></div>
+               <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>Prograde Photon Orbit ({kerrPhotonOrbits.prograde.toFixed(2)})</span>
+            </div>
+            <div className="flex items-center gap-2">
+               <div className={`w-3 h-0.5 bg-orange-400 transition-opacity ${showEventHorizon ? 'opacity-100' : 'opacity-20'}`}></div>
+               <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>Retrograde Photon Orbit ({kerrPhotonOrbits.retrograde.toFixed(2)})</span>
+            </div>
+          </>
+        ) : (
+        <>
+        {horizons.inner !== null && (
+          <div className="flex items-center gap-2">
+             <div className={`w-3 h-3 rounded-full border border-orange-400/60 border-dashed bg-transparent transition-opacity ${showEventHorizon ? 'opacity-100' : 'opacity-20'}`}></div>
+             <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>Inner Horizon ({horizons.inner.toFixed(2)})</span>
+          </div>
+        )}
         <div className="flex items-center gap-2">
            <div className={`w-3 h-3 rounded-full border border-cyan-500/50 bg-transparent transition-opacity ${showEventHorizon ? 'opacity-100' : 'opacity-20'}`}></div>
-           <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>Photon Sphere (3M)</span>
+           <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>{spacetime.kind === 'schwarzschild' ? 'Photon Sphere (3M)' : `Photon Sphere (${photonSphere.toFixed(2)})`}</span>
         </div>
+        {horizons.cosmological !== null && (
+          <div className="flex items-center gap-2">
+             <div className={`w-3 h-3 rounded-full border border-emerald-400/50 bg-transparent transition-opacity ${showEventHorizon ? 'opacity-100' : 'opacity-20'}`}></div>
+             <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>Cosmological Horizon ({horizons.cosmological.toFixed(1)})</span>
+          </div>
+        )}
+        </>
+        )}
+        {showISCO && spacetime.kind === 'schwarzschild' && (
+          <div className="flex items-center gap-2">
+             <div className={`w-3 h-3 rounded-full border border-purple-400/50 border-dashed bg-transparent transition-opacity ${showEventHorizon ? 'opacity-100' : 'opacity-20'}`}></div>
+             <span className={`text-[10px] font-mono uppercase tracking-widest transition-opacity ${showEventHorizon ? 'text-white/50' : 'text-white/20'}`}>ISCO (6M)</span>
+          </div>
+        )}
+        {emitter?.mode === 'local' && emitterRay && (
+          <div className="flex items-center gap-2">
+             <div className="w-3 h-3 rounded-full" style={{ background: 'linear-gradient(90deg, #34d399 50%, #ef4444 50%)' }}></div>
+             <span className="text-[10px] font-mono uppercase tracking-widest text-white/50">Escape Cone (r_e = {emitterRay.points[0].r.toFixed(2)})</span>
+          </div>
+        )}
+        {hotSpotOrbit && (
+          <div className="flex items-center gap-2">
+             <div className="w-3 h-3 rounded-full bg-orange-300 shadow-[0_0_6px_orange]"></div>
+             <span className="text-[10px] font-mono uppercase tracking-widest text-white/50">Hot Spot (r = {(hotSpotOrbit.rSpot / mass).toFixed(2)}M, i = {emitter?.inclination.toFixed(0)}°)</span>
+          </div>
+        )}
+        {overlay && !embedding && (
+          <div className="flex items-center gap-2">
+             <div className="w-3 border-t border-dashed border-emerald-300"></div>
+             <span className="text-[10px] font-mono uppercase tracking-widest text-white/50">Imported ({overlay.paths.length})</span>
+          </div>
+        )}
+        {showInterior && rays.some(r => r.horizonIndex >= 0) && (
+          <div className="flex items-center gap-2">
+             <div className="w-3 h-0.5 bg-violet-400"></div>
+             <span className="text-[10px] font-mono uppercase tracking-widest text-white/50">Interior Segment</span>
+          </div>
+        )}
+      </div>
+
+      {/* Colormap of the trails */}
+      <div className="absolute top-4 right-4 pointer-events-none w-44 space-y-1">
+        <div className="text-[10px] font-mono uppercase tracking-widest text-white/50">{legend.title}</div>
+        {legend.kind === 'swatches' ? (
+          legend.items.map(item => (
+            <div key={item.label} className="flex items-center gap-2">
+              <div className="w-3 h-0.5" style={{ backgroundColor: item.color }}></div>
+              <span className="text-[9px] font-mono text-white/50">{item.label}</span>
+            </div>
+          ))
+        ) : (
+          <>
+            <div className="h-2 rounded-sm border border-white/10" style={{ background: legend.gradient }}></div>
+            <div className="relative h-3">
+              {legend.ticks.map(t => (
+                <span
+                  key={t.at}
+                  className="absolute -translate-x-1/2 text-[9px] font-mono text-white/40"
+                  style={{ left: `${t.at * 100}%` }}
+                >
+                  {t.label}
+                </span>
+              ))}
+            </div>
+            <div className="flex justify-between text-[9px] font-mono text-white/30">
+              <span>{legend.ends[0]}</span>
+              <span>{legend.ends[1]}</span>
+            </div>
+          </>
+        )}
+        {((rayColors.mode === 'shift' && isKerr) || rayColors.mode === 'deflection') && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-0.5 bg-neutral-500"></div>
+            <span className="text-[9px] font-mono text-white/40">{rayColors.mode === 'shift' ? 'No static observers (ergosphere)' : 'Did not escape'}</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { Database, Download, Upload, X } from 'lucide-react';
+import { RayPath } from '../types';
+import { RayBuildRequest } from '../services/rayPacking';
+import {
+  TrajectoryFormat, TrajectoryOverlay,
+  exportTrajectoriesCsv, exportTrajectoriesJson, exportTrajectoriesBinary, readTrajectoryFile,
+} from '../services/trajectoryIO';
+import { downloadFile } from '../services/download';
+
+interface TrajectoryFilesProps {
+  rays: RayPath[];
+  parameters: RayBuildRequest; // What the current rays were traced from
+  overlay: TrajectoryOverlay | null;
+  setOverlay: (overlay: TrajectoryOverlay | null) => void;
+}
+
+const TrajectoryFiles: React.FC<TrajectoryFilesProps> = ({ rays, parameters, overlay, setOverlay }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const formats: { id: TrajectoryFormat; label: string; title: string }[] = [
+    { id: 'csv', label: 'CSV', title: 'One row per point, parameters in a leading # comment' },
+    { id: 'json', label: 'JSON', title: 'One object per ray, points as columns' },
+    { id: 'binary', label: 'Binary', title: 'JSON header followed by Float32 rows' },
+  ];
+
+  const handleExport = (format: TrajectoryFormat) => {
+    const name = `geodesics-${parameters.seed}`;
+    if (format === 'csv') downloadFile(exportTrajectoriesCsv(rays, parameters), 'text/csv', `${name}.csv`);
+    else if (format === 'json') downloadFile(exportTrajectoriesJson(rays, parameters), 'application/json', `${name}.json`);
+    else downloadFile(exportTrajectoriesBinary(rays, parameters), 'application/octet-stream', `${name}.geod`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setOverlay(await readTrajectoryFile(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const pointCount = rays.reduce((n, ray) => n + ray.points.length, 0);
+  // Files from this simulator say what they were traced from; compare with the current set
+  const matches = overlay?.parameters ? JSON.stringify(overlay.parameters) === JSON.stringify(parameters) : null;
+
+  return (
+    <div className="bg-space-800/50 border border-white/5 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <Database size={14} /> Trajectory Data
+        </div>
+        <div className="text-[10px] font-mono text-white/40">
+          {rays.length} rays · {pointCount.toLocaleString()} points
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {formats.map(format => (
+          <button
+            key={format.id}
+            onClick={() => handleExport(format.id)}
+            disabled={rays.length === 0}
+            title={format.title}
+            className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors flex items-center gap-1.5 disabled:opacity-50"
+          >
+            <Download size={12} /> {format.label}
+          </button>
+        ))}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors flex items-center gap-1.5 ml-auto"
+          title="Overlay trajectories from a CSV, JSON or binary file"
+        >
+          <Upload size={12} /> Import
+        </button>
+        <input ref={fileInputRef} type="file" accept=".csv,.json,.geod,text/csv,application/json" className="hidden" onChange={handleImport} />
+      </div>
+      {overlay && (
+        <div className="flex items-center gap-2 text-xs text-white/70">
+          <span className="w-3 border-t border-dashed border-emerald-300"></span>
+          <span className="font-mono">{overlay.name}</span>
+          <span className="text-white/40">
+            {overlay.paths.length} paths
+            {matches === true && ' · traced with the current parameters'}
+            {matches === false && ' · traced with other parameters'}
+          </span>
+          <button onClick={() => setOverlay(null)} className="ml-auto text-white/40 hover:text-white" title="Remove the overlay">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+      {error && <div className="text-xs text-red-300/80">Could not read the file: {error}</div>}
+      <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+        Points carry the orbital-plane r and φ, the scene position x, y, z, λ, t, ν/ν_emit and the fate flags, in geometric units (G = c = 1) with the current mass, not divided by M. Imported files need x, y, z (or r, φ in the equatorial plane) and optionally a ray_id column; they are drawn dashed over the 3D scene.
+      </div>
+    </div>
+  );
+};
+
+export default TrajectoryFiles;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Film, Square } from 'lucide-react';
+import { RecordingFormat, RecordingSettings } from '../types';
+import {
+  DEFAULT_RECORDING, RECORDING_SIZES, RECORDING_FRAME_RATES, getMaxRecordingFrames, getRecordingPlan, getWebmMimeType,
+} from '../services/recording';
+
+interface VideoExportProps {
+  playback: { time: number; maxTime: number; speed: number; clockRate: number; isContinuous: boolean };
+  ready: boolean; // All rays traced
+  recording: { frame: number; frames: number } | null;
+  error: string | null;
+  onStart: (settings: RecordingSettings) => void;
+  onStop: () => void;
+}
+
+const VideoExport: React.FC<VideoExportProps> = ({ playback, ready, recording, error, onStart, onStop }) => {
+  const [settings, setSettings] = useState<RecordingSettings>(() => ({
+    ...DEFAULT_RECORDING,
+    format: getWebmMimeType() ? 'webm' : 'png',
+  }));
+  const update = (patch: Partial<RecordingSettings>) => setSettings({ ...settings, ...patch });
+
+  const plan = getRecordingPlan(settings, playback);
+  const seconds = plan.frames / settings.fps;
+  const maxFrames = getMaxRecordingFrames(settings);
+  const tooLong = plan.frames > maxFrames;
+  const webmSupported = getWebmMimeType() !== null;
+
+  const formats: { id: RecordingFormat; label: string; title: string }[] = [
+    { id: 'webm', label: 'WebM', title: 'Video through MediaRecorder' },
+    { id: 'png', label: 'PNG Frames', title: 'Zip of numbered lossless frames, for ffmpeg or an editor' },
+  ];
+
+  const segment = (active: boolean) =>
+    `flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all disabled:opacity-50
+      ${active ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/50' : 'text-white/50 hover:text-white hover:bg-white/5'}`;
+
+  return (
+    <div className="bg-space-800/50 border border-white/5 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-xs font-mono text-cyan-glow/70 uppercase tracking-widest">
+          <Film size={14} /> Recording
+        </div>
+        <div className={`text-[10px] font-mono ${tooLong ? 'text-red-300/80' : 'text-white/40'}`}>
+          {plan.frames.toLocaleString()} frames · {seconds.toFixed(1)} s{tooLong && ` · max ${maxFrames.toLocaleString()} at this size`}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10 gap-1">
+          {formats.map(format => (
+            <button
+              key={format.id}
+              onClick={() => update({ format: format.id })}
+              disabled={recording !== null || (format.id === 'webm' && !webmSupported)}
+              title={format.title}
+              className={segment(settings.format === format.id)}
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex p-1 bg-space-900/50 rounded-lg border border-white/10 gap-1">
+          {RECORDING_FRAME_RATES.map(fps => (
+            <button key={fps} onClick={() => update({ fps })} disabled={recording !== null} className={segment(settings.fps === fps)}>
+              {fps} fps
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {RECORDING_SIZES.map(size => (
+          <button
+            key={size.label}
+            onClick={() => update({ width: size.width, height: size.height })}
+            disabled={recording !== null}
+            className={`px-3 py-1.5 text-xs font-mono rounded border transition-colors disabled:opacity-50 ${
+              settings.width === size.width && settings.height === size.height
+                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-200'
+                : 'bg-white/5 border-white/10 hover:bg-white/10 text-slate-300'
+            }`}
+          >
+            {size.label} <span className="text-white/40">{size.width}×{size.height}</span>
+          </button>
+        ))}
+      </div>
+
+      {playback.isContinuous && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-sm font-medium text-white/90">Duration</label>
+            <span className="font-mono text-sm text-white/70">{settings.duration} s</span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max="120"
+            step="1"
+            value={settings.duration}
+            disabled={recording !== null}
+            onChange={(e) => update({ duration: parseInt(e.target.value) })}
+            className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer disabled:opacity-50 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+          />
+        </div>
+      )}
+
+      {recording ? (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-1 rounded-full bg-white/10 overflow-hidden">
+            <div className="h-full bg-red-400 transition-all duration-200" style={{ width: `${(100 * (recording.frame + 1)) / recording.frames}%` }}></div>
+          </div>
+          <span className="text-[10px] font-mono text-white/50">{recording.frame + 1} / {recording.frames}</span>
+          <button
+            onClick={onStop}
+            className="px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs text-white/70 hover:bg-white/10 hover:text-white transition-colors flex items-center gap-1.5"
+            title="Stop and discard the recording"
+          >
+            <Square size={12} /> Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => onStart(settings)}
+          disabled={!ready || tooLong}
+          className="w-full px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-xs font-medium text-red-200 hover:bg-red-500/20 transition-colors flex items-center justify-center gap-1.5 disabled:opacity-50"
+          title={ready ? undefined : 'Wait for the rays to finish tracing'}
+        >
+          <Film size={12} /> Record {playback.isContinuous ? `${settings.duration} s from the current reading` : 'the whole playback'}
+        </button>
+      )}
+      {error && <div className="text-xs text-red-300/80">Recording failed: {error}</div>}
+
+      <div className="text-xs text-white/60 bg-white/5 p-3 rounded-lg leading-relaxed">
+        Frames are rendered one at a time at the chosen size, each a fixed step of the playback clock at the current speed, with autorotation and the disk's plasma moved by the same clock, so a scenario records the same frames every time. The camera starts where it is now. Overlays (legend, labels) are not drawn into the frames. WebM frames are timed by the same clock, each held for one frame period of the recording, so a recording takes at least its own length; PNG frames render as fast as the machine allows.
+      </div>
+    </div>
+  );
+};
+
+export default VideoExport;
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createDiskProfile, DEFAULT_DISK, getDiskShift, getKeplerianOrbit } from './accretionDisk';
+import { getMetric } from './metrics';
+import { DEFAULT_SPACETIME } from './physics';
+
+const schwarzschild = getMetric(1, DEFAULT_SPACETIME);
+
+describe('Keplerian orbits', () => {
+  it('matches the Schwarzschild circular orbits', () => {
+    [6, 10, 40].forEach(r => {
+      const { omega, ut, energy, angularMomentum } = getKeplerianOrbit(schwarzschild, r);
+      expect(omega).toBeCloseTo(Math.sqrt(1 / (r * r * r)), 10);
+      expect(ut).toBeCloseTo(1 / Math.sqrt(1 - 3 / r), 10);
+      expect(energy).toBeCloseTo((1 - 2 / r) / Math.sqrt(1 - 3 / r), 10);
+      expect(angularMomentum).toBeCloseTo(Math.sqrt(r) / Math.sqrt(1 - 3 / r), 10);
+    });
+    // Binding energy at the ISCO
+    expect(getKeplerianOrbit(schwarzschild, 6).energy).toBeCloseTo(Math.sqrt(8 / 9), 10);
+  });
+
+  it('gives only the transverse Doppler and gravitational shift for photons with no angular momentum', () => {
+    const r = 10;
+    expect(getDiskShift(schwarzschild, r, 0, 1)).toBeCloseTo(Math.sqrt(1 - 3 / r), 10);
+  });
+
+  it('blueshifts photons leaving along the gas motion and redshifts those leaving against it', () => {
+    const b = 10;
+    expect(getDiskShift(schwarzschild, 10, b, 1)).toBeGreaterThan(1);
+    expect(getDiskShift(schwarzschild, 10, -b, 1)).toBeLessThan(getDiskShift(schwarzschild, 10, 0, 1));
+  });
+});
+
+describe('disk profiles', () => {
+  it('runs from the ISCO to the outer radius', () => {
+    const profile = createDiskProfile(1, DEFAULT_SPACETIME, DEFAULT_DISK)!;
+    expect(profile.rIn).toBeCloseTo(6, 6);
+    expect(profile.rOut).toBe(DEFAULT_DISK.outerRadius);
+    expect(profile.flux(5)).toBe(0);
+    expect(profile.flux(DEFAULT_DISK.outerRadius + 1)).toBe(0);
+  });
+
+  it('has no Novikov-Thorne flux at the inner edge and a peak of 1 beyond it', () => {
+    const profile = createDiskProfile(1, DEFAULT_SPACETIME, DEFAULT_DISK)!;
+    expect(profile.flux(profile.rIn)).toBeCloseTo(0, 6);
+    let peak = 0;
+    let rPeak = 0;
+    for (let r = profile.rIn; r <= profile.rOut; r += 0.01) {
+      if (profile.flux(r) > peak) [peak, rPeak] = [profile.flux(r), r];
+    }
+    expect(peak).toBeCloseTo(1, 2);
+    // The Schwarzschild Page-Thorne flux peaks near r = 9.55M
+    expect(rPeak).toBeGreaterThan(9);
+    expect(rPeak).toBeLessThan(10.2);
+  });
+
+  it('follows r^-q for the power law', () => {
+    const profile = createDiskProfile(1, DEFAULT_SPACETIME, { ...DEFAULT_DISK, emissivity: 'power-law', powerIndex: 3 })!;
+    expect(profile.flux(6)).toBeCloseTo(1, 6);
+    expect(profile.flux(12)).toBeCloseTo(1 / 8, 3);
+  });
+
+  it('has no disk when the outer radius is inside the ISCO', () => {
+    expect(createDiskProfile(1, DEFAULT_SPACETIME, { ...DEFAULT_DISK, outerRadius: 5 })).toBeNull();
+  });
+});
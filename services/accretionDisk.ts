@@ -0,0 +1,109 @@
+import { DiskSettings, SpacetimeSettings } from '../types';
+import { getMetric, getISCO, SphericalMetric } from './metrics';
+
+// Geometrically thin, optically thick disk of gas on Keplerian circular orbits in the
+// equatorial plane, truncated at the ISCO. Kerr gets its a = 0 limit, like the
+// observer image that shows the disk.
+
+export const DEFAULT_DISK: DiskSettings = {
+  model: 'decorative',
+  outerRadius: 20,
+  emissivity: 'novikov-thorne',
+  powerIndex: 3,
+};
+
+// Circular geodesic at radius r: Ω = dφ/dt = sqrt(f'/2r), u^t = 1/sqrt(f - r f'/2),
+// and the specific energy and angular momentum it carries
+export function getKeplerianOrbit(metric: SphericalMetric, r: number) {
+  const f = metric.f(r);
+  const df = metric.df(r);
+  const ut = 1 / Math.sqrt(f - 0.5 * r * df);
+  const omega = Math.sqrt(df / (2 * r));
+  return { omega, ut, energy: f * ut, angularMomentum: r * r * omega * ut };
+}
+
+// ν_obs/ν_emit for a photon with L_z/E = lambdaZ leaving the gas at r and reaching a
+// static observer where sqrt(f) = sqrtFObs: gravitational and Doppler shift together
+export function getDiskShift(metric: SphericalMetric, r: number, lambdaZ: number, sqrtFObs: number) {
+  const { omega, ut } = getKeplerianOrbit(metric, r);
+  return 1 / (sqrtFObs * ut * (1 - omega * lambdaZ));
+}
+
+export interface DiskProfile {
+  rIn: number;
+  rOut: number;
+  flux: (r: number) => number; // Emitted flux, 1 at its peak and 0 off the disk
+}
+
+const PROFILE_SIZE = 1024;
+
+// Novikov-Thorne (Page-Thorne) flux for zero torque at the inner edge,
+// F ∝ -Ω' / (√-g (E - ΩL)^2) ∫_rIn^r (E - ΩL) L' dr with √-g = r in the equatorial plane
+function getNovikovThorneFlux(metric: SphericalMetric, radii: Float64Array) {
+  const flux = new Float64Array(radii.length);
+  const derivative = (r: number, key: 'omega' | 'angularMomentum') => {
+    const h = 1e-4 * r;
+    return (getKeplerianOrbit(metric, r + h)[key] - getKeplerianOrbit(metric, r - h)[key]) / (2 * h);
+  };
+  let integral = 0;
+  let prev = 0;
+  for (let i = 0; i < radii.length; i++) {
+    const r = radii[i];
+    const { omega, energy, angularMomentum } = getKeplerianOrbit(metric, r);
+    const binding = energy - omega * angularMomentum;
+    const integrand = binding * derivative(r, 'angularMomentum');
+    if (i > 0) integral += 0.5 * (integrand + prev) * (r - radii[i - 1]);
+    prev = integrand;
+    flux[i] = (-derivative(r, 'omega') * integral) / (r * binding * binding);
+  }
+  return flux;
+}
+
+export function createDiskProfile(mass: number, spacetime: SpacetimeSettings, disk: DiskSettings): DiskProfile | null {
+  const rIn = getISCO(mass, spacetime);
+  const rOut = disk.outerRadius * mass;
+  if (rIn === null || rOut <= rIn) return null;
+
+  const radii = new Float64Array(PROFILE_SIZE);
+  for (let i = 0; i < PROFILE_SIZE; i++) radii[i] = rIn + ((rOut - rIn) * i) / (PROFILE_SIZE - 1);
+  const values = disk.emissivity === 'novikov-thorne'
+    ? getNovikovThorneFlux(getMetric(mass, spacetime), radii)
+    : radii.map(r => Math.pow(r / rIn, -disk.powerIndex));
+  const peak = values.reduce((max, v) => Math.max(max, v), 0) || 1;
+
+  return {
+    rIn,
+    rOut,
+    flux: (r: number) => {
+      if (r < rIn || r > rOut) return 0;
+      const x = ((r - rIn) / (rOut - rIn)) * (PROFILE_SIZE - 1);
+      const k = Math.min(PROFILE_SIZE - 2, Math.floor(x));
+      return (values[k] + (x - k) * (values[k + 1] - values[k])) / peak;
+    },
+  };
+}
+
+// Colour ramp for observed temperatures relative to the hottest emitted one
+const BLACKBODY_RAMP: [number, number, number, number][] = [
+  [0.0, 120, 10, 0],
+  [0.4, 220, 50, 0],
+  [0.7, 255, 140, 30],
+  [0.95, 255, 215, 150],
+  [1.2, 255, 248, 235],
+  [1.6, 190, 215, 255],
+];
+
+// Adds the colour of a patch of disk emitting `flux` seen with shift g: specific
+// intensity scales as g^4 F (bolometric) and the colour temperature as g F^(1/4)
+export function shadeDisk(g: number, flux: number, out: number[]) {
+  const temperature = g * Math.pow(flux, 0.25);
+  let k = 0;
+  while (k < BLACKBODY_RAMP.length - 2 && temperature > BLACKBODY_RAMP[k + 1][0]) k++;
+  const [t0, r0, g0, b0] = BLACKBODY_RAMP[k];
+  const [t1, r1, g1, b1] = BLACKBODY_RAMP[k + 1];
+  const t = Math.max(0, Math.min(1, (temperature - t0) / (t1 - t0)));
+  const brightness = 1 - Math.exp(-2 * g * g * g * g * flux);
+  out[0] += brightness * (r0 + t * (r1 - r0));
+  out[1] += brightness * (g0 + t * (g1 - g0));
+  out[2] += brightness * (b0 + t * (b1 - b0));
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SHIFT, MIN_SHIFT, shiftToColor } from './colormap';
+
+describe('shiftToColor', () => {
+  it('reddens redshifted light and blues blueshifted light', () => {
+    const [rRed, , bRed] = shiftToColor(0.5)!;
+    const [rBlue, , bBlue] = shiftToColor(3)!;
+    expect(rRed).toBeGreaterThan(bRed);
+    expect(bBlue).toBeGreaterThan(rBlue);
+  });
+
+  it('saturates at the ends of its range', () => {
+    expect(shiftToColor(MIN_SHIFT / 10)).toEqual(shiftToColor(MIN_SHIFT));
+    expect(shiftToColor(MAX_SHIFT * 10)).toEqual(shiftToColor(MAX_SHIFT));
+  });
+
+  it('has no colour where the shift is undefined', () => {
+    expect(shiftToColor(NaN)).toBeNull();
+    expect(shiftToColor(0)).toBeNull();
+  });
+});
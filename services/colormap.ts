@@ -0,0 +1,55 @@
+import { FateCategory } from '../types';
+
+// Trail colours by how each ray ended
+export const FATE_COLORS: Record<FateCategory, string> = {
+  captured: '#ff3333',
+  strong: '#4488ff',
+  escaped: '#eab308',
+  bound: '#c084fc',
+};
+
+// Colour of the emitter's blackbody spectrum; a frequency ratio ν/ν_emit scales
+// the apparent temperature by the same factor.
+export const EMITTER_TEMPERATURE = 6500;
+
+// Range the colormap can show, set by the blackbody fit below (1000 K - 40000 K)
+export const MIN_SHIFT = 1000 / EMITTER_TEMPERATURE;
+export const MAX_SHIFT = 40000 / EMITTER_TEMPERATURE;
+
+// Approximate sRGB colour of a blackbody at the given temperature (Tanner Helland's
+// fit to the CIE colour matching functions), components in [0, 1].
+export function blackbodyColor(kelvin: number): [number, number, number] {
+  const t = Math.min(40000, Math.max(1000, kelvin)) / 100;
+  let r: number;
+  let g: number;
+  let b: number;
+  if (t <= 66) {
+    r = 255;
+    g = 99.4708025861 * Math.log(t) - 161.1195681661;
+    b = t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  } else {
+    r = 329.698727446 * Math.pow(t - 60, -0.1332047592);
+    g = 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+    b = 255;
+  }
+  const clamp = (v: number) => Math.min(1, Math.max(0, v / 255));
+  return [clamp(r), clamp(g), clamp(b)];
+}
+
+// Colour for a frequency ratio ν/ν_emit, or null where it is undefined
+export function shiftToColor(shift: number): [number, number, number] | null {
+  if (!isFinite(shift) || shift <= 0) return null;
+  return blackbodyColor(EMITTER_TEMPERATURE * shift);
+}
+
+// CSS gradient across [MIN_SHIFT, MAX_SHIFT] on a log axis, for legends
+export function shiftGradientCss(stops = 16) {
+  const parts: string[] = [];
+  for (let i = 0; i <= stops; i++) {
+    const u = i / stops;
+    const shift = MIN_SHIFT * Math.pow(MAX_SHIFT / MIN_SHIFT, u);
+    const [r, g, b] = blackbodyColor(EMITTER_TEMPERATURE * shift);
+    parts.push(`rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}) ${(u * 100).toFixed(1)}%`);
+  }
+  return `linear-gradient(to right, ${parts.join(', ')})`;
+}
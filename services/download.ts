@@ -0,0 +1,10 @@
+// Hands content to the browser as a file download
+export function downloadFile(content: BlobPart, type: string, name: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Released once the download has picked it up
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createEmbeddingProfile, getFlammHeight, liftRay } from './embedding';
+import { getMetric } from './metrics';
+import { buildRays, DEFAULT_SPACETIME } from './physics';
+
+describe('embedding profiles', () => {
+  it("is Flamm's paraboloid for Schwarzschild, starting at the horizon", () => {
+    expect(getFlammHeight(2, 1)).toBe(0);
+    expect(getFlammHeight(10, 1)).toBeCloseTo(8, 12);
+    expect(getFlammHeight(1, 1)).toBeNaN();
+    const profile = createEmbeddingProfile(1, DEFAULT_SPACETIME);
+    expect(profile.rThroat).toBeCloseTo(2, 12);
+    expect(profile.height(10)).toBeCloseTo(8, 12);
+  });
+
+  it('uses the a = 0 surface for Kerr', () => {
+    const profile = createEmbeddingProfile(1, { ...DEFAULT_SPACETIME, kind: 'kerr', spin: 0.9 });
+    expect(profile.height(10)).toBeCloseTo(getFlammHeight(10, 1), 12);
+  });
+
+  it('tends to Flamm as the charge goes to zero', () => {
+    const profile = createEmbeddingProfile(1, { ...DEFAULT_SPACETIME, kind: 'reissner-nordstrom', charge: 1e-3 });
+    [3, 10, 50].forEach(r => expect(profile.height(r)).toBeCloseTo(getFlammHeight(r, 1), 2));
+  });
+
+  it('has the slope sqrt(1/f - 1) of the charged slice', () => {
+    const spacetime = { ...DEFAULT_SPACETIME, kind: 'reissner-nordstrom' as const, charge: 0.6 };
+    const profile = createEmbeddingProfile(1, spacetime);
+    const { f } = getMetric(1, spacetime);
+    expect(profile.height(profile.rThroat)).toBe(0);
+    expect(profile.height(0.5 * profile.rThroat)).toBeNaN();
+    [4, 10, 30].forEach(r => {
+      const slope = (profile.height(r + 0.05) - profile.height(r - 0.05)) / 0.1;
+      expect(slope / Math.sqrt(1 / f(r) - 1)).toBeCloseTo(1, 2);
+    });
+  });
+});
+
+describe('liftRay', () => {
+  const profile = createEmbeddingProfile(1, DEFAULT_SPACETIME);
+
+  it('lifts equatorial rays onto the surface', () => {
+    const [ray] = buildRays(8, 1, 1, 1, 'planar', 'fixed');
+    const lifted = liftRay(ray, profile, 1)!;
+    expect(lifted).toHaveLength(3 * ray.points.length);
+    ray.points.forEach((p, i) => {
+      expect(Math.hypot(lifted[3 * i], lifted[3 * i + 1])).toBeCloseTo(p.r, 6);
+      expect(lifted[3 * i + 2]).toBeCloseTo(getFlammHeight(p.r, 1) - 1, 6);
+    });
+  });
+
+  it('leaves out rays outside the equatorial plane', () => {
+    const rays = buildRays(8, 1, 8, 1, 'isotropic', 'fixed');
+    expect(rays.some(ray => liftRay(ray, profile, 0) === null)).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { RayPath, SpacetimeSettings } from '../types';
+import { getMetric, getHorizons } from './metrics';
+import { getWorldTransform } from './physics';
+
+// Embedding diagram of the equatorial plane of a t = const slice, dl^2 = dr^2/f + r^2 dφ^2,
+// as a surface of revolution z(r) in flat space: (dz/dr)^2 = 1/f - 1. For Schwarzschild
+// this is Flamm's paraboloid z = 2 sqrt(2M(r - 2M)). The slice is only spacelike
+// outside the horizon, so the surface starts at its throat r = r_h.
+
+export interface EmbeddingProfile {
+  rThroat: number;
+  rMax: number; // Where the table ends (just inside a cosmological horizon)
+  height: (r: number) => number; // z(r), 0 at the throat; NaN inside it
+}
+
+const PROFILE_SIZE = 1024;
+// The tabulated surface ends here (in units of M) and is held level beyond
+const PROFILE_EXTENT = 1000;
+
+export function getFlammHeight(r: number, mass: number) {
+  return r >= 2 * mass ? 2 * Math.sqrt(2 * mass * (r - 2 * mass)) : NaN;
+}
+
+// Kerr gets its a = 0 limit
+export function createEmbeddingProfile(mass: number, spacetime: SpacetimeSettings): EmbeddingProfile {
+  const spherical: SpacetimeSettings = spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime;
+  const { event, cosmological } = getHorizons(mass, spherical);
+  const rMax = cosmological !== null ? 0.99 * cosmological : PROFILE_EXTENT * mass;
+  if (spherical.kind === 'schwarzschild') {
+    return { rThroat: event, rMax, height: r => getFlammHeight(r, mass) };
+  }
+
+  // dz/dr blows up like (r - r_h)^(-1/2) at the throat, so integrate in s = sqrt(r - r_h),
+  // where dz/ds = 2s sqrt(1/f - 1) stays finite. Where f > 1 (near a charge) the
+  // slope is cut to zero rather than leaving flat space.
+  const { f, df } = getMetric(mass, spherical);
+  const sMax = Math.sqrt(rMax - event);
+  const ds = sMax / (PROFILE_SIZE - 1);
+  const slope = (s: number) => {
+    // At the throat itself f ≈ f'(r_h) s^2
+    if (s === 0) return 2 / Math.sqrt(Math.max(df(event), 1e-12));
+    const fr = f(event + s * s);
+    return fr > 0 ? 2 * s * Math.sqrt(Math.max(0, 1 / fr - 1)) : 0;
+  };
+  const heights = new Float64Array(PROFILE_SIZE);
+  for (let k = 1; k < PROFILE_SIZE; k++) {
+    // Simpson over each cell
+    const s0 = (k - 1) * ds;
+    heights[k] = heights[k - 1] + (ds / 6) * (slope(s0) + 4 * slope(s0 + 0.5 * ds) + slope(s0 + ds));
+  }
+
+  return {
+    rThroat: event,
+    rMax,
+    height: (r: number) => {
+      if (r < event) return NaN;
+      const x = Math.min(Math.sqrt(r - event), sMax) / ds;
+      const k = Math.min(PROFILE_SIZE - 2, Math.floor(x));
+      return heights[k] + (x - k) * (heights[k + 1] - heights[k]);
+    },
+  };
+}
+
+// A ray drawn on the surface: its points in the equatorial plane, lifted to z(r) - base.
+// Null for rays that leave the plane, which the diagram cannot show. Points inside
+// the throat sit on it.
+export function liftRay(ray: RayPath, profile: EmbeddingProfile, base: number): number[] | null {
+  const toWorld = getWorldTransform(ray.orientation);
+  const lifted: number[] = [];
+  for (const p of ray.points) {
+    const [x, y, z] = toWorld(p);
+    if (Math.abs(z) > 1e-6 * Math.max(1, p.r)) return null;
+    // Kerr-Schild x, y sit at sqrt(r^2 + a^2); the a = 0 surface wants r
+    const rho = Math.hypot(x, y);
+    const scale = rho > 0 ? p.r / rho : 0;
+    const height = p.r > profile.rThroat ? profile.height(p.r) : 0;
+    lifted.push(x * scale, y * scale, height - base);
+  }
+  return lifted;
+}
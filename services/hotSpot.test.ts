@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { computeLightCurve, getHotSpotEmission, getHotSpotOrbit } from './hotSpot';
+import { DEFAULT_EMITTER, DEFAULT_SPACETIME } from './physics';
+
+describe('hot spot orbits', () => {
+  it('goes round in the Keplerian period 2π sqrt(r^3/M)', () => {
+    const orbit = getHotSpotOrbit(1, DEFAULT_SPACETIME, { ...DEFAULT_EMITTER, orbitRadius: 10 })!;
+    expect(orbit.rSpot).toBe(10);
+    expect(orbit.period).toBeCloseTo(2 * Math.PI * Math.pow(10, 1.5), 8);
+  });
+
+  it('keeps the spot out of the ISCO', () => {
+    const orbit = getHotSpotOrbit(1, DEFAULT_SPACETIME, { ...DEFAULT_EMITTER, orbitRadius: 3 })!;
+    expect(orbit.rSpot).toBeCloseTo(6, 6);
+  });
+
+  it('sees only the gravitational and transverse Doppler shift face on', () => {
+    const orbit = getHotSpotOrbit(1, DEFAULT_SPACETIME, { ...DEFAULT_EMITTER, orbitRadius: 10, inclination: 0 })!;
+    [0, 0.3, 0.7].forEach(fraction => {
+      const emission = getHotSpotEmission(orbit, fraction * orbit.period, 'primary')!;
+      expect(emission.shift).toBeCloseTo(Math.sqrt(1 - 3 / 10), 6);
+    });
+    const curve = computeLightCurve(orbit);
+    curve.flux.total.forEach(v => expect(v).toBeCloseTo(1, 6));
+  });
+
+  it('beams the approaching side of an inclined orbit', () => {
+    const orbit = getHotSpotOrbit(1, DEFAULT_SPACETIME, { ...DEFAULT_EMITTER, orbitRadius: 10, inclination: 75 })!;
+    const curve = computeLightCurve(orbit);
+    const primary = Array.from(curve.shift.primary).filter(isFinite);
+    expect(Math.max(...primary)).toBeGreaterThan(1);
+    expect(Math.min(...primary)).toBeLessThan(Math.sqrt(1 - 3 / 10));
+    expect(Math.max(...curve.flux.total)).toBeCloseTo(1, 10);
+    // The secondary image is the fainter one
+    expect(Math.max(...curve.flux.secondary)).toBeLessThan(Math.max(...curve.flux.primary));
+    curve.times.forEach(t => {
+      expect(t).toBeGreaterThanOrEqual(0);
+      expect(t).toBeLessThan(orbit.period);
+    });
+  });
+});
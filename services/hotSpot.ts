@@ -0,0 +1,243 @@
+import { EmitterSettings, SpacetimeSettings } from '../types';
+import { getMetric, getHorizons, getISCO, getTortoise, getCriticalImpactParameter, SphericalMetric } from './metrics';
+import { getKeplerianOrbit, getDiskShift } from './accretionDisk';
+
+// A bright spot riding a circular geodesic in the equatorial plane (z = 0), seen by a
+// distant observer in the direction (sin i, 0, cos i). Light from the spot reaches the
+// observer along the great circle through the spot and that direction: the primary
+// image sweeps the angle γ between them, the secondary goes round the other way and
+// sweeps 2π - γ. Both follow from one table of the azimuth swept from the orbit to
+// infinity against the emission angle. Kerr gets its a = 0 limit.
+
+export type HotSpotImage = 'primary' | 'secondary';
+
+interface EmissionTable {
+  alpha: Float64Array; // Emission angle from the outward radial, static frame
+  sweep: Float64Array; // Azimuth swept on the way out, NaN when captured
+  delay: Float64Array; // t - r* on arrival, i.e. observed time minus emission time
+}
+
+export interface HotSpotOrbit {
+  rSpot: number;
+  omega: number; // dφ/dt
+  period: number; // Coordinate time per orbit
+  inclination: number; // Radians from the +Z axis
+  observer: [number, number, number]; // Unit vector towards the observer
+  sqrtFObs: number; // sqrt(f) where the light is received (1 at infinity)
+  metric: SphericalMetric;
+  table: EmissionTable;
+}
+
+const TABLE_SIZE = 768;
+// Orbits that are still going after this much azimuth only matter for images beyond
+// the secondary
+const MAX_SWEEP = 2.5 * Math.PI;
+
+// Angles crowd towards the edge of the escape cone, where the sweep diverges
+function getEmissionTable(metric: SphericalMetric, rSpot: number, rFar: number, rHorizon: number, bCrit: number, tortoise: (r: number) => number): EmissionTable {
+  const { f, df } = metric;
+  const accel = (u: number) => -u * f(1 / u) + 0.5 * df(1 / u);
+  const fSpot = f(rSpot);
+  const sqrtFSpot = Math.sqrt(fSpot);
+  const uFar = 1 / rFar;
+  const uCapture = 1 / (1.0001 * rHorizon);
+  const farIsInfinity = !isFinite(rFar) || rFar > 1e3 * rSpot;
+  const uEnd = farIsInfinity ? 1e-3 / rSpot : uFar;
+
+  // The escape cone is bounded by b = b_crit; outside the photon sphere it opens
+  // past 90° (emission towards the hole that still gets out)
+  const alphaEdge = Math.PI - Math.asin(Math.min(1, (bCrit * sqrtFSpot) / rSpot));
+
+  const alpha = new Float64Array(TABLE_SIZE);
+  const sweep = new Float64Array(TABLE_SIZE);
+  const delay = new Float64Array(TABLE_SIZE);
+  // t - r* is conserved along radial light, so the radial ray arrives with -r*(r_spot)
+  const radialDelay = -tortoise(rSpot);
+  for (let k = 0; k < TABLE_SIZE; k++) {
+    const a = alphaEdge * (1 - Math.exp((-16 * k) / (TABLE_SIZE - 1)));
+    alpha[k] = a;
+    if (k === 0) {
+      sweep[k] = 0;
+      delay[k] = radialDelay;
+      continue;
+    }
+    const b = (rSpot * Math.sin(a)) / sqrtFSpot;
+    const dtdphi = (u: number) => 1 / (b * u * u * f(1 / u));
+    let u = 1 / rSpot;
+    let w = -(sqrtFSpot / rSpot) * (Math.cos(a) / Math.sin(a)); // du/dφ
+    let t = 0;
+    let phi = 0;
+    let result = NaN;
+    let arrival = NaN;
+    while (phi < MAX_SWEEP) {
+      const h = Math.min(0.01, (0.1 * u) / Math.max(Math.abs(w), 1e-12));
+      const k1u = w, k1w = accel(u), k1t = dtdphi(u);
+      const k2u = w + 0.5 * h * k1w, k2w = accel(u + 0.5 * h * k1u), k2t = dtdphi(u + 0.5 * h * k1u);
+      const k3u = w + 0.5 * h * k2w, k3w = accel(u + 0.5 * h * k2u), k3t = dtdphi(u + 0.5 * h * k2u);
+      const k4u = w + h * k3w, k4w = accel(u + h * k3u), k4t = dtdphi(u + h * k3u);
+      const uNext = u + (h / 6) * (k1u + 2 * k2u + 2 * k3u + k4u);
+      const wNext = w + (h / 6) * (k1w + 2 * k2w + 2 * k3w + k4w);
+      const tNext = t + (h / 6) * (k1t + 2 * k2t + 2 * k3t + k4t);
+      if (uNext >= uCapture || !isFinite(uNext)) break;
+      if (uNext <= uEnd) {
+        const s = (u - uEnd) / (u - uNext);
+        const rEnd = 1 / uEnd;
+        result = phi + s * h;
+        arrival = t + s * (tNext - t) - tortoise(rEnd);
+        if (farIsInfinity) {
+          // Beyond rEnd the path is straight: it sweeps asin(b/r) more, and t - r
+          // grows by r - sqrt(r^2 - b^2)
+          result += Math.asin(Math.min(1, b * uEnd));
+          arrival += rEnd - Math.sqrt(Math.max(0, rEnd * rEnd - b * b));
+        }
+        break;
+      }
+      u = uNext;
+      w = wNext;
+      t = tNext;
+      phi += h;
+    }
+    sweep[k] = result;
+    delay[k] = arrival;
+  }
+  return { alpha, sweep, delay };
+}
+
+let cachedTable: { key: string; table: EmissionTable } | null = null;
+
+// Null when the spot has no stable circular orbit to ride (large Λ)
+export function getHotSpotOrbit(mass: number, spacetime: SpacetimeSettings, emitter: EmitterSettings): HotSpotOrbit | null {
+  const spherical: SpacetimeSettings = spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime;
+  const rISCO = getISCO(mass, spherical);
+  if (rISCO === null) return null;
+  const metric = getMetric(mass, spherical);
+  const { event, cosmological } = getHorizons(mass, spherical);
+  const rFar = cosmological !== null ? 0.95 * cosmological : Infinity;
+  const rSpot = Math.min(Math.max(emitter.orbitRadius * mass, rISCO), 0.5 * rFar);
+  const inclination = (emitter.inclination * Math.PI) / 180;
+
+  const key = [mass, spherical.kind, spherical.charge, spherical.cosmologicalConstant, rSpot].join('|');
+  if (cachedTable?.key !== key) {
+    const bCrit = getCriticalImpactParameter(mass, spherical);
+    cachedTable = { key, table: getEmissionTable(metric, rSpot, rFar, event, bCrit, getTortoise(mass, spherical)) };
+  }
+  const { omega } = getKeplerianOrbit(metric, rSpot);
+  return {
+    rSpot,
+    omega,
+    period: (2 * Math.PI) / omega,
+    inclination,
+    observer: [Math.sin(inclination), 0, Math.cos(inclination)],
+    sqrtFObs: isFinite(rFar) ? Math.sqrt(metric.f(rFar)) : 1,
+    metric,
+    table: cachedTable.table,
+  };
+}
+
+export interface HotSpotEmission {
+  alpha: number; // Emission angle from the outward radial, static frame
+  radial: [number, number, number]; // Unit vector to the spot
+  tangent: [number, number, number]; // In-plane direction the photon turns towards
+  b: number;
+  delay: number; // Observed time minus emission time
+  shift: number; // ν_obs/ν_emit
+  flux: number; // Relative to an unlensed, unshifted spot at the same distance
+}
+
+// The photon that leaves the spot at coordinate time tEmit and forms the given image
+export function getHotSpotEmission(orbit: HotSpotOrbit, tEmit: number, image: HotSpotImage): HotSpotEmission | null {
+  const { rSpot, omega, observer, metric, sqrtFObs, table } = orbit;
+  const phase = omega * tEmit;
+  const radial: [number, number, number] = [Math.cos(phase), Math.sin(phase), 0];
+  const cosGamma = radial[0] * observer[0] + radial[1] * observer[1];
+  const gamma = Math.acos(Math.max(-1, Math.min(1, cosGamma)));
+  // Direction from the spot towards the observer within their common plane; when
+  // they line up any plane will do
+  let tangent: [number, number, number] = [observer[0] - cosGamma * radial[0], observer[1] - cosGamma * radial[1], observer[2]];
+  let tLen = Math.hypot(...tangent);
+  if (tLen < 1e-9) {
+    tangent = [0, 0, 1];
+    tLen = 1;
+  }
+  const sign = image === 'primary' ? 1 : -1;
+  tangent = [(sign * tangent[0]) / tLen, (sign * tangent[1]) / tLen, (sign * tangent[2]) / tLen];
+  const target = image === 'primary' ? gamma : 2 * Math.PI - gamma;
+
+  // Sweep grows with the emission angle up to the edge of the escape cone
+  let k = 1;
+  while (k < TABLE_SIZE && table.sweep[k] < target) k++;
+  if (k >= TABLE_SIZE || !isFinite(table.sweep[k]) || !isFinite(table.sweep[k - 1])) return null;
+  const s0 = table.sweep[k - 1];
+  const s1 = table.sweep[k];
+  const x = (target - s0) / (s1 - s0);
+  const alpha = table.alpha[k - 1] + x * (table.alpha[k] - table.alpha[k - 1]);
+  const delay = table.delay[k - 1] + x * (table.delay[k] - table.delay[k - 1]);
+  const dSweep = (s1 - s0) / (table.alpha[k] - table.alpha[k - 1]);
+
+  const b = (rSpot * Math.sin(alpha)) / Math.sqrt(metric.f(rSpot));
+  // L_z/E: the photon turns about radial × tangent
+  const lambdaZ = b * (radial[0] * tangent[1] - radial[1] * tangent[0]);
+  const shift = getDiskShift(metric, rSpot, lambdaZ, sqrtFObs);
+  // Bolometric flux of an isotropic emitter: g^4 times the ratio of emission solid
+  // angle to the solid angle it fills at infinity, sin α / (sin γ dΦ/dα); the flat,
+  // unshifted value of that ratio is 1
+  const focusing = Math.sin(alpha) / (Math.max(Math.sin(gamma), 1e-3) * Math.max(dSweep, 1e-6));
+  return { alpha, radial, tangent, b, delay, shift, flux: shift ** 4 * focusing };
+}
+
+export interface LightCurve {
+  period: number;
+  times: Float64Array; // Observed time t - r* over one period, starting at 0
+  flux: Record<HotSpotImage | 'total', Float64Array>; // Normalised to the peak of the total
+  shift: Record<HotSpotImage, Float64Array>; // ν_obs/ν_emit, NaN when the image is missing
+}
+
+const EMISSION_SAMPLES = 720;
+const CURVE_SAMPLES = 240;
+
+// Observed flux and shift of each image over one period. Emission times map to
+// observed ones through the delay, so the samples are folded on the period and
+// resampled on an even grid.
+export function computeLightCurve(orbit: HotSpotOrbit): LightCurve {
+  const { period } = orbit;
+  const images: HotSpotImage[] = ['primary', 'secondary'];
+  const times = new Float64Array(CURVE_SAMPLES).map((_, j) => (j * period) / CURVE_SAMPLES);
+  const flux = { primary: new Float64Array(CURVE_SAMPLES), secondary: new Float64Array(CURVE_SAMPLES), total: new Float64Array(CURVE_SAMPLES) };
+  const shift = { primary: new Float64Array(CURVE_SAMPLES).fill(NaN), secondary: new Float64Array(CURVE_SAMPLES).fill(NaN) };
+
+  images.forEach(image => {
+    const samples: { t: number; flux: number; shift: number }[] = [];
+    for (let i = 0; i < EMISSION_SAMPLES; i++) {
+      const tEmit = (i * period) / EMISSION_SAMPLES;
+      const emission = getHotSpotEmission(orbit, tEmit, image);
+      if (!emission) continue;
+      const t = (((tEmit + emission.delay) % period) + period) % period;
+      samples.push({ t, flux: emission.flux, shift: emission.shift });
+    }
+    if (samples.length < 2) return;
+    samples.sort((p, q) => p.t - q.t);
+    // Periodic linear interpolation between the folded samples
+    let k = 0;
+    for (let j = 0; j < CURVE_SAMPLES; j++) {
+      const t = times[j];
+      while (k < samples.length && samples[k].t <= t) k++;
+      const lo = samples[(k - 1 + samples.length) % samples.length];
+      const hi = samples[k % samples.length];
+      const tLo = k === 0 ? lo.t - period : lo.t;
+      const tHi = k === samples.length ? hi.t + period : hi.t;
+      const x = tHi > tLo ? (t - tLo) / (tHi - tLo) : 0;
+      flux[image][j] = lo.flux + x * (hi.flux - lo.flux);
+      shift[image][j] = lo.shift + x * (hi.shift - lo.shift);
+    }
+  });
+
+  let peak = 0;
+  for (let j = 0; j < CURVE_SAMPLES; j++) {
+    flux.total[j] = flux.primary[j] + flux.secondary[j];
+    peak = Math.max(peak, flux.total[j]);
+  }
+  if (peak > 0) {
+    for (const key of ['primary', 'secondary', 'total'] as const) flux[key].forEach((v, j) => { flux[key][j] = v / peak; });
+  }
+  return { period, times, flux, shift };
+}
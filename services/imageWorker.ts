@@ -0,0 +1,16 @@
+import { renderObserverImage, ObserverImageRequest, ObserverImageResult, ObserverImageError } from './observerImage';
+
+// Renders one observer image per message; the view drops results for stale jobs
+self.onmessage = (event: MessageEvent<ObserverImageRequest>) => {
+  const request = event.data;
+  let pixels;
+  try {
+    pixels = renderObserverImage(request);
+  } catch (error) {
+    const failure: ObserverImageError = { jobId: request.jobId, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(failure);
+    return;
+  }
+  const result: ObserverImageResult = { jobId: request.jobId, width: request.width, height: request.height, pixels };
+  self.postMessage(result, { transfer: [pixels.buffer as ArrayBuffer] });
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ImpactDistribution } from '../types';
+import { buildRays, createImpactSampler, DEFAULT_IMPACT, getCriticalB } from './physics';
+
+const N = 2000;
+const draw = (distribution: ImpactDistribution, count = N, seed = 1) => {
+  const sample = createImpactSampler({ ...DEFAULT_IMPACT, distribution }, count, seed, 1);
+  return Array.from({ length: count }, () => sample());
+};
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+describe('createImpactSampler', () => {
+  const distributions: ImpactDistribution[] = ['uniform', 'area', 'gaussian', 'log-critical', 'sweep'];
+
+  distributions.forEach(distribution => {
+    it(`keeps ${distribution} draws in range and repeats them for a seed`, () => {
+      const values = draw(distribution);
+      values.forEach(b => {
+        expect(b).toBeGreaterThanOrEqual(DEFAULT_IMPACT.min);
+        expect(b).toBeLessThanOrEqual(DEFAULT_IMPACT.max);
+      });
+      expect(draw(distribution)).toEqual(values);
+    });
+  });
+
+  it('weights the area distribution towards large b', () => {
+    // Uniform in b^2 on [2.5, 7.5]: mean (2/3)(7.5^3 - 2.5^3)/(7.5^2 - 2.5^2) = 5.417
+    // Sample means of 2000 draws are good to about 0.03 (σ ≈ 1.4)
+    expect(Math.abs(mean(draw('uniform')) - 5)).toBeLessThan(0.15);
+    expect(Math.abs(mean(draw('area')) - 5.417)).toBeLessThan(0.15);
+  });
+
+  it('clusters the Gaussian and logarithmic draws around b_crit', () => {
+    const bCrit = getCriticalB(1);
+    const near = (values: number[]) => values.filter(b => Math.abs(b - bCrit) < 0.1).length / values.length;
+    expect(near(draw('uniform'))).toBeLessThan(0.05);
+    expect(near(draw('gaussian'))).toBeGreaterThan(0.1);
+    expect(near(draw('log-critical'))).toBeGreaterThan(0.3);
+  });
+
+  it('sweeps evenly from min to max', () => {
+    expect(draw('sweep', 5)).toEqual([2.5, 3.75, 5, 6.25, 7.5]);
+  });
+
+  it('gives the rays exactly the previewed values', () => {
+    const rays = buildRays(4, 1, 6, 9, 'isotropic', 'random');
+    expect(rays.map(ray => ray.b)).toEqual(draw('uniform', 6, 9));
+  });
+});
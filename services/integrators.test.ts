@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INTEGRATOR, integrate } from './integrators';
+import { buildRays, getCriticalB } from './physics';
+
+// y'' = -y from y = 1, y' = 0: y = cos λ
+const oscillator = (y: Float64Array, out: Float64Array) => {
+  out[0] = y[1];
+  out[1] = -y[0];
+};
+
+function integrateOscillator(method: 'rk4' | 'rk45', until: number) {
+  const y = new Float64Array([1, 0]);
+  let reached = 0;
+  integrate(oscillator, y, { ...DEFAULT_INTEGRATOR, method, step: 0.01, maxStep: 0.1 }, 1e6, (state, lambda) => {
+    reached = lambda;
+    return lambda < until;
+  });
+  return { y: y[0], lambda: reached };
+}
+
+describe('integrate', () => {
+  it('follows a harmonic oscillator with fixed RK4 steps', () => {
+    const { y, lambda } = integrateOscillator('rk4', 10);
+    expect(y).toBeCloseTo(Math.cos(lambda), 8);
+  });
+
+  it('follows a harmonic oscillator with adaptive RK45 steps', () => {
+    const { y, lambda } = integrateOscillator('rk45', 10);
+    expect(y).toBeCloseTo(Math.cos(lambda), 7);
+  });
+
+  it('refuses steps and tolerances that would never advance', () => {
+    const run = (patch: Partial<typeof DEFAULT_INTEGRATOR>) => () =>
+      integrate(oscillator, new Float64Array([1, 0]), { ...DEFAULT_INTEGRATOR, ...patch }, 10, () => true);
+    expect(run({ step: 0 })).toThrow(/steps must be positive/);
+    expect(run({ method: 'rk45', maxStep: -1 })).toThrow(/steps must be positive/);
+    expect(run({ method: 'rk45', absTol: 0 })).toThrow(/tolerances must be positive/);
+    expect(run({ relTol: NaN })).toThrow(/tolerances must be positive/);
+    expect(() => buildRays(4, 1, 1, 1, 'planar', 'fixed', { integrator: { ...DEFAULT_INTEGRATOR, step: 0 } })).toThrow();
+  });
+});
+
+describe('buildRays', () => {
+  const smallStep = { integrator: { ...DEFAULT_INTEGRATOR, step: 0.005 } };
+
+  it('lets light below b_crit reach the horizon at the smallest RK4 step', () => {
+    const [ray] = buildRays(0.5 * getCriticalB(1), 1, 1, 1, 'planar', 'fixed', smallStep);
+    expect(ray.crossed).toBe(true);
+  });
+
+  it('lets light above b_crit escape at the smallest RK4 step', () => {
+    const [ray] = buildRays(2 * getCriticalB(1), 1, 1, 1, 'planar', 'fixed', smallStep);
+    expect(ray.escaped).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+import { IntegratorSettings } from '../types';
+
+// Right-hand side of an autonomous first-order system: writes dy/dλ into `out`.
+export type Derivative = (y: Float64Array, out: Float64Array) => void;
+
+// Called after every accepted step with the new state, the affine parameter
+// reached and the step that got us there. Return false to stop integrating.
+export type StepCallback = (y: Float64Array, lambda: number, h: number) => boolean;
+
+export const DEFAULT_INTEGRATOR: IntegratorSettings = {
+  method: 'rk4',
+  step: 0.05,
+  absTol: 1e-9,
+  relTol: 1e-9,
+  maxStep: 1.0,
+};
+
+const MIN_STEP = 1e-12;
+
+// Classic fixed-step fourth order Runge-Kutta.
+function integrateRK4(deriv: Derivative, y: Float64Array, settings: IntegratorSettings, maxSteps: number, onStep: StepCallback) {
+  const n = y.length;
+  const h = settings.step;
+  const k1 = new Float64Array(n);
+  const k2 = new Float64Array(n);
+  const k3 = new Float64Array(n);
+  const k4 = new Float64Array(n);
+  const tmp = new Float64Array(n);
+  let lambda = 0;
+
+  for (let i = 0; i < maxSteps; i++) {
+    deriv(y, k1);
+    for (let j = 0; j < n; j++) tmp[j] = y[j] + 0.5 * h * k1[j];
+    deriv(tmp, k2);
+    for (let j = 0; j < n; j++) tmp[j] = y[j] + 0.5 * h * k2[j];
+    deriv(tmp, k3);
+    for (let j = 0; j < n; j++) tmp[j] = y[j] + h * k3[j];
+    deriv(tmp, k4);
+    for (let j = 0; j < n; j++) y[j] += (h / 6) * (k1[j] + 2 * k2[j] + 2 * k3[j] + k4[j]);
+    lambda += h;
+    if (!onStep(y, lambda, h)) return;
+  }
+}
+
+// Dormand-Prince 5(4) tableau
+const C2 = 1 / 5, C3 = 3 / 10, C4 = 4 / 5, C5 = 8 / 9;
+const A21 = 1 / 5;
+const A31 = 3 / 40, A32 = 9 / 40;
+const A41 = 44 / 45, A42 = -56 / 15, A43 = 32 / 9;
+const A51 = 19372 / 6561, A52 = -25360 / 2187, A53 = 64448 / 6561, A54 = -212 / 729;
+const A61 = 9017 / 3168, A62 = -355 / 33, A63 = 46732 / 5247, A64 = 49 / 176, A65 = -5103 / 18656;
+const B1 = 35 / 384, B3 = 500 / 1113, B4 = 125 / 192, B5 = -2187 / 6784, B6 = 11 / 84;
+// Difference between the 5th and embedded 4th order weights
+const E1 = 71 / 57600, E3 = -71 / 16695, E4 = 71 / 1920, E5 = -17253 / 339200, E6 = 22 / 525, E7 = -1 / 40;
+
+// Adaptive Dormand-Prince RK45 with mixed absolute/relative error control.
+// Uses the first-same-as-last property, so an accepted step costs six evaluations.
+function integrateRK45(deriv: Derivative, y: Float64Array, settings: IntegratorSettings, maxSteps: number, onStep: StepCallback) {
+  const n = y.length;
+  const { absTol, relTol } = settings;
+  const maxStep = settings.maxStep;
+  const k1 = new Float64Array(n);
+  const k2 = new Float64Array(n);
+  const k3 = new Float64Array(n);
+  const k4 = new Float64Array(n);
+  const k5 = new Float64Array(n);
+  const k6 = new Float64Array(n);
+  const k7 = new Float64Array(n);
+  const tmp = new Float64Array(n);
+  const yNew = new Float64Array(n);
+
+  let h = Math.min(settings.step, maxStep);
+  let lambda = 0;
+  let accepted = 0;
+  // Guard against tolerance settings that would otherwise loop forever
+  const maxAttempts = maxSteps * 20;
+
+  deriv(y, k1);
+  for (let attempt = 0; attempt < maxAttempts && accepted < maxSteps; attempt++) {
+    for (let j = 0; j < n; j++) tmp[j] = y[j] + h * A21 * k1[j];
+    deriv(tmp, k2);
+    for (let j = 0; j < n; j++) tmp[j] = y[j] + h * (A31 * k1[j] + A32 * k2[j]);
+    deriv(tmp, k3);
+    for (let j = 0; j < n; j++) tmp[j] = y[j] + h * (A41 * k1[j] + A42 * k2[j] + A43 * k3[j]);
+    deriv(tmp, k4);
+    for (let j = 0; j < n; j++) tmp[j] = y[j] + h * (A51 * k1[j] + A52 * k2[j] + A53 * k3[j] + A54 * k4[j]);
+    deriv(tmp, k5);
+    for (let j = 0; j < n; j++) tmp[j] = y[j] + h * (A61 * k1[j] + A62 * k2[j] + A63 * k3[j] + A64 * k4[j] + A65 * k5[j]);
+    deriv(tmp, k6);
+    for (let j = 0; j < n; j++) yNew[j] = y[j] + h * (B1 * k1[j] + B3 * k3[j] + B4 * k4[j] + B5 * k5[j] + B6 * k6[j]);
+    deriv(yNew, k7);
+
+    // RMS of the scaled local error estimate
+    let errSq = 0;
+    for (let j = 0; j < n; j++) {
+      const e = h * (E1 * k1[j] + E3 * k3[j] + E4 * k4[j] + E5 * k5[j] + E6 * k6[j] + E7 * k7[j]);
+      const scale = absTol + relTol * Math.max(Math.abs(y[j]), Math.abs(yNew[j]));
+      errSq += (e / scale) * (e / scale);
+    }
+    const err = Math.sqrt(errSq / n);
+
+    if (!isFinite(err)) {
+      // Stepped into a singular region; retry with a much smaller step
+      h *= 0.1;
+      if (h < MIN_STEP) return;
+      continue;
+    }
+
+    const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(err, -0.2)));
+
+    if (err <= 1 || h <= MIN_STEP) {
+      const taken = h;
+      lambda += taken;
+      y.set(yNew);
+      k1.set(k7);
+      accepted++;
+      h = Math.min(h * factor, maxStep);
+      if (!onStep(y, lambda, taken)) return;
+    } else {
+      h = Math.max(h * factor, MIN_STEP);
+    }
+  }
+}
+
+// Adaptive settings for the run from the horizon to r = 0, where the fields blow up
+// and no fixed step resolves them. Keeps the user's tolerances when they chose RK45,
+// and never steps further than the exterior integration did.
+export function getInteriorSettings(settings: IntegratorSettings, h: number): IntegratorSettings {
+  const adaptive = settings.method === 'rk45';
+  return {
+    method: 'rk45',
+    step: h,
+    absTol: adaptive ? settings.absTol : DEFAULT_INTEGRATOR.absTol,
+    relTol: adaptive ? settings.relTol : DEFAULT_INTEGRATOR.relTol,
+    maxStep: adaptive ? settings.maxStep : settings.step,
+  };
+}
+
+// Throws on a step, step bound or tolerance that is not positive, with which the
+// integration would never advance
+export function checkIntegratorSettings(settings: IntegratorSettings) {
+  const { step, maxStep, absTol, relTol } = settings;
+  if (!(step > 0) || !(maxStep > 0)) throw new Error(`Integrator steps must be positive (step ${step}, max ${maxStep})`);
+  if (!(absTol > 0) || !(relTol > 0)) throw new Error(`Integrator tolerances must be positive (abs ${absTol}, rel ${relTol})`);
+}
+
+// Integrates `deriv` from the state `y` (modified in place), reporting each
+// accepted step through `onStep` until it returns false or `maxSteps` is reached.
+export function integrate(deriv: Derivative, y: Float64Array, settings: IntegratorSettings, maxSteps: number, onStep: StepCallback) {
+  checkIntegratorSettings(settings);
+  if (settings.method === 'rk45') {
+    integrateRK45(deriv, y, settings, maxSteps, onStep);
+  } else {
+    integrateRK4(deriv, y, settings, maxSteps, onStep);
+  }
+}
+
+// Parameter still needed for a coordinate x to reach 0, given two samples (x, dx/dλ)
+// near the end of an integration. Assumes the power law |dx/dλ| ∝ x^-p seen close to
+// a curvature singularity, for which Δλ = x / ((1 + p)|dx/dλ|).
+export function extrapolateToZero(x0: number, v0: number, x1: number, v1: number) {
+  const speed = Math.abs(v1);
+  if (speed === 0) return Infinity;
+  let p = 0;
+  if (x0 !== x1 && v0 !== 0 && x0 > 0 && x1 > 0) {
+    p = -Math.log(Math.abs(v1 / v0)) / Math.log(x1 / x0);
+  }
+  if (!isFinite(p) || p <= -1) p = 0;
+  return x1 / ((1 + p) * speed);
+}
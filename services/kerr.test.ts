@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ParticleSettings, SpacetimeSettings } from '../types';
+import { getKerrCriticalB, getKerrHorizons, getKerrPhotonOrbitRadii, getKerrRadialPotential } from './kerr';
+import { buildRays, DEFAULT_EMITTER, DEFAULT_PARTICLE, DEFAULT_SPACETIME } from './physics';
+
+const kerr = (spin: number): SpacetimeSettings => ({ ...DEFAULT_SPACETIME, kind: 'kerr', spin });
+
+describe('Kerr as a -> 0', () => {
+  it('has the Schwarzschild horizon, photon sphere and b_crit', () => {
+    expect(getKerrHorizons(1, 0).outer).toBeCloseTo(2, 12);
+    const { prograde, retrograde } = getKerrPhotonOrbitRadii(1, 0);
+    expect(prograde).toBeCloseTo(3, 12);
+    expect(retrograde).toBeCloseTo(3, 12);
+    expect(getKerrCriticalB(1, 0).prograde).toBeCloseTo(3 * Math.sqrt(3), 12);
+  });
+
+  it('has the radial potential r^4 (E^2 - V_eff)', () => {
+    const E = 0.97;
+    const L = 4;
+    const R = getKerrRadialPotential(1, 0, 1, E, 0.6 * L, 0.64 * L * L);
+    [3, 7.5, 20].forEach(r => {
+      expect(R(r)).toBeCloseTo(r ** 4 * (E * E - (1 - 2 / r) * (1 + (L * L) / (r * r))), 8);
+    });
+  });
+
+  it('bends light like Schwarzschild', () => {
+    const [schwarzschild] = buildRays(8, 1, 1, 1, 'planar', 'fixed', { spacetime: DEFAULT_SPACETIME });
+    const [limit] = buildRays(8, 1, 1, 1, 'planar', 'fixed', { spacetime: kerr(1e-6) });
+    expect(limit.escaped).toBe(true);
+    expect(limit.deflection).toBeCloseTo(schwarzschild.deflection, 2);
+  });
+
+  it('launches massive particles on the Schwarzschild orbit', () => {
+    // Energy and angular momentum given directly, so the launch is not at a turning point
+    const particle: ParticleSettings = { ...DEFAULT_PARTICLE, type: 'massive', spec: 'energy', energy: 0.98, angularMomentum: 4.2 };
+    const [schwarzschild] = buildRays(4, 1, 1, 1, 'isotropic', 'fixed', { particle, spacetime: DEFAULT_SPACETIME });
+    const [limit] = buildRays(4, 1, 1, 1, 'isotropic', 'fixed', { particle, spacetime: kerr(1e-6) });
+    expect(limit.rMin).toBeCloseTo(schwarzschild.rMin, 2);
+  });
+});
+
+describe('Kerr local emitter', () => {
+  const emit = (spin: number, radius: number, angle: number) => {
+    const emitter = { ...DEFAULT_EMITTER, mode: 'local' as const, radius, angle };
+    const spacetime = spin === 0 ? DEFAULT_SPACETIME : kerr(spin);
+    return buildRays(4, 1, 1, 1, 'planar', 'fixed', { spacetime, emitter })[0];
+  };
+
+  it('matches the Schwarzschild emitter as a -> 0', () => {
+    [110, 116].forEach(angle => {
+      const schwarzschild = emit(0, 4, angle);
+      const limit = emit(1e-6, 4, angle);
+      expect(limit.crossed).toBe(schwarzschild.crossed);
+      expect(limit.rMin).toBeCloseTo(schwarzschild.rMin, 2);
+    });
+  });
+
+  it('sends light aimed inward below the emitter', () => {
+    const ray = emit(0.9, 4, 110);
+    expect(ray.escaped).toBe(true);
+    expect(ray.rMin).toBeLessThan(ray.points[0].r - 0.1);
+  });
+
+  it('emits from inside the ergoregion', () => {
+    const outward = emit(0.9, 1.9, 0);
+    const inward = emit(0.9, 1.9, 180);
+    expect(outward.escaped).toBe(true);
+    expect(inward.crossed).toBe(true);
+    expect(outward.maxConstraintError).toBeLessThan(1e-6);
+  });
+});
@@ -0,0 +1,323 @@
+import { Point3D, IntegratorSettings } from '../types';
+import { integrate, extrapolateToZero, getInteriorSettings, DEFAULT_INTEGRATOR } from './integrators';
+
+// Kerr spacetime with the spin axis along +z. Spin `a` is the absolute value (0 <= a < M).
+// Radial and polar motion use Boyer-Lindquist r and θ; the azimuth is the ingoing
+// Kerr-Schild angle φ̃ (dφ̃ = dφ + a dr/Δ), which stays finite across the horizons.
+
+export function getKerrHorizons(mass: number, a: number) {
+  const d = Math.sqrt(Math.max(0, mass * mass - a * a));
+  return { outer: mass + d, inner: mass - d };
+}
+
+// Tortoise coordinate r* = ∫ (r^2 + a^2)/Δ dr, up to a constant
+export function getKerrTortoise(mass: number, a: number) {
+  const { outer, inner } = getKerrHorizons(mass, a);
+  const gap = outer - inner;
+  return (r: number) =>
+    r + ((2 * mass * outer) / gap) * Math.log(Math.abs(r - outer)) - ((2 * mass * inner) / gap) * Math.log(Math.abs(r - inner));
+}
+
+// Static limit r_E(θ) = M + sqrt(M^2 - a^2 cos^2 θ)
+export function getKerrErgosphereRadius(mass: number, a: number, cosTheta: number) {
+  return mass + Math.sqrt(Math.max(0, mass * mass - a * a * cosTheta * cosTheta));
+}
+
+// Equatorial circular photon orbits: r = 2M{1 + cos[(2/3) arccos(∓a/M)]}
+export function getKerrPhotonOrbitRadii(mass: number, a: number) {
+  const chi = Math.min(1, a / mass);
+  return {
+    prograde: 2 * mass * (1 + Math.cos((2 / 3) * Math.acos(-chi))),
+    retrograde: 2 * mass * (1 + Math.cos((2 / 3) * Math.acos(chi))),
+  };
+}
+
+// Critical impact parameters b = L/E of the equatorial photon orbits
+export function getKerrCriticalB(mass: number, a: number) {
+  const { prograde, retrograde } = getKerrPhotonOrbitRadii(mass, a);
+  // Sign-free form of the Bardeen relation: |b| = 3 sqrt(M r_ph) ∓ a
+  return {
+    prograde: 3 * Math.sqrt(mass * prograde) - a,
+    retrograde: 3 * Math.sqrt(mass * retrograde) + a,
+  };
+}
+
+// Kerr-Schild Cartesian frame used by the canvas: x + iy = (r + ia) e^{iφ̃} sin θ,
+// z = r cos θ. Surfaces of constant r are oblate spheroids of equatorial radius
+// sqrt(r^2 + a^2), and ingoing principal null rays are straight lines.
+export function kerrSchildToCartesian(r: number, theta: number, phi: number, a: number) {
+  const st = Math.sin(theta);
+  const c = Math.cos(phi);
+  const s = Math.sin(phi);
+  return {
+    x: (r * c - a * s) * st,
+    y: (r * s + a * c) * st,
+    z: r * Math.cos(theta),
+  };
+}
+
+export function cartesianToKerrSchild(x: number, y: number, z: number, a: number) {
+  const w = x * x + y * y + z * z - a * a;
+  const r = Math.sqrt(0.5 * (w + Math.sqrt(w * w + 4 * a * a * z * z)));
+  const theta = Math.acos(Math.max(-1, Math.min(1, r > 0 ? z / r : 0)));
+  return { r, theta, phi: Math.atan2(y, x) - Math.atan2(a, r) };
+}
+
+// Carter's radial potential R(r) = P^2 - Δ(κr^2 + K), with P = (r^2 + a^2)E - aL_z and
+// K = (L_z - aE)^2 + Q; (Σ dr/dλ)^2 = R. For a = 0 it is r^4 (E^2 - V_eff) with L^2 = L_z^2 + Q.
+export function getKerrRadialPotential(mass: number, a: number, kappa: 0 | 1, energy: number, Lz: number, carterQ: number) {
+  const K = (Lz - a * energy) * (Lz - a * energy) + carterQ;
+  return (r: number) => {
+    const P = (r * r + a * a) * energy - a * Lz;
+    const delta = r * r - 2 * mass * r + a * a;
+    return P * P - delta * (kappa * r * r + K);
+  };
+}
+
+export interface KerrLaunch {
+  position: [number, number, number]; // Cartesian start point
+  direction: [number, number, number]; // Unit direction of motion at the start point
+  planeNormal: [number, number, number]; // Unit orbital angular momentum direction
+  kappa: 0 | 1; // 0 for light, 1 for massive particles
+  energy: number;
+  angularMomentum: number; // Total L; split into L_z and Carter Q by the plane orientation
+  // Light emitted at the start point: `direction` is then taken in the frame of the
+  // local zero-angular-momentum observer and fixes L_z and Q itself
+  emitted?: boolean;
+}
+
+// Constants of light sent out along (nR, nTheta, nPhi) in the orthonormal frame of the
+// zero-angular-momentum observer at (r, θ), who exists everywhere outside the horizon,
+// ergoregion included. With A = (r^2 + a^2)^2 - a^2 Δ sin^2θ, that observer has lapse
+// sqrt(ΣΔ/A) and angular velocity 2Mar/A, so light of unit local energy has
+// L_z = nPhi sinθ sqrt(A/Σ), E = sqrt(ΣΔ/A) + 2Mar L_z/A and p_θ = nTheta sqrt(Σ).
+// They are scaled to E = 1 like other light, except where |E| drops below the lapse:
+// light sent against the rotation inside the ergoregion can have E near 0, or below
+// it, and then only falls in. For a = 0 this is the static frame, where
+// L_z/E = r sinα / sqrt(1 - 2M/r).
+function getZamoEmission(mass: number, a: number, r: number, theta: number, nTheta: number, nPhi: number) {
+  const s = Math.sin(theta);
+  const sigma = r * r + a * a * Math.cos(theta) ** 2;
+  const delta = r * r - 2 * mass * r + a * a;
+  const A = (r * r + a * a) ** 2 - a * a * delta * s * s;
+  const lapse = Math.sqrt((sigma * delta) / A);
+  const Lz = nPhi * s * Math.sqrt(A / sigma);
+  const E = lapse + (2 * mass * a * r * Lz) / A;
+  const scale = Math.max(Math.abs(E), lapse);
+  return { energy: E / scale, Lz: Lz / scale, pTheta: (nTheta * Math.sqrt(sigma)) / scale };
+}
+
+interface KerrTrajectoryOptions {
+  integrator?: IntegratorSettings;
+  maxSteps?: number;
+  rEscape?: number;
+}
+
+export interface KerrTrajectoryResult {
+  points: Point3D[];
+  crossed: boolean;
+  escaped: boolean;
+  turned: boolean;
+  stepSizes: number[];
+  maxConstraintError: number;
+  horizonIndex: number;
+  singularityLambda: number;
+}
+
+// Interior rays are followed until r drops below this fraction of M
+const SINGULARITY_LIMIT = 0.05;
+
+// State layout: [r, dr/dσ, θ, dθ/dσ, φ̃, v] with Mino time dσ = dλ/Σ and the
+// ingoing time v = t + r*
+const R = 0, VR = 1, TH = 2, VTH = 3, PHI = 4, V = 5;
+
+// Integrates a Kerr geodesic in affine parameter λ using Carter's separated
+// equations in second-order form. With R(r) and Θ(θ) the radial and polar
+// potentials, d²r/dσ² = R'(r)/2 and d²θ/dσ² = Θ'(θ)/2, which (as in the
+// Schwarzschild integrator) passes through turning points without sign tracking.
+// Captured rays continue through the outer horizon until they reach r = 0 or turn
+// around inside the inner horizon.
+export function computeKerrTrajectory(launch: KerrLaunch, mass: number, a: number, opts: KerrTrajectoryOptions = {}): KerrTrajectoryResult {
+  const integrator = opts.integrator ?? DEFAULT_INTEGRATOR;
+  const maxSteps = opts.maxSteps ?? 6000;
+  const rEscape = opts.rEscape ?? 150;
+  const rHorizon = getKerrHorizons(mass, a).outer;
+  const rSingularity = SINGULARITY_LIMIT * mass;
+  // Boyer-Lindquist t = v - r*(r), defined outside the outer horizon
+  const tortoise = getKerrTortoise(mass, a);
+
+  const { kappa } = launch;
+  const a2 = a * a;
+
+  const start = cartesianToKerrSchild(launch.position[0], launch.position[1], launch.position[2], a);
+  // Local spherical basis at the launch point (far out, so the flat-space one)
+  const azimuth = Math.atan2(launch.position[1], launch.position[0]);
+  const st0 = Math.sin(start.theta);
+  const ct0 = Math.cos(start.theta);
+  const sp0 = Math.sin(azimuth);
+  const cp0 = Math.cos(azimuth);
+  const [nx, ny, nz] = launch.direction;
+  const nR = nx * st0 * cp0 + ny * st0 * sp0 + nz * ct0;
+  const nTheta = nx * ct0 * cp0 + ny * ct0 * sp0 - nz * st0;
+  const nPhi = -nx * sp0 + ny * cp0;
+
+  // Conserved quantities: from the emitter's frame for emitted light, otherwise from
+  // the launch orientation (exact in the far field)
+  const L = launch.angularMomentum;
+  const s02 = Math.max(st0 * st0, 1e-12);
+  const emission = launch.emitted && kappa === 0 ? getZamoEmission(mass, a, start.r, start.theta, nTheta, nPhi) : null;
+  const Lz = emission ? launch.energy * emission.Lz : L * launch.planeNormal[2];
+  const pTheta = emission
+    ? launch.energy * emission.pTheta
+    : Math.sign(nTheta) * Math.sqrt(Math.max(0, L * L - (Lz * Lz) / s02));
+  const carterQ = (energy: number) => pTheta * pTheta + ct0 * ct0 * ((Lz * Lz) / s02 + a2 * (kappa - energy * energy));
+  const radialAt = (r: number, energy: number) => getKerrRadialPotential(mass, a, kappa, energy, Lz, carterQ(energy))(r);
+
+  // Close to the hole the flat-space split can leave the launch point marginally
+  // inside the forbidden region (R < 0). Since vr^2 - R is conserved, that offset
+  // would grow into a large error at small r, so raise E just enough to make the
+  // launch point an exact turning point instead. Emitted light needs none of this.
+  let E = emission ? emission.energy * launch.energy : launch.energy;
+  if (!emission && radialAt(start.r, E) < 0) {
+    let lo = E;
+    let hi = E * 1.01 + 1e-6;
+    while (radialAt(start.r, hi) < 0 && hi < 10 * E + 1) hi *= 1.5;
+    for (let k = 0; k < 80; k++) {
+      const mid = 0.5 * (lo + hi);
+      if (radialAt(start.r, mid) < 0) lo = mid; else hi = mid;
+    }
+    E = hi;
+  }
+  const Q = carterQ(E);
+  const K = (Lz - a * E) * (Lz - a * E) + Q;
+
+  const radial = (r: number) => radialAt(r, E);
+  const polar = (theta: number) => {
+    const c = Math.cos(theta);
+    const s2 = Math.max(Math.sin(theta) ** 2, 1e-12);
+    return Q - c * c * (a2 * (kappa - E * E) + (Lz * Lz) / s2);
+  };
+
+  const deriv = (y: Float64Array, out: Float64Array) => {
+    const r = y[R];
+    const c = Math.cos(y[TH]);
+    let s = Math.sin(y[TH]);
+    if (Math.abs(s) < 1e-9) s = s < 0 ? -1e-9 : 1e-9;
+    const s2 = s * s;
+    const r2 = r * r;
+    const sigma = r2 + a2 * c * c;
+    const delta = r2 - 2 * mass * r + a2;
+    const P = (r2 + a2) * E - a * Lz;
+
+    // R'(r) and Θ'(θ)
+    const dR = 4 * r * E * P - 2 * (r - mass) * (kappa * r2 + K) - 2 * kappa * r * delta;
+    const dTheta = 2 * a2 * (kappa - E * E) * c * s + (2 * Lz * Lz * c) / (s2 * s);
+    // dφ̃/dσ = -(aE - Lz/sin²θ) + a(P + dr/dσ)/Δ. On the ingoing branch the second
+    // term equals a(κr² + K)/(P - dr/dσ), which has no pole at Δ = 0.
+    const vr = y[VR];
+    const dPhi = -(a * E - Lz / s2) + (vr < 0 ? (a * (kappa * r2 + K)) / (P - vr) : (a * (P + vr)) / delta);
+
+    out[R] = y[VR] / sigma;
+    out[VR] = (0.5 * dR) / sigma;
+    out[TH] = y[VTH] / sigma;
+    out[VTH] = (0.5 * dTheta) / sigma;
+    out[PHI] = dPhi / sigma;
+    // dv/dσ = (r^2 + a^2)(P + dr/dσ)/Δ - a(aE sin²θ - Lz), regularised the same way
+    const rho2 = r2 + a2;
+    out[V] = ((vr < 0 ? (rho2 * (kappa * r2 + K)) / (P - vr) : (rho2 * (P + vr)) / delta) - a * (a * E * s2 - Lz)) / sigma;
+  };
+
+  const y = new Float64Array(6);
+  y[R] = start.r;
+  y[VR] = Math.sign(nR) * Math.sqrt(Math.max(0, radial(start.r)));
+  y[TH] = start.theta;
+  y[VTH] = pTheta;
+  y[PHI] = start.phi;
+  y[V] = tortoise(start.r); // t = 0 at launch
+
+  let crossed = false;
+  let escaped = false;
+  let turned = false;
+  let maxConstraintError = 0;
+  let horizonIndex = -1;
+  let singularityLambda = NaN;
+  let prevR = y[R];
+  let prevDr = y[VR] / (y[R] * y[R] + a2 * ct0 * ct0);
+
+  // Static observers (at fixed r, θ, φ) exist outside the ergosphere, where
+  // -g_tt = 1 - 2Mr/Σ > 0; they see ν/ν_emit = sqrt(g_tt(emit)/g_tt(here)).
+  const gtt = (r: number, theta: number) => 1 - (2 * mass * r) / (r * r + a2 * Math.cos(theta) ** 2);
+  const gttEmit = gtt(start.r, start.theta);
+  const toPoint = (state: Float64Array, lambda: number): Point3D => {
+    const { x, y: yy, z } = kerrSchildToCartesian(state[R], state[TH], state[PHI], a);
+    const g = gtt(state[R], state[TH]);
+    const shift = g > 0 && gttEmit > 0 ? Math.sqrt(gttEmit / g) : NaN;
+    const t = state[R] > rHorizon ? state[V] - tortoise(state[R]) : NaN;
+    return { r: state[R], phi: state[PHI], x, y: yy, z, lambda, t, shift, crossed, escaped, turned };
+  };
+
+  const points: Point3D[] = [toPoint(y, 0)];
+  const stepSizes: number[] = [];
+
+  let lambdaHorizon = 0;
+  let lastStep = integrator.step;
+
+  integrate(deriv, y, integrator, maxSteps, (state, lambda, h) => {
+    const r = state[R];
+    if (!isFinite(r) || !isFinite(state[TH]) || !isFinite(state[PHI])) return false;
+    const sigma = r * r + a2 * Math.cos(state[TH]) ** 2;
+    // Radial turning point: dr/dλ changes sign from inward to outward
+    if (prevDr <= 0 && state[VR] > 0) turned = true;
+    prevR = r;
+    prevDr = state[VR] / sigma;
+
+    points.push(toPoint(state, lambda));
+    stepSizes.push(h);
+
+    if (r > rEscape && state[VR] > 0 && E * E >= kappa) {
+      escaped = true;
+      return false;
+    }
+    if (r < rHorizon) {
+      crossed = true;
+      horizonIndex = points.length - 1;
+      lambdaHorizon = lambda;
+      lastStep = h;
+      return false;
+    }
+    // Same normalisation as the Schwarzschild constraint: (dr/dλ)^2 - R/Σ^2
+    maxConstraintError = Math.max(
+      maxConstraintError,
+      Math.abs(state[VR] * state[VR] - radial(r)) / (sigma * sigma),
+      Math.abs(state[VTH] * state[VTH] - polar(state[TH])) / sigma
+    );
+    return true;
+  });
+
+  if (crossed) {
+    integrate(deriv, y, getInteriorSettings(integrator, lastStep), maxSteps, (state, lambda, h) => {
+      const r = state[R];
+      if (!isFinite(r) || !isFinite(state[TH]) || !isFinite(state[PHI]) || r <= 0) return false;
+      const dr = state[VR] / (r * r + a2 * Math.cos(state[TH]) ** 2);
+      points.push(toPoint(state, lambdaHorizon + lambda));
+      stepSizes.push(h);
+      if (r < rSingularity) {
+        singularityLambda = lambdaHorizon + lambda + extrapolateToZero(prevR, prevDr, r, dr);
+        return false;
+      }
+      // Turned around inside the inner horizon: bound for another exterior region
+      if (state[VR] > 0) return false;
+      prevR = r;
+      prevDr = dr;
+      return true;
+    });
+  }
+
+  for (let j = 0; j < points.length; j++) {
+    points[j].crossed = crossed;
+    points[j].escaped = escaped;
+    points[j].turned = turned;
+  }
+
+  return { points, crossed, escaped, turned, stepSizes, maxConstraintError, horizonIndex, singularityLambda };
+}
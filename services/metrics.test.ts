@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { SpacetimeSettings } from '../types';
+import { getCriticalImpactParameter, getHorizons, getISCO, getMetric, getPhotonSphere, getTortoise } from './metrics';
+import { getObserverClockFactor } from './playback';
+import { DEFAULT_SPACETIME } from './physics';
+
+const spacetimes: Record<string, SpacetimeSettings> = {
+  schwarzschild: DEFAULT_SPACETIME,
+  'reissner-nordstrom': { ...DEFAULT_SPACETIME, kind: 'reissner-nordstrom', charge: 0.8 },
+  'schwarzschild-de-sitter': { ...DEFAULT_SPACETIME, kind: 'schwarzschild-de-sitter', cosmologicalConstant: 0.01 },
+};
+
+// Central difference of the tortoise coordinate
+const slope = (tortoise: (r: number) => number, r: number) => (tortoise(r + 1e-5) - tortoise(r - 1e-5)) / 2e-5;
+
+describe('charged and de Sitter holes', () => {
+  Object.entries(spacetimes).forEach(([name, spacetime]) => {
+    it(`has f = 0 on the horizons of ${name}`, () => {
+      const { f } = getMetric(1, spacetime);
+      const { event, inner, cosmological } = getHorizons(1, spacetime);
+      [event, inner, cosmological].forEach(r => {
+        if (r !== null && r > 0) expect(f(r)).toBeCloseTo(0, 10);
+      });
+    });
+
+    it(`puts the photon sphere of ${name} at the peak of f/r^2, with b_crit = 1/sqrt(max f/r^2)`, () => {
+      const { f } = getMetric(1, spacetime);
+      const rPh = getPhotonSphere(1, spacetime);
+      const w = (r: number) => f(r) / (r * r);
+      expect(w(rPh)).toBeGreaterThan(w(rPh - 0.01));
+      expect(w(rPh)).toBeGreaterThan(w(rPh + 0.01));
+      expect(getCriticalImpactParameter(1, spacetime)).toBeCloseTo(1 / Math.sqrt(w(rPh)), 10);
+    });
+  });
+
+  it('moves the horizon and ISCO of Reissner-Nordström inward', () => {
+    const spacetime = spacetimes['reissner-nordstrom'];
+    const { event, inner } = getHorizons(1, spacetime);
+    expect(event).toBeCloseTo(1.6, 12);
+    expect(inner).toBeCloseTo(0.4, 12);
+    expect(getISCO(1, spacetime)).toBeLessThan(6);
+  });
+});
+
+describe('getTortoise', () => {
+  Object.entries(spacetimes).forEach(([name, spacetime]) => {
+    it(`has dr*/dr = 1/f for ${name}`, () => {
+      const { f } = getMetric(1, spacetime);
+      const tortoise = getTortoise(1, spacetime);
+      [2.5, 4, 9].forEach(r => expect(slope(tortoise, r)).toBeCloseTo(1 / f(r), 5));
+    });
+  });
+
+  it('has dr*/dr = (r^2 + a^2)/Δ for Kerr', () => {
+    const a = 0.9;
+    const tortoise = getTortoise(1, { ...DEFAULT_SPACETIME, kind: 'kerr', spin: a });
+    [2.5, 4, 9].forEach(r => expect(slope(tortoise, r)).toBeCloseTo((r * r + a * a) / (r * r - 2 * r + a * a), 5));
+  });
+});
+
+describe('getObserverClockFactor', () => {
+  it('runs the Kerr observer clock at the equatorial static rate', () => {
+    expect(getObserverClockFactor(1, { ...DEFAULT_SPACETIME, kind: 'kerr', spin: 0.9 }, 10)).toBeCloseTo(Math.sqrt(1 - 2 / 10), 12);
+  });
+
+  it('keeps Kerr observers outside the ergosphere', () => {
+    // r_+ < 1.5M < 2M: no static observer there, so the clock is held just outside r = 2M
+    expect(getObserverClockFactor(1, { ...DEFAULT_SPACETIME, kind: 'kerr', spin: 0.9 }, 1.5)).toBeGreaterThan(0);
+  });
+});
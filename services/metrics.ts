@@ -0,0 +1,150 @@
+import { SpacetimeSettings } from '../types';
+import { getKerrHorizons, getKerrPhotonOrbitRadii, getKerrCriticalB, getKerrTortoise } from './kerr';
+
+// Static, spherically symmetric metrics ds^2 = -f dt^2 + dr^2/f + r^2 dΩ^2.
+// Charge Q is stored in units of M and Λ in units of 1/M^2, so the shape of
+// each spacetime does not change when the mass slider moves.
+
+export interface SphericalMetric {
+  f: (r: number) => number;
+  df: (r: number) => number; // f'(r)
+}
+
+export interface HorizonRadii {
+  event: number; // Outer (black hole) event horizon
+  inner: number | null; // Cauchy horizon (Reissner-Nordström, Kerr)
+  cosmological: number | null; // Schwarzschild-de Sitter
+}
+
+export function getCharge(mass: number, spacetime: SpacetimeSettings) {
+  return spacetime.kind === 'reissner-nordstrom' ? spacetime.charge * mass : 0;
+}
+
+export function getCosmologicalConstant(mass: number, spacetime: SpacetimeSettings) {
+  return spacetime.kind === 'schwarzschild-de-sitter' ? spacetime.cosmologicalConstant / (mass * mass) : 0;
+}
+
+// Kerr is not spherically symmetric; callers integrate it separately and only
+// get its a = 0 limit here.
+export function getMetric(mass: number, spacetime: SpacetimeSettings): SphericalMetric {
+  const Q = getCharge(mass, spacetime);
+  const Q2 = Q * Q;
+  const lambda = getCosmologicalConstant(mass, spacetime);
+  return {
+    f: (r: number) => 1 - (2 * mass) / r + Q2 / (r * r) - (lambda * r * r) / 3,
+    df: (r: number) => (2 * mass) / (r * r) - (2 * Q2) / (r * r * r) - (2 * lambda * r) / 3,
+  };
+}
+
+// Positive roots of r - 2M - Λr^3/3 = 0 (event and cosmological horizons)
+function getDeSitterHorizons(mass: number, lambda: number) {
+  // Depressed cubic r^3 + p r + q = 0 with p = -3/Λ, q = 6M/Λ
+  const p = -3 / lambda;
+  const q = (6 * mass) / lambda;
+  const m = 2 * Math.sqrt(-p / 3);
+  const arg = Math.max(-1, Math.min(1, ((3 * q) / (2 * p)) * Math.sqrt(-3 / p)));
+  const roots = [0, 1, 2]
+    .map(k => m * Math.cos(Math.acos(arg) / 3 - (2 * Math.PI * k) / 3))
+    .filter(r => r > 0)
+    .sort((x, y) => x - y);
+  return { event: roots[0] ?? 2 * mass, cosmological: roots[1] ?? Infinity };
+}
+
+export function getHorizons(mass: number, spacetime: SpacetimeSettings): HorizonRadii {
+  switch (spacetime.kind) {
+    case 'kerr': {
+      const { outer, inner } = getKerrHorizons(mass, spacetime.spin * mass);
+      return { event: outer, inner, cosmological: null };
+    }
+    case 'reissner-nordstrom': {
+      const Q = getCharge(mass, spacetime);
+      const d = Math.sqrt(Math.max(0, mass * mass - Q * Q));
+      return { event: mass + d, inner: mass - d, cosmological: null };
+    }
+    case 'schwarzschild-de-sitter': {
+      const lambda = getCosmologicalConstant(mass, spacetime);
+      if (lambda <= 0) return { event: 2 * mass, inner: null, cosmological: null };
+      const { event, cosmological } = getDeSitterHorizons(mass, lambda);
+      return { event, inner: null, cosmological };
+    }
+    default:
+      return { event: 2 * mass, inner: null, cosmological: null };
+  }
+}
+
+// For Kerr there is no photon sphere; the mean of the prograde and retrograde
+// equatorial orbits is returned so thresholds based on it stay sensible.
+export function getPhotonSphere(mass: number, spacetime: SpacetimeSettings) {
+  switch (spacetime.kind) {
+    case 'kerr': {
+      const { prograde, retrograde } = getKerrPhotonOrbitRadii(mass, spacetime.spin * mass);
+      return 0.5 * (prograde + retrograde);
+    }
+    case 'reissner-nordstrom': {
+      const Q = getCharge(mass, spacetime);
+      return (3 * mass + Math.sqrt(9 * mass * mass - 8 * Q * Q)) / 2;
+    }
+    default:
+      // Λ does not move the photon sphere
+      return 3 * mass;
+  }
+}
+
+// Innermost stable circular orbit of massive particles, where the circular-orbit
+// L^2 = r^3 f' / (2f - r f') is smallest. Found by scanning outward from the photon
+// sphere (where L diverges); null when no stable orbits exist (large Λ). Kerr gets its
+// a = 0 value.
+export function getISCO(mass: number, spacetime: SpacetimeSettings): number | null {
+  if (spacetime.kind === 'kerr' || spacetime.kind === 'schwarzschild') return 6 * mass;
+  const { f, df } = getMetric(mass, spacetime);
+  const angularMomentum2 = (r: number) => (r * r * r * df(r)) / (2 * f(r) - r * df(r));
+  const rPh = getPhotonSphere(mass, spacetime);
+  const rMax = Math.min(getHorizons(mass, spacetime).cosmological ?? Infinity, 200 * mass);
+  let r = rPh * 1.001;
+  let prev = angularMomentum2(r);
+  const step = 0.01 * mass;
+  while (r + step < rMax) {
+    const next = angularMomentum2(r + step);
+    if (!(next > 0)) return null;
+    if (next > prev) {
+      // Refine the minimum on the last two steps with a parabola through three points
+      const before = angularMomentum2(r - step);
+      const denom = before - 2 * prev + next;
+      return denom > 0 ? r + (0.5 * step * (before - next)) / denom : r;
+    }
+    prev = next;
+    r += step;
+  }
+  return null;
+}
+
+// b_crit = r_ph / sqrt(f(r_ph)); for Kerr the mean of the equatorial values
+export function getCriticalImpactParameter(mass: number, spacetime: SpacetimeSettings) {
+  if (spacetime.kind === 'kerr') {
+    const { prograde, retrograde } = getKerrCriticalB(mass, spacetime.spin * mass);
+    return 0.5 * (prograde + retrograde);
+  }
+  const rPh = getPhotonSphere(mass, spacetime);
+  return rPh / Math.sqrt(getMetric(mass, spacetime).f(rPh));
+}
+
+// Tortoise coordinate r*(r) = ∫ dr / f, up to a constant. With f = P(r)/r^n and simple
+// roots r_i, partial fractions give r* = [Λ = 0 ? r : 0] + Σ ln|r - r_i| / f'(r_i).
+// Schwarzschild-de Sitter also needs the negative root -(r_h + r_c) of its cubic.
+// Kerr has its own, ∫ (r^2 + a^2)/Δ dr.
+export function getTortoise(mass: number, spacetime: SpacetimeSettings): (r: number) => number {
+  if (spacetime.kind === 'kerr') return getKerrTortoise(mass, spacetime.spin * mass);
+  const { df } = getMetric(mass, spacetime);
+  const { event, inner, cosmological } = getHorizons(mass, spacetime);
+  const roots = [event];
+  if (spacetime.kind === 'reissner-nordstrom' && inner !== null && inner > 0 && inner < event) roots.push(inner);
+  const deSitter = cosmological !== null && isFinite(cosmological);
+  if (deSitter) roots.push(cosmological, -(event + cosmological));
+  const weights = roots.map(root => 1 / df(root));
+  return (r: number) => {
+    let value = deSitter ? 0 : r;
+    for (let i = 0; i < roots.length; i++) value += weights[i] * Math.log(Math.abs(r - roots[i]));
+    return value;
+  };
+}
+
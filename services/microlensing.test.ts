@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { computeMicrolensingCurve, createLens, getEinsteinAngle, getPaczynskiMagnification, getWeakFieldImages, solveLensEquation } from './microlensing';
+import { DEFAULT_SPACETIME } from './physics';
+
+describe('weak-field point lens', () => {
+  it('has the Paczyński magnification', () => {
+    expect(getPaczynskiMagnification(1)).toBeCloseTo(3 / Math.sqrt(5), 12);
+    // μ ≈ 1/u close to the lens
+    expect(getPaczynskiMagnification(1e-3) * 1e-3).toBeCloseTo(1, 5);
+  });
+
+  it('puts the images on either side with θ+ θ- = -1', () => {
+    [0.1, 0.5, 2].forEach(u => {
+      const [plus, minus] = getWeakFieldImages(u);
+      expect(plus * minus).toBeCloseTo(-1, 12);
+      expect(plus + minus).toBeCloseTo(u, 12);
+    });
+  });
+});
+
+describe('the integrated lens', () => {
+  // Far enough that the Einstein ring sits at b ≈ 140M, deep in the weak field
+  const distanceL = 1e4;
+  const lens = createLens(1, DEFAULT_SPACETIME, distanceL);
+
+  it('bends light by 4M/b plus the higher orders far from the hole', () => {
+    const b = 100;
+    expect(lens.deflection(b)).toBeCloseTo(4 / b + (15 * Math.PI) / (4 * b * b) + 128 / (3 * b * b * b), 5);
+    expect(lens.thetaE).toBeCloseTo(getEinsteinAngle(1, distanceL, 2 * distanceL), 12);
+  });
+
+  it('reproduces the weak-field images and magnification', () => {
+    const u = 0.3;
+    const images = solveLensEquation(lens, u);
+    const [plus, minus] = getWeakFieldImages(u);
+    const primary = images.find(image => image.order === 0 && image.theta > 0)!;
+    const secondary = images.find(image => image.order === 0 && image.theta < 0)!;
+    expect(primary.theta).toBeCloseTo(plus, 1);
+    expect(secondary.theta).toBeCloseTo(minus, 1);
+    expect(primary.magnification).toBeGreaterThan(0);
+    expect(secondary.magnification).toBeLessThan(0);
+    const total = images.reduce((sum, image) => sum + Math.abs(image.magnification), 0);
+    expect(Math.abs(total / getPaczynskiMagnification(u) - 1)).toBeLessThan(0.01);
+  });
+
+  it('adds faint relativistic images just outside the shadow', () => {
+    const thetaShadow = (3 * Math.sqrt(3)) / (distanceL * lens.thetaE);
+    const relativistic = solveLensEquation(lens, 0.3).filter(image => image.order > 0);
+    expect(relativistic.length).toBeGreaterThanOrEqual(2);
+    relativistic.forEach(image => {
+      expect(Math.abs(image.theta) / thetaShadow).toBeCloseTo(1, 2);
+      expect(Math.abs(image.magnification)).toBeLessThan(1e-5);
+    });
+  });
+
+  it('peaks at closest approach', () => {
+    const curve = computeMicrolensingCurve(lens, 0.3);
+    const peak = curve.exact.indexOf(Math.max(...curve.exact));
+    expect(curve.tau[peak]).toBeCloseTo(0, 10);
+    expect(curve.exact[0]).toBeCloseTo(curve.exact[curve.exact.length - 1], 6);
+  });
+});
@@ -0,0 +1,194 @@
+import { IntegratorSettings, MicrolensingSettings, SpacetimeSettings } from '../types';
+import { getCriticalImpactParameter } from './metrics';
+import { getLightDeflection } from './physics';
+
+// Point-source microlensing by the hole, solved with the Virbhadra-Ellis lens equation
+//   tan β = tan θ - (D_LS/D_S) [tan θ + tan(α̂(b) - θ)],  b = D_L sin θ
+// and the bending angle α̂ of integrated light rays instead of Einstein's 4M/b.
+// Angles on the sky are in Einstein radii θ_E = sqrt(4M D_LS / (D_L D_S)).
+
+export const DEFAULT_MICROLENSING: MicrolensingSettings = {
+  impactParameter: 0.3,
+  trackAngle: 30,
+  lensDistance: 500,
+};
+
+// The source crosses from τ = -TRACK_HALF_LENGTH to +TRACK_HALF_LENGTH, in Einstein times,
+// passing the lens at u_0 <= MAX_IMPACT_PARAMETER
+export const TRACK_HALF_LENGTH = 2;
+export const MAX_IMPACT_PARAMETER = 1.5;
+
+const SOURCE_DISTANCE_RATIO = 2; // D_S / D_L
+const TABLE_SIZE = 128;
+// Closest impact parameter in the table, as b/b_crit - 1
+const TABLE_NEAREST = 1e-6;
+const CURVE_SAMPLES = 241;
+
+// Adaptive steps for the table rays, growing with b since they start at 2b
+const LENS_INTEGRATOR: IntegratorSettings = {
+  method: 'rk45',
+  step: 0.01,
+  absTol: 1e-10,
+  relTol: 1e-10,
+  maxStep: 1,
+};
+
+export interface Lens {
+  distanceL: number;
+  distanceS: number;
+  distanceLS: number;
+  thetaE: number; // Einstein angle, radians
+  bCrit: number;
+  deflection: (b: number) => number; // α̂(b), NaN for captured light
+}
+
+export interface LensImage {
+  theta: number; // Signed position along the source direction, in θ_E
+  magnification: number; // Signed: negative for images of odd parity
+  order: number; // Loops around the hole: 0 for the primary and secondary images
+}
+
+export function getEinsteinAngle(mass: number, distanceL: number, distanceS: number) {
+  return Math.sqrt((4 * mass * (distanceS - distanceL)) / (distanceL * distanceS));
+}
+
+// The hole only has to be a spherical lens in an asymptotically flat spacetime:
+// Kerr gets its a = 0 limit and Λ is dropped
+export function getLensSpacetime(spacetime: SpacetimeSettings): SpacetimeSettings {
+  return spacetime.kind === 'kerr' || spacetime.kind === 'schwarzschild-de-sitter' ? { ...spacetime, kind: 'schwarzschild' } : spacetime;
+}
+
+// Tabulates α̂ from just outside b_crit out to the widest image the track can produce.
+// Near b_crit α̂ grows like -ln(b/b_crit - 1) and far out like 4M/b, so the table is
+// spaced evenly in x = ln(b/b_crit - 1) and interpolated in ln α̂.
+export function createLens(mass: number, spacetime: SpacetimeSettings, distanceL: number): Lens {
+  const lensSpacetime = getLensSpacetime(spacetime);
+  const distanceS = SOURCE_DISTANCE_RATIO * distanceL;
+  const thetaE = getEinsteinAngle(mass, distanceL, distanceS);
+  const bCrit = getCriticalImpactParameter(mass, lensSpacetime);
+
+  const widest = Math.hypot(TRACK_HALF_LENGTH, MAX_IMPACT_PARAMETER) + 2;
+  const bMax = Math.max(2 * bCrit, 1.2 * distanceL * Math.sin(Math.min(Math.PI / 2, widest * thetaE)));
+  const x0 = Math.log(TABLE_NEAREST);
+  const dx = (Math.log(bMax / bCrit - 1) - x0) / (TABLE_SIZE - 1);
+  const logAlpha = new Float64Array(TABLE_SIZE);
+  for (let k = 0; k < TABLE_SIZE; k++) {
+    const b = bCrit * (1 + Math.exp(x0 + k * dx));
+    logAlpha[k] = Math.log(getLightDeflection(b, mass, lensSpacetime, { ...LENS_INTEGRATOR, maxStep: Math.max(LENS_INTEGRATOR.maxStep, 0.05 * b) }));
+  }
+
+  const deflection = (b: number) => {
+    if (b <= bCrit) return NaN;
+    const s = (Math.log(b / bCrit - 1) - x0) / dx;
+    if (s < 0) return NaN;
+    if (s >= TABLE_SIZE - 1) return Math.exp(logAlpha[TABLE_SIZE - 1]) * (bMax / b); // 4M/b beyond the table
+    // Catmull-Rom, so magnifications (which need dα̂/db) stay smooth
+    const k = Math.floor(s);
+    const t = s - k;
+    const p0 = logAlpha[Math.max(0, k - 1)];
+    const p1 = logAlpha[k];
+    const p2 = logAlpha[k + 1];
+    const p3 = logAlpha[Math.min(TABLE_SIZE - 1, k + 2)];
+    const y = p1 + 0.5 * t * (p2 - p0 + t * (2 * p0 - 5 * p1 + 4 * p2 - p3 + t * (3 * (p1 - p2) + p3 - p0)));
+    return Math.exp(y);
+  };
+
+  return { distanceL, distanceS, distanceLS: distanceS - distanceL, thetaE, bCrit, deflection };
+}
+
+// Source angle β (radians) that an image at angle θ > 0 on the sky maps back to.
+// NaN where the light is captured or bent back towards the observer's side.
+function getSourceAngle(lens: Lens, theta: number) {
+  const alpha = lens.deflection(lens.distanceL * Math.sin(theta));
+  if (!isFinite(alpha)) return NaN;
+  const out = alpha - theta;
+  if (Math.cos(out) <= 0) return NaN;
+  return Math.atan(Math.tan(theta) - (lens.distanceLS / lens.distanceS) * (Math.tan(theta) + Math.tan(out)));
+}
+
+// All images of a source at β ≥ 0 (in θ_E): on the source's side (θ > 0) where the
+// lens map gives β, and on the far side (θ < 0) where it gives -β. Each root is
+// bracketed on a grid that follows the deflection table and refined by bisection.
+export function solveLensEquation(lens: Lens, beta: number): LensImage[] {
+  const images: LensImage[] = [];
+  const betaRad = Math.max(beta, 1e-9) * lens.thetaE;
+  const thetaMin = Math.asin(Math.min(1, lens.bCrit * (1 + TABLE_NEAREST) / lens.distanceL));
+  const thetaMax = Math.min(Math.PI / 2, (Math.abs(beta) + 3) * lens.thetaE * 1.5);
+  // Dense near b_crit, where the relativistic images sit
+  const grid: number[] = [];
+  const gridSize = 4 * TABLE_SIZE;
+  const span = Math.log(thetaMax / thetaMin - 1 + 1e-12) - Math.log(TABLE_NEAREST);
+  for (let k = 0; k < gridSize; k++) {
+    grid.push(thetaMin * (1 + Math.exp(Math.log(TABLE_NEAREST) + (span * k) / (gridSize - 1))));
+  }
+
+  for (const side of [1, -1]) {
+    const target = side * betaRad;
+    let prevTheta = grid[0];
+    let prevGap = getSourceAngle(lens, prevTheta) - target;
+    for (let k = 1; k < grid.length; k++) {
+      const theta = grid[k];
+      const gap = getSourceAngle(lens, theta) - target;
+      if (isFinite(gap) && isFinite(prevGap) && Math.sign(gap) !== Math.sign(prevGap)) {
+        let lo = prevTheta;
+        let hi = theta;
+        const loSign = Math.sign(prevGap);
+        for (let i = 0; i < 60; i++) {
+          const mid = 0.5 * (lo + hi);
+          if (Math.sign(getSourceAngle(lens, mid) - target) === loSign) lo = mid; else hi = mid;
+        }
+        const root = 0.5 * (lo + hi);
+        // μ = (sin θ / sin β) dθ/dβ
+        const h = 1e-5 * root;
+        const slope = (getSourceAngle(lens, root + h) - getSourceAngle(lens, root - h)) / (2 * h);
+        const magnification = Math.sin(root) / (Math.sin(target) * slope);
+        const alpha = lens.deflection(lens.distanceL * Math.sin(root));
+        // Images squeezed against the edge of the table cannot be differentiated;
+        // they are fainter than anything else by many orders of magnitude
+        if (isFinite(magnification)) images.push({ theta: (side * root) / lens.thetaE, magnification, order: Math.round(alpha / (2 * Math.PI)) });
+      }
+      prevTheta = theta;
+      prevGap = gap;
+    }
+  }
+  return images;
+}
+
+// Weak-field point lens (Paczyński 1986)
+export function getPaczynskiMagnification(u: number) {
+  return (u * u + 2) / (u * Math.sqrt(u * u + 4));
+}
+
+// Weak-field image positions, θ± = (u ± sqrt(u^2 + 4))/2, in θ_E
+export function getWeakFieldImages(u: number): [number, number] {
+  const root = Math.sqrt(u * u + 4);
+  return [0.5 * (u + root), 0.5 * (u - root)];
+}
+
+// Source position on the sky at time τ (in Einstein times from closest approach)
+export function getSourcePosition(settings: MicrolensingSettings, tau: number): [number, number] {
+  const psi = (settings.trackAngle * Math.PI) / 180;
+  const u0 = settings.impactParameter;
+  return [tau * Math.cos(psi) - u0 * Math.sin(psi), tau * Math.sin(psi) + u0 * Math.cos(psi)];
+}
+
+export interface MicrolensingCurve {
+  tau: number[];
+  exact: number[]; // Total magnification Σ|μ| over every image
+  paczynski: number[];
+}
+
+// The light curve only depends on how close the track passes, not on its direction
+export function computeMicrolensingCurve(lens: Lens, impactParameter: number): MicrolensingCurve {
+  const tau: number[] = [];
+  const exact: number[] = [];
+  const paczynski: number[] = [];
+  for (let j = 0; j < CURVE_SAMPLES; j++) {
+    const t = -TRACK_HALF_LENGTH + (2 * TRACK_HALF_LENGTH * j) / (CURVE_SAMPLES - 1);
+    const u = Math.hypot(t, impactParameter);
+    tau.push(t);
+    exact.push(solveLensEquation(lens, u).reduce((sum, image) => sum + Math.abs(image.magnification), 0));
+    paczynski.push(getPaczynskiMagnification(u));
+  }
+  return { tau, exact, paczynski };
+}
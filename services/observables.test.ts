@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getRayFate, getStrongDeflection } from './observables';
+import { buildRays, DEFAULT_PARTICLE, getCriticalB } from './physics';
+
+const trace = (b: number) => buildRays(b, 1, 1, 1, 'planar', 'fixed')[0];
+
+describe('measureRay', () => {
+  it('bends distant light as the weak-field series says', () => {
+    // 4M/b + 15πM^2/4b^2 + 128M^3/3b^3
+    const b = 40;
+    expect(trace(b).deflection).toBeCloseTo(4 / b + (15 * Math.PI) / (4 * b * b) + 128 / (3 * b ** 3), 3);
+  });
+
+  it('follows the strong deflection limit close to b_crit', () => {
+    const b = getCriticalB(1) * 1.001;
+    const ray = trace(b);
+    expect(ray.deflection).toBeCloseTo(getStrongDeflection(b, 1), 1);
+    // More than a full loop around the hole before leaving
+    expect(ray.windings).toBe(1);
+  });
+
+  it('finds the turning point, where b = r sqrt(1/f(r))', () => {
+    const ray = trace(8);
+    expect(ray.rMin / Math.sqrt(1 - 2 / ray.rMin)).toBeCloseTo(8, 3);
+  });
+
+  it('leaves the deflection of captured light undefined', () => {
+    const ray = trace(3);
+    expect(ray.crossed).toBe(true);
+    expect(ray.deflection).toBeNaN();
+  });
+});
+
+describe('getRayFate', () => {
+  const bCrit = getCriticalB(1);
+
+  it('names how each kind of ray ended', () => {
+    expect(getRayFate(trace(3), bCrit)).toBe('Captured');
+    expect(getRayFate(trace(8), bCrit)).toBe('Escaped');
+    const particle = { ...DEFAULT_PARTICLE, type: 'massive' as const, spec: 'apsides' as const, periapsis: 8, apoapsis: 20 };
+    expect(getRayFate(buildRays(4, 1, 1, 1, 'planar', 'fixed', { particle })[0], bCrit)).toBe('Bound');
+  });
+
+  it('agrees with the fate colouring for light', () => {
+    expect(getRayFate(trace(1.1 * bCrit), bCrit)).toBe('Strongly lensed');
+    expect(getRayFate(trace(1.1 * bCrit), bCrit, 1.05)).toBe('Escaped');
+    // Light still on its way out when integration stops is never bound
+    expect(getRayFate({ crossed: false, escaped: false, particle: 'photon', b: 8 }, bCrit)).toBe('Escaped');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DISK } from './accretionDisk';
+import { DEFAULT_OBSERVER_IMAGE, ObserverImageRequest, renderObserverImage } from './observerImage';
+import { DEFAULT_SPACETIME } from './physics';
+
+const SIZE = 33;
+
+const render = (patch: Partial<ObserverImageRequest['settings']> = {}) => renderObserverImage({
+  jobId: 1,
+  settings: { ...DEFAULT_OBSERVER_IMAGE, ...patch },
+  mass: 1,
+  spacetime: DEFAULT_SPACETIME,
+  width: SIZE,
+  height: SIZE,
+  panorama: null,
+  disk: DEFAULT_DISK,
+});
+
+const brightness = (pixels: Uint8ClampedArray, x: number, y: number) => {
+  const o = 4 * (y * SIZE + x);
+  return pixels[o] + pixels[o + 1] + pixels[o + 2];
+};
+
+describe('renderObserverImage', () => {
+  it('shows the shadow in the middle of a lit sky', () => {
+    const pixels = render();
+    expect(pixels).toHaveLength(4 * SIZE * SIZE);
+    const centre = (SIZE - 1) / 2;
+    expect(brightness(pixels, centre, centre)).toBe(0);
+    expect(brightness(pixels, 0, 0)).toBeGreaterThan(0);
+  });
+
+  it('is black everywhere without a sky', () => {
+    const pixels = render({ sky: 'none' });
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) expect(brightness(pixels, x, y)).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,289 @@
+import { DiskSettings, ObserverImageSettings, SpacetimeSettings } from '../types';
+import { getMetric, getHorizons } from './metrics';
+import { createDiskProfile, getDiskShift, shadeDisk } from './accretionDisk';
+
+// Backward ray tracing of what a static observer at r_obs sees. Each pixel's photon is
+// followed back from the camera; in a spherical spacetime its orbit only depends on
+// the angle α between the pixel and the direction to the hole, so one table of
+// "azimuth swept until the sky" against α serves the whole image. A physical disk
+// also needs r along each orbit, to find where it crosses the equatorial plane.
+
+export const DEFAULT_OBSERVER_IMAGE: ObserverImageSettings = {
+  observerRadius: 30,
+  fov: 45,
+  latitude: 0,
+  skyRotation: 0,
+  sky: 'checker',
+  resolution: 384,
+};
+
+export interface Panorama {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, equirectangular: longitude across, latitude down
+}
+
+export interface ObserverImageRequest {
+  jobId: number;
+  settings: ObserverImageSettings;
+  mass: number;
+  spacetime: SpacetimeSettings;
+  width: number;
+  height: number;
+  panorama: Panorama | null;
+  disk: DiskSettings;
+}
+
+export interface ObserverImageResult {
+  jobId: number;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA
+}
+
+// Sent instead of the image when rendering it throws
+export interface ObserverImageError {
+  jobId: number;
+  error: string;
+}
+
+// Where the camera and the sky are allowed to sit, in physical units. Without a
+// cosmological horizon the sky is at infinity (u = 1/r = 0).
+export function getObserverRadii(settings: ObserverImageSettings, mass: number, spacetime: SpacetimeSettings) {
+  const { event, cosmological } = getHorizons(mass, spacetime);
+  let rObs = Math.max(settings.observerRadius * mass, 1.05 * event);
+  if (cosmological !== null) rObs = Math.min(rObs, 0.9 * cosmological);
+  const rSky = cosmological !== null ? 0.95 * cosmological : Infinity;
+  return { rObs, rSky, rHorizon: event };
+}
+
+const TABLE_SIZE = 4096;
+const MAX_SWEEP = 10 * Math.PI; // Rays still circling after five loops count as captured
+// u(φ) is kept over the first three half-turns: the direct image of the disk and the
+// two lensed ones inside it, the last of which already hugs the photon ring
+const ORBIT_SPAN = 3 * Math.PI;
+const ORBIT_STEP = Math.PI / 128;
+const ORBIT_COUNT = Math.round(ORBIT_SPAN / ORBIT_STEP) + 1;
+
+interface SweepTable {
+  sweep: Float64Array;
+  orbits: Float32Array | null; // u at φ = j·ORBIT_STEP for each α, 0 once the photon is gone
+}
+
+// Azimuth Φ(α) a photon sweeps between the camera and the sky, NaN when it falls in.
+// Integrates the orbit equation u'' = -u f(1/u) + f'(1/u)/2 in φ, with u = 1/r.
+function getSweepTable(mass: number, spacetime: SpacetimeSettings, rObs: number, rSky: number, rHorizon: number, alphaMax: number, withOrbits: boolean): SweepTable {
+  const { f, df } = getMetric(mass, spacetime);
+  const accel = (u: number) => -u * f(1 / u) + 0.5 * df(1 / u);
+  const u0 = 1 / rObs;
+  const uCapture = 1 / (1.0001 * rHorizon);
+  // Far out the path is a straight line, which sweeps asin(b u) on its way to infinity
+  const uSky = isFinite(rSky) ? 1 / rSky : 0.02 * u0;
+  const sqrtF0 = Math.sqrt(f(rObs));
+
+  const table = new Float64Array(TABLE_SIZE);
+  const orbits = withOrbits ? new Float32Array(TABLE_SIZE * ORBIT_COUNT) : null;
+  for (let k = 0; k < TABLE_SIZE; k++) {
+    const alpha = (k / (TABLE_SIZE - 1)) * alphaMax;
+    const sinAlpha = Math.sin(alpha);
+    if (sinAlpha < 1e-9 && alpha < Math.PI / 2) {
+      table[k] = NaN; // Straight down
+      continue;
+    }
+    const b = (rObs * sinAlpha) / sqrtF0;
+    let u = u0;
+    let w = (sqrtF0 / rObs) * (Math.cos(alpha) / Math.max(sinAlpha, 1e-12)); // du/dφ
+    let phi = 0;
+    let sweep = NaN;
+    let j = 0; // Next orbit sample
+    while (phi < MAX_SWEEP) {
+      // Small steps in φ, and in log u while the photon races outward
+      const h = Math.min(0.01, (0.1 * u) / Math.max(Math.abs(w), 1e-12));
+      const k1u = w, k1w = accel(u);
+      const k2u = w + 0.5 * h * k1w, k2w = accel(u + 0.5 * h * k1u);
+      const k3u = w + 0.5 * h * k2w, k3w = accel(u + 0.5 * h * k2u);
+      const k4u = w + h * k3w, k4w = accel(u + h * k3u);
+      const uNext = u + (h / 6) * (k1u + 2 * k2u + 2 * k3u + k4u);
+      const wNext = w + (h / 6) * (k1w + 2 * k2w + 2 * k3w + k4w);
+      if (uNext >= uCapture || !isFinite(uNext)) break;
+      if (orbits) {
+        for (; j < ORBIT_COUNT && j * ORBIT_STEP <= phi + h; j++) {
+          orbits[k * ORBIT_COUNT + j] = u + ((j * ORBIT_STEP - phi) / h) * (uNext - u);
+        }
+      }
+      if (uNext <= uSky) {
+        const t = (u - uSky) / (u - uNext);
+        sweep = phi + t * h + (isFinite(rSky) ? 0 : Math.asin(Math.min(1, b * uSky)));
+        break;
+      }
+      u = uNext;
+      w = wNext;
+      phi += h;
+    }
+    table[k] = sweep;
+  }
+  return { sweep: table, orbits };
+}
+
+// The table only depends on the geometry, so re-pointing the camera or turning the
+// sky reuses it
+let cachedTable: { key: string; table: SweepTable } | null = null;
+
+function getCachedSweepTable(mass: number, spacetime: SpacetimeSettings, rObs: number, rSky: number, rHorizon: number, alphaMax: number, withOrbits: boolean) {
+  const key = [mass, spacetime.kind, spacetime.charge, spacetime.cosmologicalConstant, rObs, alphaMax, withOrbits].join('|');
+  if (cachedTable?.key !== key) {
+    cachedTable = { key, table: getSweepTable(mass, spacetime, rObs, rSky, rHorizon, alphaMax, withOrbits) };
+  }
+  return cachedTable.table;
+}
+
+// Linear in α, except next to captured entries where the sweep diverges
+function lookupSweep(table: Float64Array, alpha: number, alphaMax: number) {
+  const x = (alpha / alphaMax) * (TABLE_SIZE - 1);
+  const k = Math.min(TABLE_SIZE - 2, Math.max(0, Math.floor(x)));
+  const t = x - k;
+  const lo = table[k];
+  const hi = table[k + 1];
+  if (isNaN(lo) || isNaN(hi)) return t < 0.5 ? lo : hi;
+  return lo + t * (hi - lo);
+}
+
+// u at azimuth φ along the orbit of the nearest tabulated α
+function lookupOrbit(orbits: Float32Array, alpha: number, alphaMax: number, phi: number) {
+  const k = Math.min(TABLE_SIZE - 1, Math.round((alpha / alphaMax) * (TABLE_SIZE - 1)));
+  const x = phi / ORBIT_STEP;
+  const j = Math.min(ORBIT_COUNT - 2, Math.floor(x));
+  const lo = orbits[k * ORBIT_COUNT + j];
+  const hi = orbits[k * ORBIT_COUNT + j + 1];
+  // Past the end of the orbit the photon has left (or fallen in)
+  if (lo <= 0 || hi <= 0) return 0;
+  return lo + (x - j) * (hi - lo);
+}
+
+const CHECKER_COLORS: [number, number, number][] = [
+  [124, 58, 237],
+  [6, 182, 212],
+  [245, 158, 11],
+  [16, 185, 129],
+];
+const CHECKER_CELL = Math.PI / 12; // 15 degrees
+const STAR_RADIUS = (1.5 * Math.PI) / 180;
+
+// Checkerboard tinted by longitude quadrant, with a star at longitude 180°, latitude 0
+// that turns into an Einstein ring when it lines up behind the hole
+function sampleChecker(lon: number, lat: number, out: number[]) {
+  const starDistance = Math.acos(Math.max(-1, Math.min(1, -Math.cos(lat) * Math.cos(lon))));
+  if (starDistance < STAR_RADIUS) {
+    out[0] += 255; out[1] += 250; out[2] += 235;
+    return;
+  }
+  const quadrant = Math.floor((((lon % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)) / (Math.PI / 2)) % 4;
+  const [r, g, b] = CHECKER_COLORS[quadrant];
+  const dark = (Math.floor(lon / CHECKER_CELL) + Math.floor(lat / CHECKER_CELL)) & 1;
+  const shade = (dark ? 0.35 : 0.9) * (lat < 0 ? 0.8 : 1);
+  out[0] += r * shade; out[1] += g * shade; out[2] += b * shade;
+}
+
+function samplePanorama(panorama: Panorama, lon: number, lat: number, out: number[]) {
+  const u = (((lon / (2 * Math.PI) + 0.5) % 1) + 1) % 1;
+  const v = 0.5 - lat / Math.PI;
+  const x = Math.min(panorama.width - 1, Math.floor(u * panorama.width));
+  const y = Math.min(panorama.height - 1, Math.max(0, Math.floor(v * panorama.height)));
+  const o = 4 * (y * panorama.width + x);
+  out[0] += panorama.data[o]; out[1] += panorama.data[o + 1]; out[2] += panorama.data[o + 2];
+}
+
+const SUBSAMPLES = 2; // Per axis
+
+export function renderObserverImage(request: ObserverImageRequest): Uint8ClampedArray {
+  const { settings, mass, spacetime, width, height, panorama } = request;
+  const { rObs, rSky, rHorizon } = getObserverRadii(settings, mass, spacetime);
+  const toRad = Math.PI / 180;
+  const metric = getMetric(mass, spacetime);
+  const sqrtFObs = Math.sqrt(metric.f(rObs));
+  const disk = request.disk.model === 'physical' ? createDiskProfile(mass, spacetime, request.disk) : null;
+
+  // Camera on the celestial sphere at the chosen latitude, looking at the hole, with
+  // the sphere's axis (+Z) up
+  const lat0 = settings.latitude * toRad;
+  const out0 = [Math.cos(lat0), 0, Math.sin(lat0)]; // Unit vector from the hole to the camera
+  const fwd = [-out0[0], -out0[1], -out0[2]];
+  const upRaw = Math.abs(fwd[2]) > 0.999 ? [1, 0, 0] : [0, 0, 1];
+  const upDot = upRaw[0] * fwd[0] + upRaw[1] * fwd[1] + upRaw[2] * fwd[2];
+  const upLen = Math.hypot(upRaw[0] - upDot * fwd[0], upRaw[1] - upDot * fwd[1], upRaw[2] - upDot * fwd[2]);
+  const up = [0, 1, 2].map(i => (upRaw[i] - upDot * fwd[i]) / upLen);
+  const right = [fwd[1] * up[2] - fwd[2] * up[1], fwd[2] * up[0] - fwd[0] * up[2], fwd[0] * up[1] - fwd[1] * up[0]];
+
+  const tanHalf = Math.tan((settings.fov * toRad) / 2);
+  const aspect = width / height;
+  const alphaMax = Math.min(Math.PI, Math.atan(tanHalf * Math.hypot(1, aspect)) * 1.01);
+  const { sweep: table, orbits } = getCachedSweepTable(mass, spacetime, rObs, rSky, rHorizon, alphaMax, disk !== null);
+  const rotation = settings.skyRotation * toRad;
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const color = [0, 0, 0];
+  const n = SUBSAMPLES * SUBSAMPLES;
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      color[0] = color[1] = color[2] = 0;
+      for (let s = 0; s < n; s++) {
+        // Pixel direction in the static observer's frame
+        const x = ((px + ((s % SUBSAMPLES) + 0.5) / SUBSAMPLES) / width * 2 - 1) * tanHalf * aspect;
+        const y = (1 - (py + (Math.floor(s / SUBSAMPLES) + 0.5) / SUBSAMPLES) / height * 2) * tanHalf;
+        const dx = fwd[0] + x * right[0] + y * up[0];
+        const dy = fwd[1] + x * right[1] + y * up[1];
+        const dz = fwd[2] + x * right[2] + y * up[2];
+        const len = Math.hypot(dx, dy, dz);
+        const cosAlpha = (dx * fwd[0] + dy * fwd[1] + dz * fwd[2]) / len;
+        const alpha = Math.acos(Math.max(-1, Math.min(1, cosAlpha)));
+        const sweep = lookupSweep(table, alpha, alphaMax);
+
+        // The orbit stays in the plane of out0 and the pixel direction; it reaches
+        // the sky at azimuth Φ from the camera, measured towards the pixel
+        const tx = dx / len - cosAlpha * fwd[0];
+        const ty = dy / len - cosAlpha * fwd[1];
+        const tz = dz / len - cosAlpha * fwd[2];
+        const tLen = Math.hypot(tx, ty, tz) || 1;
+
+        // The photon is at cos φ out0 + sin φ t̂, so it crosses the disk plane every
+        // half-turn from φ0; the first crossing over the disk is what the pixel shows
+        if (disk && orbits) {
+          let phi = Math.atan2(-out0[2], tz / tLen);
+          if (phi <= 1e-9) phi += Math.PI;
+          let hit = false;
+          for (; phi < ORBIT_SPAN && !(phi > sweep); phi += Math.PI) {
+            const u = lookupOrbit(orbits, alpha, alphaMax, phi);
+            if (u <= 0) break;
+            const flux = disk.flux(1 / u);
+            if (flux <= 0) continue;
+            // Photon's L_z/E: the backward ray turns about out0 × t̂, the light about the opposite
+            const b = (rObs * Math.sin(alpha)) / sqrtFObs;
+            const lambdaZ = (-b * (out0[0] * ty - out0[1] * tx)) / tLen;
+            shadeDisk(getDiskShift(metric, 1 / u, lambdaZ, sqrtFObs), flux, color);
+            hit = true;
+            break;
+          }
+          if (hit) continue;
+        }
+
+        if (isNaN(sweep)) continue; // Captured: the shadow
+        const c = Math.cos(sweep);
+        const sn = Math.sin(sweep) / tLen;
+        const nx = c * out0[0] + sn * tx;
+        const ny = c * out0[1] + sn * ty;
+        const nz = c * out0[2] + sn * tz;
+        const lon = Math.atan2(ny, nx) + rotation;
+        const lat = Math.asin(Math.max(-1, Math.min(1, nz)));
+        if (settings.sky === 'none') continue;
+        if (panorama) samplePanorama(panorama, lon, lat, color);
+        else sampleChecker(lon, lat, color);
+      }
+      const o = 4 * (py * width + px);
+      pixels[o] = color[0] / n;
+      pixels[o + 1] = color[1] / n;
+      pixels[o + 2] = color[2] / n;
+      pixels[o + 3] = 255;
+    }
+  }
+  return pixels;
+}
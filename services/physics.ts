@@ -1,103 +1,327 @@
-import { Point3D, RayPath, DistributionMode, ImpactMode } from '../types';
+import { Point3D, RayPath, RayOrientation, DistributionMode, ImpactMode, IntegratorSettings, ParticleSettings, SpacetimeSettings, EmitterSettings, SourceSettings, ImpactSettings } from '../types';
+import { integrate, extrapolateToZero, getInteriorSettings, checkIntegratorSettings, DEFAULT_INTEGRATOR } from './integrators';
+import { computeKerrTrajectory, getKerrRadialPotential } from './kerr';
+import { getMetric, getHorizons, getPhotonSphere, getISCO, getCriticalImpactParameter, getTortoise, getCharge, getCosmologicalConstant, SphericalMetric } from './metrics';
+import { measureRay, getFateCategory, RayObservables } from './observables';
+import { FATE_COLORS } from './colormap';
+import { createTrajectoryCache } from './trajectoryCache';
+import { getHotSpotOrbit, getHotSpotEmission } from './hotSpot';
 
 export const WORLD_SCALE = 0.08;
 
-// These depend on mass now, so we export functions or calculate dynamically
-export function getCriticalB(mass: number) {
-  return 3 * Math.sqrt(3) * mass;
+export const DEFAULT_SPACETIME: SpacetimeSettings = {
+  kind: 'schwarzschild',
+  spin: 0.9,
+  charge: 0.6,
+  cosmologicalConstant: 0.001,
+};
+
+// These depend on mass and the chosen metric, so we export functions or calculate dynamically
+export function getCriticalB(mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME) {
+  return getCriticalImpactParameter(mass, spacetime);
+}
+
+export function getEventHorizonRadius(mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME) {
+  return getHorizons(mass, spacetime).event;
+}
+
+export function getPhotonSphereRadius(mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME) {
+  return getPhotonSphere(mass, spacetime);
+}
+
+// Innermost stable circular orbit for massive particles (null when there is none)
+export function getISCORadius(mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME) {
+  return getISCO(mass, spacetime);
+}
+
+export const DEFAULT_PARTICLE: ParticleSettings = {
+  type: 'photon',
+  spec: 'apsides',
+  energy: 0.97,
+  angularMomentum: 4.0,
+  periapsis: 8,
+  apoapsis: 20,
+};
+
+export const DEFAULT_EMITTER: EmitterSettings = {
+  mode: 'distant',
+  startRadius: 100,
+  escapeRadius: 150,
+  radius: 4,
+  angle: 60,
+  orbitRadius: 6,
+  inclination: 75,
+};
+
+export const DEFAULT_SOURCE: SourceSettings = {
+  beamShape: 'disk',
+  beamRadius: 9,
+  beamSpacing: 0.6,
+  pointDistance: 30,
+  coneAngle: 15,
+  list: [
+    { b: 4, theta: 90, phi: 0, psi: 0 },
+    { b: 5.3, theta: 90, phi: 90, psi: 0 },
+    { b: 6.5, theta: 90, phi: 180, psi: 0 },
+    { b: 9, theta: 60, phi: 270, psi: 45 },
+  ],
+};
+
+// Where rays start and count as escaped, and where a local emitter sits (null for
+// distant sources). With a cosmological horizon both have to stay inside it, and
+// the emitter has to sit outside the event horizon and inside the escape radius.
+export function getSourceRadii(mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME, emitter: EmitterSettings = DEFAULT_EMITTER) {
+  const horizons = getHorizons(mass, spacetime);
+  const cosmological = horizons.cosmological ?? Infinity;
+  const rStart = Math.min(emitter.startRadius * mass, 0.8 * cosmological);
+  const rEscape = Math.max(Math.min(emitter.escapeRadius * mass, 0.95 * cosmological), 1.05 * rStart);
+  const rEmit = emitter.mode === 'local' ? clampEmissionRadius(emitter.radius * mass, horizons.event, rEscape) : null;
+  return { rStart, rEscape, rEmit };
+}
+
+function clampEmissionRadius(r: number, rHorizon: number, rEscape: number) {
+  return Math.min(Math.max(r, 1.001 * rHorizon), 0.9 * rEscape);
+}
+
+// Sources that spread rays over orientations, where the emitter settings apply
+export function spreadsOrientations(distMode: DistributionMode) {
+  return distMode === 'isotropic' || distMode === 'planar' || distMode === 'beam';
+}
+
+// The plane-wave grid is capped at 31 x 31 rays
+const MAX_BEAM_HALF_WIDTH = 15;
+
+// Transverse offsets of the plane-wave rays, in units of M
+function getBeamGrid(source: SourceSettings): [number, number][] {
+  const spacing = Math.max(source.beamSpacing, 1e-3);
+  const n = Math.min(Math.floor(source.beamRadius / spacing), MAX_BEAM_HALF_WIDTH);
+  const radius = Math.min(source.beamRadius, n * spacing);
+  const grid: [number, number][] = [];
+  for (let j = -n; j <= n; j++) {
+    for (let i = -n; i <= n; i++) {
+      if (source.beamShape === 'disk' && Math.hypot(i, j) * spacing > radius + 1e-9) continue;
+      grid.push([i * spacing, j * spacing]);
+    }
+  }
+  return grid;
 }
 
-export function getEventHorizonRadius(mass: number) {
-  return 2.0 * mass;
+// Rays a source actually launches: the plane wave and the explicit list bring
+// their own count, the others use the ray count slider
+export function getSourceRayCount(distMode: DistributionMode, count: number, source: SourceSettings = DEFAULT_SOURCE) {
+  if (distMode === 'plane-wave') return getBeamGrid(source).length;
+  if (distMode === 'list') return source.list.length;
+  return count;
 }
 
-export function getPhotonSphereRadius(mass: number) {
-  return 3.0 * mass;
+// Impact parameter of light emitted at radius r_e at angle α from the outward radial
+// direction, as measured by the static observer there: sin α = b sqrt(f(r_e)) / r_e.
+// (Kerr uses its a = 0 limit.)
+export function getEmissionImpactParameter(angle: number, rEmit: number, mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME) {
+  return (rEmit * Math.sin(angle)) / Math.sqrt(getMetric(mass, spacetime).f(rEmit));
+}
+
+// Half-angle, about the outward radial direction, of the cone of directions in
+// which light from r_e escapes. Outside the photon sphere everything escapes except
+// an inward cone with b < b_crit; inside it only an outward cone with b < b_crit does.
+export function getEscapeConeAngle(rEmit: number, mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME) {
+  const edge = Math.asin(Math.min(1, (getCriticalB(mass, spacetime) * Math.sqrt(getMetric(mass, spacetime).f(rEmit))) / rEmit));
+  return rEmit >= getPhotonSphereRadius(mass, spacetime) ? Math.PI - edge : edge;
+}
+
+// Specific energy and angular momentum of a massive particle, resolved from
+// either the E/L sliders or the periapsis/apoapsis pair (radii in units of M).
+export function resolveParticleConstants(particle: ParticleSettings, mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME): { energy: number; angularMomentum: number } {
+  if (particle.spec === 'energy') {
+    return { energy: particle.energy, angularMomentum: particle.angularMomentum * mass };
+  }
+  const { f, df } = getMetric(mass, spacetime);
+  const rp = Math.min(particle.periapsis, particle.apoapsis) * mass;
+  const ra = Math.max(particle.periapsis, particle.apoapsis) * mass;
+  const fp = f(rp);
+  const fa = f(ra);
+  // Both apsides are turning points: f(rp)(1 + L^2/rp^2) = f(ra)(1 + L^2/ra^2) = E^2.
+  // When they coincide, use the circular orbit condition V'(r) = 0 instead.
+  const denom = fp / (rp * rp) - fa / (ra * ra);
+  const L2 = Math.abs(denom) > 1e-14 ? (fa - fp) / denom : (rp * rp * rp * df(rp)) / (2 * fp - rp * df(rp));
+  const L = Math.sqrt(Math.max(0, L2));
+  const energy = Math.sqrt(Math.max(0, fp * (1 + L2 / (rp * rp))));
+  return { energy, angularMomentum: L };
+}
+
+// Weak-field periapsis advance per orbit, 6πM / p with semi-latus rectum p
+export function getWeakFieldPeriapsisAdvance(rp: number, ra: number, mass: number) {
+  const p = (2 * rp * ra) / (rp + ra);
+  return (6 * Math.PI * mass) / p;
 }
 
 interface TrajectoryOptions {
-  dLambda?: number;
+  integrator?: IntegratorSettings;
   maxSteps?: number;
   rStart?: number;
+  rEscape?: number;
   phi0?: number;
+  spacetime?: SpacetimeSettings;
+  outward?: boolean; // Launch with dr/dλ > 0 (local emitters); inward by default
+}
+
+interface TrajectoryResult {
+  points: Omit<Point3D, 'x'|'y'|'z'>[];
+  crossed: boolean;
+  escaped: boolean;
+  turned: boolean;
+  stepSizes: number[];
+  maxConstraintError: number;
+  periapsisAdvance: number; // Mean Δφ - 2π between successive periapses, NaN if fewer than two
+  horizonIndex: number;
+  singularityLambda: number;
 }
 
-function computeTrajectory(b: number, mass: number, opts: TrajectoryOptions = {}): { points: Omit<Point3D, 'x'|'y'|'z'>[], crossed: boolean, escaped: boolean, turned: boolean } {
-  const dLambda = opts.dLambda ?? 0.05;
+// Conserved quantities of a planar geodesic. kappa = 0 for light, 1 for a
+// massive particle (λ is then proper time); E and L are per unit rest mass.
+interface GeodesicConstants {
+  kappa: 0 | 1;
+  energy: number;
+  angularMomentum: number;
+}
+
+// State layout for the planar geodesic: [r, dr/dλ, φ, v] with v = t + r* the
+// ingoing Eddington-Finkelstein time
+const R = 0, PR = 1, PHI = 2, V = 3;
+
+// Interior rays are followed until r drops below this fraction of M
+export const SINGULARITY_LIMIT = 0.05;
+
+function computeGeodesic(constants: GeodesicConstants, mass: number, opts: TrajectoryOptions = {}): TrajectoryResult {
+  const integrator = opts.integrator ?? DEFAULT_INTEGRATOR;
   const maxSteps = opts.maxSteps ?? 6000;
   const rStart = opts.rStart ?? 100;
   const phi0 = opts.phi0 ?? 0;
+  const rEscape = opts.rEscape ?? 150;
+  const spacetime = opts.spacetime ?? DEFAULT_SPACETIME;
+  const { f, df } = getMetric(mass, spacetime);
+
+  const rHorizon = getHorizons(mass, spacetime).event;
+  const rSingularity = SINGULARITY_LIMIT * mass;
+
+  // Static spherically symmetric geodesic in affine parameter λ.
+  // Only t is singular at the horizon: in ingoing Eddington-Finkelstein coordinates
+  // (v = t + r*, r, θ, φ) the metric is regular there and r(λ), φ(λ) obey the same
+  // equations, so rays are integrated straight through r = r_h towards r = 0:
+  // (dr/dλ)^2 = E^2 - V(r),  V(r) = f(r)(κ + L^2/r^2)
+  // Differentiating removes the square root, so turning points need no special casing:
+  // d²r/dλ² = -V'(r)/2 = -f'(r)(κ + L^2/r^2)/2 + f(r) L^2/r^3,  dφ/dλ = L / r^2
+  // For Schwarzschild this is -κM/r^2 + L^2 (r - 3M) / r^4.
+  const { kappa, energy: E, angularMomentum: L } = constants;
+  const E2 = E * E;
+  const L2 = L * L;
+  const potential = (r: number) => f(r) * (kappa + L2 / (r * r));
+  const deriv = (y: Float64Array, out: Float64Array) => {
+    const r = y[R];
+    const r2 = r * r;
+    out[R] = y[PR];
+    out[PR] = -0.5 * df(r) * (kappa + L2 / r2) + (f(r) * L2) / (r2 * r);
+    out[PHI] = L / r2;
+    // dv/dλ = (E + dr/dλ)/f. On the ingoing branch (E - dr/dλ > 0) this equals
+    // (κ + L^2/r^2)/(E - dr/dλ), which is finite through the horizon.
+    out[V] = y[PR] < 0 ? (kappa + L2 / r2) / (E - y[PR]) : (E + y[PR]) / f(r);
+  };
+
+  // Frequency measured by static observers, relative to the one at the launch point:
+  // ν(r)/ν_emit = sqrt(f(r_emit)/f(r)). There are no static observers where f <= 0.
+  const fEmit = f(rStart);
+  const shiftAt = (r: number) => {
+    const fr = f(r);
+    return fr > 0 && fEmit > 0 ? Math.sqrt(fEmit / fr) : NaN;
+  };
+
+  // Schwarzschild-type coordinate time t = v - r*(r), only meaningful where f > 0
+  const tortoise = getTortoise(mass, spacetime);
+  const timeAt = (state: Float64Array) => (f(state[R]) > 0 ? state[V] - tortoise(state[R]) : NaN);
+
+  // Launched inward unless asked otherwise; if r_start is already inside the forbidden
+  // region the ray starts at its turning point and the acceleration carries it onward.
+  const y = new Float64Array(4);
+  y[R] = rStart;
+  y[PR] = (opts.outward ? 1 : -1) * Math.sqrt(Math.max(0, E2 - potential(rStart)));
+  y[PHI] = phi0;
+  y[V] = tortoise(rStart); // t = 0 at launch
 
-  const rEscape = 150;
-  // Horizon is at 2M. We set limit slightly above 2M to avoid singularity in numerical integration.
-  const rHorizonLimit = 2.01 * mass; 
-  
-  let r = rStart;
-  let phi = phi0;
-  
   let crossed = false;
   let escaped = false;
   let turned = false;
-  let prevDr = -1;
-  
-  const points: Omit<Point3D, 'x'|'y'|'z'>[] = [];
+  let maxConstraintError = 0;
+  let horizonIndex = -1;
+  let singularityLambda = NaN;
+  let prevR = y[R];
+  let prevPr = y[PR];
+  let prevPhi = y[PHI];
+  const periapsisPhis: number[] = [];
 
-  for (let i = 0; i < maxSteps; i++) {
-    if (r > rEscape) {
-      escaped = true;
-      points.push({ r, phi, crossed, escaped: true, turned });
-      break;
-    }
-    if (r < rHorizonLimit) {
-      crossed = true;
-      points.push({ r, phi, crossed: true, escaped, turned });
-      break;
-    }
-    
-    // Schwarzschild Effective Potential for Null Geodesics:
-    // (dr/dlambda)^2 = E^2 - V_eff
-    // V_eff = (L^2/r^2) * (1 - 2M/r)
-    // b = L/E
-    // (dr/dlambda)^2 / E^2 = 1 - (b^2/r^2)(1 - 2M/r)
-    
-    const f = 1 - (2 * mass) / r;
-    const effectivePotentialTerm = (b * b * f) / (r * r);
-    const F = 1 - effectivePotentialTerm;
+  const points: Omit<Point3D, 'x'|'y'|'z'>[] = [{ r: y[R], phi: y[PHI], lambda: 0, t: 0, shift: shiftAt(y[R]), crossed, escaped, turned }];
+  const stepSizes: number[] = [];
+
+  let lambdaHorizon = 0;
+  let lastStep = integrator.step;
 
-    if (F < 0) {
+  integrate(deriv, y, integrator, maxSteps, (state, lambda, h) => {
+    const r = state[R];
+    if (!isFinite(r) || !isFinite(state[PHI])) return false;
+
+    // A periapsis is a sign change of dr/dλ from inward to outward. A launch
+    // from rest at a turning point starts at pr = 0 and heads inward, so it
+    // does not count until the particle actually comes back out.
+    if (prevPr <= 0 && state[PR] > 0) {
       turned = true;
-      points.push({ r, phi, crossed, escaped, turned: true });
-      prevDr = 0;
-      
-      const eps = 1e-8;
-      const dr = Math.sqrt(Math.max(0, -F) + eps);
-      const dphi = b / (r * r);
-      
-      r = r + dr * dLambda;
-      phi = phi + dphi * dLambda;
-      continue;
+      // Interpolate φ at dr/dλ = 0 between the two samples
+      const t = prevPr / (prevPr - state[PR]);
+      periapsisPhis.push(prevPhi + t * (state[PHI] - prevPhi));
     }
+    prevR = r;
+    prevPr = state[PR];
+    prevPhi = state[PHI];
 
-    const drMag = Math.sqrt(F);
-    const dr = turned ? drMag : -drMag;
+    points.push({ r, phi: state[PHI], lambda, t: timeAt(state), shift: shiftAt(r), crossed, escaped, turned });
+    stepSizes.push(h);
 
-    if (prevDr < 0 && dr > 0) turned = true;
-    prevDr = dr;
-
-    const dphi = b / (r * r);
-    
-    r = r + dr * dLambda;
-    phi = phi + dphi * dLambda;
-    
-    points.push({ r, phi, crossed, escaped, turned });
+    // Bound massive particles (E < 1) always come back, however far out they go
+    if (r > rEscape && state[PR] > 0 && E2 >= kappa) {
+      escaped = true;
+      return false;
+    }
+    if (r < rHorizon) {
+      crossed = true;
+      horizonIndex = points.length - 1;
+      lambdaHorizon = lambda;
+      lastStep = h;
+      return false;
+    }
+    maxConstraintError = Math.max(maxConstraintError, Math.abs(state[PR] * state[PR] + potential(r) - E2));
+    return true;
+  });
 
-    if (!isFinite(r) || !isFinite(phi)) break;
+  if (crossed) {
+    integrate(deriv, y, getInteriorSettings(integrator, lastStep), maxSteps, (state, lambda, h) => {
+      const r = state[R];
+      if (!isFinite(r) || !isFinite(state[PHI]) || r <= 0) return false;
+      points.push({ r, phi: state[PHI], lambda: lambdaHorizon + lambda, t: NaN, shift: shiftAt(r), crossed, escaped, turned });
+      stepSizes.push(h);
+      if (r < rSingularity) {
+        singularityLambda = lambdaHorizon + lambda + extrapolateToZero(prevR, prevPr, r, state[PR]);
+        return false;
+      }
+      // Inside an inner (Cauchy) horizon the ray can bounce and head for another
+      // exterior region; that is as far as this chart goes
+      if (state[PR] > 0) return false;
+      prevR = r;
+      prevPr = state[PR];
+      return true;
+    });
   }
 
-  if (points.length === maxSteps) {
+  if (!crossed && !escaped && points.length > 1) {
     const last = points[points.length - 1];
-    const prev = points[Math.max(0, points.length - 20)];
-    if (last && last.r > 50 && last.r > prev.r) escaped = true;
+    if (last.r > rEscape / 3 && y[PR] > 0 && E2 >= kappa) escaped = true;
   }
 
   for (let j = 0; j < points.length; j++) {
@@ -106,7 +330,224 @@ function computeTrajectory(b: number, mass: number, opts: TrajectoryOptions = {}
     points[j].turned = turned;
   }
 
-  return { points, crossed, escaped, turned };
+  let periapsisAdvance = NaN;
+  if (periapsisPhis.length >= 2) {
+    const orbits = periapsisPhis.length - 1;
+    periapsisAdvance = (periapsisPhis[orbits] - periapsisPhis[0]) / orbits - 2 * Math.PI;
+  }
+
+  return { points, crossed, escaped, turned, stepSizes, maxConstraintError, periapsisAdvance, horizonIndex, singularityLambda };
+}
+
+// A planar solution in its own orbital plane (launched from +X), shared by every
+// ray that differs from it only by orientation
+interface PlanarTrajectory extends Omit<TrajectoryResult, 'points'> {
+  points: Point3D[];
+  observables: RayObservables;
+}
+
+interface PlanarOptions {
+  integrator: IntegratorSettings;
+  maxSteps: number;
+  rStart: number;
+  rEscape: number;
+  spacetime: SpacetimeSettings;
+  emitted: boolean; // Launched by a local emitter at r_start
+  outward: boolean;
+}
+
+const trajectoryCache = createTrajectoryCache<PlanarTrajectory>();
+
+function toPlanarTrajectory(res: TrajectoryResult, points: Point3D[], constants: GeodesicConstants, mass: number, opts: PlanarOptions): PlanarTrajectory {
+  const { spacetime, emitted } = opts;
+  const observables = measureRay(points, {
+    mass,
+    escaped: res.escaped,
+    emitted,
+    horizonIndex: res.horizonIndex,
+    planar: true,
+    metric: getMetric(mass, spacetime),
+    ...constants,
+  });
+  return { ...res, points, observables };
+}
+
+// Everything a planar trajectory depends on. The metric enters only through M, Q
+// and Λ, so e.g. moving the spin slider does not invalidate Schwarzschild entries.
+function getTrajectoryKey(constants: GeodesicConstants, mass: number, opts: PlanarOptions) {
+  const { integrator, maxSteps, rStart, rEscape, spacetime, emitted, outward } = opts;
+  return [
+    constants.kappa, constants.energy, constants.angularMomentum,
+    mass, getCharge(mass, spacetime), getCosmologicalConstant(mass, spacetime),
+    integrator.method, integrator.step, integrator.absTol, integrator.relTol, integrator.maxStep,
+    maxSteps, rStart, rEscape, emitted, outward,
+  ].join('|');
+}
+
+// Set `cached` to false for one-off parameters that would only churn the cache
+function getPlanarTrajectory(constants: GeodesicConstants, mass: number, opts: PlanarOptions, cached = true): PlanarTrajectory {
+  const key = getTrajectoryKey(constants, mass, opts);
+  const hit = cached ? trajectoryCache.get(key) : undefined;
+  if (hit) return hit;
+
+  const { integrator, maxSteps, rStart, rEscape, spacetime, outward } = opts;
+  const res = computeGeodesic(constants, mass, { integrator, maxSteps, rStart, rEscape, spacetime, outward, phi0: 0 });
+  const points = res.points.map((p): Point3D => ({
+    r: p.r, phi: p.phi,
+    x: p.r * Math.cos(p.phi), y: p.r * Math.sin(p.phi), z: 0,
+    lambda: p.lambda, t: p.t, shift: p.shift,
+    crossed: p.crossed, escaped: p.escaped, turned: p.turned,
+  }));
+  const trajectory = toPlanarTrajectory(res, points, constants, mass, opts);
+  if (cached) trajectoryCache.set(key, trajectory);
+  return trajectory;
+}
+
+// Blend two photon trajectories of the same fate at equal affine parameter,
+// weight w on `hi`. Trajectories depend smoothly on b away from b_crit, so this
+// stands in for integrating every random b separately.
+function interpolateTrajectories(lo: PlanarTrajectory, hi: PlanarTrajectory, w: number, b: number, mass: number, opts: PlanarOptions): PlanarTrajectory {
+  const rHorizon = getHorizons(mass, opts.spacetime).event;
+  const mix = (a: number, c: number) => a + w * (c - a);
+  const end = hi.points.length - 1;
+  const points: Point3D[] = [];
+  let j = 0;
+  for (const p of lo.points) {
+    if (p.lambda > hi.points[end].lambda) break;
+    while (j < end - 1 && hi.points[j + 1].lambda <= p.lambda) j++;
+    const q0 = hi.points[j];
+    const q1 = hi.points[Math.min(j + 1, end)];
+    const s = q1.lambda > q0.lambda ? Math.min(1, Math.max(0, (p.lambda - q0.lambda) / (q1.lambda - q0.lambda))) : 0;
+    const r = mix(p.r, q0.r + s * (q1.r - q0.r));
+    const phi = mix(p.phi, q0.phi + s * (q1.phi - q0.phi));
+    // Near the horizon one neighbour may already be inside, where t is undefined
+    const tHi = q0.t + s * (q1.t - q0.t);
+    const t = isFinite(p.t) && isFinite(tHi) ? mix(p.t, tHi) : isFinite(p.t) ? p.t : tHi;
+    points.push({
+      r, phi,
+      x: r * Math.cos(phi), y: r * Math.sin(phi), z: 0,
+      lambda: p.lambda, t, shift: mix(p.shift, q0.shift + s * (q1.shift - q0.shift)),
+      crossed: lo.crossed, escaped: lo.escaped, turned: lo.turned,
+    });
+  }
+
+  const horizonIndex = lo.crossed ? points.findIndex(p => p.r < rHorizon) : -1;
+  if (horizonIndex >= 0) {
+    for (let i = horizonIndex; i < points.length; i++) points[i].t = NaN;
+  }
+  const res: TrajectoryResult = {
+    points,
+    crossed: lo.crossed,
+    escaped: lo.escaped,
+    turned: lo.turned,
+    stepSizes: points.slice(1).map((p, i) => p.lambda - points[i].lambda),
+    maxConstraintError: Math.max(lo.maxConstraintError, hi.maxConstraintError),
+    periapsisAdvance: NaN,
+    horizonIndex,
+    singularityLambda: mix(lo.singularityLambda, hi.singularityLambda),
+  };
+  return toPlanarTrajectory(res, points, { kappa: 0, energy: 1, angularMomentum: b }, mass, opts);
+}
+
+// Random impact parameters are served from a table of trajectories evenly spaced
+// in b (small enough that one job's table fits the trajectory cache). Close to
+// b_crit the bending grows like -ln(b/b_c - 1), too fast to interpolate, so rays
+// within B_TABLE_EXACT_WIDTH (in units of the range's scale) are integrated exactly.
+const B_TABLE_SIZE = 96;
+const B_TABLE_EXACT_WIDTH = 0.06;
+
+function getTabulatedTrajectory(b: number, minB: number, maxB: number, bCrit: number, mass: number, opts: PlanarOptions): PlanarTrajectory {
+  const photon = (bk: number, cached = true) => getPlanarTrajectory({ kappa: 0, energy: 1, angularMomentum: bk }, mass, opts, cached);
+  const cell = (maxB - minB) / B_TABLE_SIZE;
+  if (Math.abs(b - bCrit) > B_TABLE_EXACT_WIDTH * (maxB - minB)) {
+    const k = Math.min(B_TABLE_SIZE - 1, Math.max(0, Math.floor((b - minB) / cell)));
+    const lo = photon(minB + k * cell);
+    const hi = photon(minB + (k + 1) * cell);
+    if (lo.crossed === hi.crossed && lo.escaped === hi.escaped && lo.turned === hi.turned) {
+      return interpolateTrajectories(lo, hi, (b - minB) / cell - k, b, mass, opts);
+    }
+  }
+  return photon(b, false);
+}
+
+// Light is launched at least this far out (in units of M, and at twice b) when only
+// its deflection is wanted; measureRay adds the stretches beyond both ends
+const DEFLECTION_START_RADIUS = 20;
+
+// Step budget of light launched from rStart: room for the way in and out at the fixed
+// RK4 step, plus a few loops near b_crit
+function getPhotonMaxSteps(rStart: number, integrator: IntegratorSettings) {
+  checkIntegratorSettings(integrator);
+  return Math.ceil((4 * rStart) / integrator.step) + 6000;
+}
+
+// Bending angle of the photon with impact parameter b, measured from its integrated
+// trajectory (NaN if it is captured). Kerr gets its a = 0 limit.
+export function getLightDeflection(b: number, mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME, integrator: IntegratorSettings = DEFAULT_INTEGRATOR) {
+  const rStart = Math.max(DEFLECTION_START_RADIUS * mass, 2 * b);
+  const maxSteps = getPhotonMaxSteps(rStart, integrator);
+  const trajectory = getPlanarTrajectory(
+    { kappa: 0, energy: 1, angularMomentum: b },
+    mass,
+    { integrator, maxSteps, rStart, rEscape: 1.05 * rStart, spacetime: spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime, emitted: false, outward: false },
+    false
+  );
+  return trajectory.escaped ? trajectory.observables.deflection : NaN;
+}
+
+// Where a massive particle is released. Unbound particles come in from r_start like
+// photons; bound ones start at their outer turning point (apoapsis).
+function getMassiveLaunchRadius(energy: number, angularMomentum: number, metric: SphericalMetric, rHorizon: number, rOuter: number, rStart: number) {
+  const E2 = energy * energy;
+  const L2 = angularMomentum * angularMomentum;
+  const V = (r: number) => metric.f(r) * (1 + L2 / (r * r));
+  if (E2 >= 1) return rStart;
+
+  // V -> 1 > E^2 far away, so scan inward for the first radius the particle can reach.
+  // Near a cosmological horizon V drops to zero again; that outer allowed region is
+  // skipped, and a particle that never meets a barrier comes in from r_start.
+  const rMax = rOuter;
+  const samples = 4000;
+  let prev = rMax;
+  let best = rMax;
+  let bestGap = -Infinity;
+  let barrier = false;
+  for (let i = 1; i <= samples; i++) {
+    const r = rMax - ((rMax - rHorizon) * i) / samples;
+    const gap = E2 - V(r);
+    if (gap >= 0 && !barrier) {
+      prev = r;
+      continue;
+    }
+    barrier = true;
+    if (gap >= 0) {
+      // Refine the turning point between r (allowed) and the previous sample (forbidden)
+      let lo = r;
+      let hi = prev;
+      for (let k = 0; k < 60; k++) {
+        const mid = 0.5 * (lo + hi);
+        if (E2 - V(mid) >= 0) lo = mid; else hi = mid;
+      }
+      return lo;
+    }
+    // Tangent (circular) orbits never reach zero; remember the closest approach
+    if (gap > bestGap) {
+      bestGap = gap;
+      best = r;
+    }
+    prev = r;
+  }
+  if (!barrier) return rStart;
+  // Polish the tangent point with a ternary search around the best sample
+  const dr = (rMax - rHorizon) / samples;
+  let lo = Math.max(rHorizon, best - dr);
+  let hi = best + dr;
+  for (let k = 0; k < 60; k++) {
+    const m1 = lo + (hi - lo) / 3;
+    const m2 = hi - (hi - lo) / 3;
+    if (E2 - V(m1) > E2 - V(m2)) hi = m2; else lo = m1;
+  }
+  return 0.5 * (lo + hi);
 }
 
 function mulberry32(a: number) {
@@ -118,16 +559,199 @@ function mulberry32(a: number) {
   }
 }
 
-export function buildRays(b: number, mass: number, count: number, seed: number, distMode: DistributionMode, impactMode: ImpactMode): RayPath[] {
+export const DEFAULT_IMPACT: ImpactSettings = {
+  distribution: 'uniform',
+  min: 2.5,
+  max: 7.5,
+  width: 0.5,
+};
+
+// Closest approach to b_crit of the logarithmic distribution, in units of M
+const LOG_CRITICAL_MIN_OFFSET = 1e-4;
+
+// Draws the random-mode impact parameters, one call per ray in order. They come from
+// their own stream so the preview in the controls sees exactly the values the rays get.
+export function createImpactSampler(settings: ImpactSettings, count: number, seed: number, mass: number, spacetime: SpacetimeSettings = DEFAULT_SPACETIME) {
+  const rng = mulberry32(seed ^ 0x5bd1e995);
+  const minB = Math.min(settings.min, settings.max) * mass;
+  const maxB = Math.max(settings.min, settings.max) * mass;
+  const bCrit = getCriticalB(mass, spacetime);
+  let i = 0;
+
+  // Each side of b_crit that lies in range, weighted by its share of log |b - b_crit|
+  const offsetLo = LOG_CRITICAL_MIN_OFFSET * mass;
+  const sides = [
+    { sign: -1, hi: bCrit - minB },
+    { sign: 1, hi: maxB - bCrit },
+  ].filter(side => side.hi > offsetLo);
+  const weights = sides.map(side => Math.log(side.hi / offsetLo));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  return (): number => {
+    const k = i++;
+    switch (settings.distribution) {
+      case 'area':
+        // Uniform in b^2: what a uniform beam delivers per unit cross-section
+        return Math.sqrt(minB * minB + rng() * (maxB * maxB - minB * minB));
+      case 'gaussian': {
+        // Box-Muller, redrawn until it lands in range
+        const sigma = Math.max(settings.width, 1e-3) * mass;
+        for (let attempt = 0; attempt < 32; attempt++) {
+          const g = Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+          const value = bCrit + sigma * g;
+          if (value >= minB && value <= maxB) return value;
+        }
+        return Math.min(maxB, Math.max(minB, bCrit));
+      }
+      case 'log-critical': {
+        if (totalWeight <= 0) return minB + rng() * (maxB - minB);
+        let u = rng() * totalWeight;
+        const side = sides.find((_, j) => (u -= weights[j]) <= 0) ?? sides[sides.length - 1];
+        return bCrit + side.sign * offsetLo * Math.pow(side.hi / offsetLo, rng());
+      }
+      case 'sweep':
+        return count > 1 ? minB + (k / (count - 1)) * (maxB - minB) : 0.5 * (minB + maxB);
+      default:
+        return minB + rng() * (maxB - minB);
+    }
+  };
+}
+
+export interface BuildOptions {
+  integrator?: IntegratorSettings;
+  particle?: ParticleSettings;
+  spacetime?: SpacetimeSettings;
+  // Only trace rays start..end-1. The rest still draw their random numbers, so a
+  // ray comes out the same whichever worker (and whichever range) traces it.
+  range?: { start: number; end: number };
+  emitter?: EmitterSettings;
+  source?: SourceSettings;
+  impact?: ImpactSettings;
+}
+
+// Proper-time steps for slow massive particles can be much coarser than the
+// affine steps used for light, and bound orbits need many more of them.
+export const MASSIVE_STEP_SCALE = 10;
+const MASSIVE_MAX_STEPS = 20000;
+
+// Maps a vector from a ray's local orbital plane (the trajectory lies in local XY)
+// into global 3D. Pure rotation, so it applies to directions as well as points.
+function rotateToWorld(lx: number, ly: number, lz: number, theta: number, phi_sphere: number, psi: number): [number, number, number] {
+  // 1. Rotate around local X by psi (Spin the orbital plane)
+  const x1 = lx;
+  const y1 = ly * Math.cos(psi) - lz * Math.sin(psi);
+  const z1 = ly * Math.sin(psi) + lz * Math.cos(psi);
+  
+  // 2. Rotate around Y by beta = theta - PI/2
+  //    (Tilts the "North Pole" of our system to match the target latitude theta)
+  const beta = theta - Math.PI/2;
+  const cb = Math.cos(beta);
+  const sb = Math.sin(beta);
+  const x2 = x1 * cb + z1 * sb;
+  const z2 = -x1 * sb + z1 * cb;
+  const y2 = y1;
+  
+  // 3. Rotate around Z by phi_sphere
+  //    (Rotates to the correct longitude)
+  const cp = Math.cos(phi_sphere);
+  const sp = Math.sin(phi_sphere);
+  return [x2 * cp - y2 * sp, x2 * sp + y2 * cp, z2];
+}
+
+// Orientation of the orbital plane that starts along `radial` and heads off along
+// `tangent` (perpendicular unit vectors): the inverse of rotateToWorld
+function getFrameOrientation(radial: [number, number, number], tangent: [number, number, number]): RayOrientation {
+  const theta = Math.acos(Math.max(-1, Math.min(1, radial[2])));
+  const phi = Math.atan2(radial[1], radial[0]);
+  const ey = rotateToWorld(0, 1, 0, theta, phi, 0);
+  const ez = rotateToWorld(0, 0, 1, theta, phi, 0);
+  const dot = (u: number[]) => u[0] * tangent[0] + u[1] * tangent[1] + u[2] * tangent[2];
+  return { theta, phi, psi: Math.atan2(dot(ez), dot(ey)) };
+}
+
+// Ray of a beam travelling down the -Z axis at transverse offset (x, y). It starts
+// on r = r_start where the ray with impact parameter b = |(x, y)| heads exactly along
+// -Z, i.e. at sin α = b sqrt(f) / r from the inward radial, so the bundle is parallel.
+function getParallelOrientation(x: number, y: number, rStart: number, fStart: number): RayOrientation {
+  const b = Math.hypot(x, y);
+  const sinAlpha = Math.min(1, (b * Math.sqrt(fStart)) / rStart);
+  const cosAlpha = Math.sqrt(1 - sinAlpha * sinAlpha);
+  const [ux, uy] = b > 0 ? [x / b, y / b] : [1, 0];
+  return getFrameOrientation(
+    [ux * sinAlpha, uy * sinAlpha, cosAlpha],
+    [ux * cosAlpha, uy * cosAlpha, -sinAlpha]
+  );
+}
+
+// Scene coordinates of a ray's points. Rays that share a planar trajectory carry
+// only its orientation, so the rotation is applied here (as one matrix per ray).
+export function getWorldTransform(orientation: RayOrientation | null): (p: Point3D) => [number, number, number] {
+  if (!orientation) return p => [p.x, p.y, p.z];
+  const { theta, phi, psi } = orientation;
+  const ex = rotateToWorld(1, 0, 0, theta, phi, psi);
+  const ey = rotateToWorld(0, 1, 0, theta, phi, psi);
+  const ez = rotateToWorld(0, 0, 1, theta, phi, psi);
+  return p => [
+    ex[0] * p.x + ey[0] * p.y + ez[0] * p.z,
+    ex[1] * p.x + ey[1] * p.y + ez[1] * p.z,
+    ex[2] * p.x + ey[2] * p.y + ez[2] * p.z,
+  ];
+}
+
+export function buildRays(b: number, mass: number, count: number, seed: number, distMode: DistributionMode, impactMode: ImpactMode, opts: BuildOptions = {}): RayPath[] {
   const rng = mulberry32(seed);
   const result: RayPath[] = [];
-  const bCrit = 3 * Math.sqrt(3) * mass;
+  const spacetime = opts.spacetime ?? DEFAULT_SPACETIME;
+  const bCrit = getCriticalB(mass, spacetime);
+  const integrator = opts.integrator ?? DEFAULT_INTEGRATOR;
+  const kerrSpin = spacetime.kind === 'kerr' ? spacetime.spin * mass : null;
+
+  const horizons = getHorizons(mass, spacetime);
+  const { rStart, rEscape, rEmit: rEmitter } = getSourceRadii(mass, spacetime, opts.emitter);
+  const metric = getMetric(mass, spacetime);
+  // Local emitters send out light from the sources that only spread orientations;
+  // massive particles keep their own launch point
+  const isMassive = opts.particle?.type === 'massive';
+  const rEmit = isMassive || !spreadsOrientations(distMode) ? null : rEmitter;
+  const emitAngle = ((opts.emitter ?? DEFAULT_EMITTER).angle * Math.PI) / 180;
+  // An orbiting hot spot flashes evenly over one orbit; each flash sends the primary
+  // and the secondary image towards the distant observer, as consecutive rays
+  const hotSpot = !isMassive && spreadsOrientations(distMode) && opts.emitter?.mode === 'hot-spot'
+    ? getHotSpotOrbit(mass, spacetime, opts.emitter)
+    : null;
+
+  const source = opts.source ?? DEFAULT_SOURCE;
+  const total = getSourceRayCount(distMode, count, source);
+  const flashes = Math.ceil(total / 2);
+  const grid = distMode === 'plane-wave' ? getBeamGrid(source) : [];
+  const rPoint = clampEmissionRadius(source.pointDistance * mass, horizons.event, rEscape);
+  const cosCone = Math.cos((Math.min(90, Math.max(0, source.coneAngle)) * Math.PI) / 180);
+
+  // Massive particles share one (E, L) pair, so every ray reuses one planar orbit
+  // and only the orbital plane varies
+  let massive: { energy: number; angularMomentum: number; rLaunch: number; integrator: IntegratorSettings } | null = null;
+  if (opts.particle?.type === 'massive') {
+    const { energy, angularMomentum } = resolveParticleConstants(opts.particle, mass, spacetime);
+    const rOuter = horizons.cosmological !== null ? 0.999 * horizons.cosmological : 1000 * mass;
+    const rLaunch = getMassiveLaunchRadius(energy, angularMomentum, metric, horizons.event, rOuter, rStart);
+    const massiveIntegrator = { ...integrator, step: integrator.step * MASSIVE_STEP_SCALE, maxStep: integrator.maxStep * MASSIVE_STEP_SCALE };
+    massive = { energy, angularMomentum, rLaunch, integrator: massiveIntegrator };
+  }
+  const photonMaxSteps = getPhotonMaxSteps(rStart, integrator);
+  const photonOpts: PlanarOptions = { integrator, maxSteps: photonMaxSteps, rStart, rEscape, spacetime, emitted: false, outward: false };
+
+  // Random-mode impact parameters, interpolated from a table over their range
+  const impact = opts.impact ?? DEFAULT_IMPACT;
+  const minB = Math.min(impact.min, impact.max) * mass;
+  const maxB = Math.max(impact.min, impact.max) * mass;
+  const randomB = impactMode === 'random' && !isMassive && (spreadsOrientations(distMode) || distMode === 'ring');
+  const sampleB = createImpactSampler(impact, total, seed, mass, spacetime);
   
-  for (let i = 0; i < count; i++) {
+  for (let i = 0; i < total; i++) {
     // Determine orientation angles
-    let theta: number; // Polar angle for start position (from Y axis)
-    let phi_sphere: number; // Azimuthal angle for start position (around Y axis)
-    let psi: number; // Plane rotation angle (spin around the radial vector)
+    let theta = 0; // Polar angle for start position (from Z axis)
+    let phi_sphere = 0; // Azimuthal angle for start position (around Z axis)
+    let psi = 0; // Plane rotation angle (spin around the radial vector)
 
     if (distMode === 'isotropic') {
        // Random point on sphere: z = 2*rng-1, theta = acos(z)
@@ -139,94 +763,184 @@ export function buildRays(b: number, mass: number, count: number, seed: number,
        // 2D Plane mode (Equatorial Plane)
        theta = Math.PI / 2; // On equator
        phi_sphere = rng() * Math.PI * 2; // Random spot on the ring
-       psi = 0; // No tilt, keep orbit in the equatorial plane
-    } else {
+       // No tilt, keep orbit in the equatorial plane. With spin, alternate the sense
+       // of circulation so both prograde and retrograde rays are shown.
+       psi = kerrSpin !== null && i % 2 === 1 ? Math.PI : 0;
+    } else if (distMode === 'beam') {
        // Beam Mode (Point Source / Focused)
        // Start at North Pole
        theta = 0; 
        phi_sphere = 0;
        // Distribute plane angles uniformly to create a clean cone/bundle effect
        // If count is 1, psi=0.
-       psi = (i / Math.max(1, count)) * Math.PI * 2; 
+       psi = (i / Math.max(1, total)) * Math.PI * 2; 
     }
 
     // Determine Impact Parameter for this ray
     let currentB = b;
-    if (impactMode === 'random') {
-       // Random range: [2.5 * M, 7.5 * M]
-       // Covers the critical value (~5.2 * M) well
-       const minB = 2.5 * mass;
-       const maxB = 7.5 * mass;
-       currentB = minB + rng() * (maxB - minB);
+    // Rays emitted at a finite radius, at `angle` from the outward radial direction
+    let launch: { r: number; angle: number } | null = null;
+    if (rEmit !== null) {
+       // The slider angle, or isotropic emission in the emitter's rest frame
+       const angle = impactMode === 'random' ? Math.acos(1 - 2 * rng()) : emitAngle;
+       launch = { r: rEmit, angle };
+       currentB = getEmissionImpactParameter(angle, rEmit, mass, spacetime);
+    } else if (randomB) {
+       currentB = sampleB();
     }
 
-    // Compute planar trajectory starting at r=100, phi=0
-    const res = computeTrajectory(currentB, mass, { dLambda: 0.05, maxSteps: 6000, rStart: 100, phi0: 0 });
-    
-    // Determine color based on trajectory fate
-    let color: string;
-    if (res.crossed) {
-        // Trapped in event horizon
-        color = "#ff3333"; // Red
-    } else {
-        // Escaped
-        // "Around critical" but not trapped.
-        // If b is within 25% of critical value, consider it "influenced" enough to be blue
-        if (currentB < 1.25 * bCrit) {
-            color = "#4488ff"; // Blue (Strong lensing/deflection)
-        } else {
-            color = "#eab308"; // Yellow (Safe pass)
-        }
+    // Sources with their own layout set b and the orientation together
+    if (distMode === 'plane-wave') {
+       // Parallel bundle down the -Z axis, one ray per grid point
+       const [x, y] = grid[i];
+       currentB = Math.hypot(x, y) * mass;
+       ({ theta, phi: phi_sphere, psi } = getParallelOrientation(x * mass, y * mass, rStart, metric.f(rStart)));
+    } else if (distMode === 'ring') {
+       // Parallel rays on a circle of radius b around the -Z axis
+       const ang = (i / Math.max(1, total)) * Math.PI * 2;
+       ({ theta, phi: phi_sphere, psi } = getParallelOrientation(currentB * Math.cos(ang), currentB * Math.sin(ang), rStart, metric.f(rStart)));
+    } else if (distMode === 'point') {
+       // Point at r_point on the +Z axis filling a cone aimed at the hole: evenly by
+       // solid angle on a sunflower spiral, or at random
+       const u = impactMode === 'random' ? rng() : (i + 0.5) / Math.max(1, total);
+       psi = impactMode === 'random' ? rng() * Math.PI * 2 : i * Math.PI * (3 - Math.sqrt(5));
+       const angle = Math.PI - Math.acos(1 - u * (1 - cosCone));
+       launch = { r: rPoint, angle };
+       currentB = getEmissionImpactParameter(angle, rPoint, mass, spacetime);
+    } else if (distMode === 'list') {
+       const entry = source.list[i];
+       const toRad = Math.PI / 180;
+       currentB = entry.b * mass;
+       theta = entry.theta * toRad;
+       phi_sphere = entry.phi * toRad;
+       psi = entry.psi * toRad;
     }
 
-    // Transform points from local planar 2D to global 3D
-    const points3D: Point3D[] = res.points.map(p => {
-      // 0. Local plane coordinates (Trajectory lies in local XY plane initially)
-      const lx = p.r * Math.cos(p.phi);
-      const ly = p.r * Math.sin(p.phi);
-      const lz = 0;
-      
-      // 1. Rotate around local X by psi (Spin the orbital plane)
-      const x1 = lx;
-      const y1 = ly * Math.cos(psi) - lz * Math.sin(psi);
-      const z1 = ly * Math.sin(psi) + lz * Math.cos(psi);
-      
-      // 2. Rotate around Y by beta = theta - PI/2
-      //    (Tilts the "North Pole" of our system to match the target latitude theta)
-      const beta = theta - Math.PI/2;
-      const cb = Math.cos(beta);
-      const sb = Math.sin(beta);
-      const x2 = x1 * cb + z1 * sb;
-      const z2 = -x1 * sb + z1 * cb;
-      const y2 = y1;
-      
-      // 3. Rotate around Z by phi_sphere
-      //    (Rotates to the correct longitude)
-      const cp = Math.cos(phi_sphere);
-      const sp = Math.sin(phi_sphere);
-      const x = x2 * cp - y2 * sp;
-      const y = x2 * sp + y2 * cp;
-      const z = z2;
-
-      return {
-        ...p,
-        x,
-        y,
-        z
-      };
-    });
+    let launchTime = 0;
+    if (hotSpot) {
+       launchTime = (Math.floor(i / 2) * hotSpot.period) / flashes;
+       const emission = getHotSpotEmission(hotSpot, launchTime, i % 2 === 0 ? 'primary' : 'secondary');
+       // Without a solution (an observer exactly behind a caustic) fall back to radial light
+       const phase = hotSpot.omega * launchTime;
+       const radial: [number, number, number] = emission?.radial ?? [Math.cos(phase), Math.sin(phase), 0];
+       const tangent: [number, number, number] = emission?.tangent ?? [0, 0, 1];
+       launch = { r: hotSpot.rSpot, angle: emission?.alpha ?? 0 };
+       currentB = emission?.b ?? 0;
+       ({ theta, phi: phi_sphere, psi } = getFrameOrientation(radial, tangent));
+    }
+    // Random start offset for continuous mode; hot-spot flashes keep their own timing
+    const timeOffset = hotSpot ? 0 : Math.floor(rng() * 400);
+    if (opts.range && (i < opts.range.start || i >= opts.range.end)) continue;
+
+    let res: Omit<TrajectoryResult, 'points'> & { observables: RayObservables };
+    let points: Point3D[];
+    let orientation: RayOrientation | null = null;
+
+    if (kerrSpin !== null) {
+      // Kerr orbits are not planar: launch the same local initial data in 3D and
+      // let the full geodesic equations decide where it goes
+      const rLaunch = massive ? massive.rLaunch : launch?.r ?? rStart;
+      let radial: number;
+      let tangential: number;
+      if (launch) {
+        // The emission angle is taken in the emitter's own frame (see KerrLaunch)
+        radial = Math.cos(launch.angle);
+        tangential = Math.sin(launch.angle);
+      } else if (massive) {
+        // Radial speed from Kerr's radial potential, R = r^4 (E^2 - V_eff), with L split
+        // into L_z and the Carter constant by the tilt of the orbital plane
+        const L = massive.angularMomentum;
+        const Lz = L * rotateToWorld(0, 0, 1, theta, phi_sphere, psi)[2];
+        const R = getKerrRadialPotential(mass, kerrSpin, 1, massive.energy, Lz, L * L - Lz * Lz)(rLaunch);
+        radial = -Math.sqrt(Math.max(0, R)) / (rLaunch * rLaunch);
+        tangential = L / rLaunch;
+      } else {
+        const sinAlpha = Math.min(1, currentB / rLaunch);
+        radial = -Math.sqrt(1 - sinAlpha * sinAlpha);
+        tangential = sinAlpha;
+      }
+      const norm = Math.hypot(radial, tangential) || 1;
+      const kerrRes = computeKerrTrajectory(
+        {
+          position: rotateToWorld(rLaunch, 0, 0, theta, phi_sphere, psi),
+          direction: rotateToWorld(radial / norm, tangential / norm, 0, theta, phi_sphere, psi),
+          planeNormal: rotateToWorld(0, 0, 1, theta, phi_sphere, psi),
+          kappa: massive ? 1 : 0,
+          energy: massive ? massive.energy : 1,
+          angularMomentum: massive ? massive.angularMomentum : currentB,
+          emitted: launch !== null,
+        },
+        mass,
+        kerrSpin,
+        { integrator: massive ? massive.integrator : integrator, maxSteps: massive ? MASSIVE_MAX_STEPS : photonMaxSteps, rEscape }
+      );
+      const observables = measureRay(kerrRes.points, {
+        mass,
+        escaped: kerrRes.escaped,
+        emitted: launch !== null,
+        horizonIndex: kerrRes.horizonIndex,
+        planar: false,
+        metric,
+        kappa: massive ? 1 : 0,
+        energy: massive ? massive.energy : 1,
+        angularMomentum: massive ? massive.angularMomentum : currentB,
+      });
+      res = { ...kerrRes, periapsisAdvance: NaN, observables };
+      points = kerrRes.points;
+    } else {
+      // Planar trajectory starting at phi=0 on r=rStart, or where the ray is emitted;
+      // the ray itself only records how its plane is oriented
+      let planar: PlanarTrajectory;
+      if (massive) {
+        planar = getPlanarTrajectory(
+          { kappa: 1, energy: massive.energy, angularMomentum: massive.angularMomentum },
+          mass,
+          { ...photonOpts, integrator: massive.integrator, maxSteps: MASSIVE_MAX_STEPS, rStart: massive.rLaunch }
+        );
+      } else if (launch) {
+        // Random emission angles and hot-spot flashes are one-offs, not worth caching
+        planar = getPlanarTrajectory(
+          { kappa: 0, energy: 1, angularMomentum: currentB },
+          mass,
+          { ...photonOpts, rStart: launch.r, emitted: true, outward: Math.cos(launch.angle) > 0 },
+          impactMode !== 'random' && !hotSpot
+        );
+      } else if (randomB && maxB > minB) {
+        planar = getTabulatedTrajectory(currentB, minB, maxB, bCrit, mass, photonOpts);
+      } else {
+        planar = getPlanarTrajectory({ kappa: 0, energy: 1, angularMomentum: currentB }, mass, photonOpts);
+      }
+      res = planar;
+      points = planar.points;
+      orientation = { theta, phi: phi_sphere, psi };
+    }
+    if (massive) currentB = massive.angularMomentum / massive.energy;
+    
+    // Colour by trajectory fate; the canvas can recolour with other thresholds
+    const color = FATE_COLORS[getFateCategory({ ...res, particle: massive ? 'massive' : 'photon', b: currentB }, bCrit)];
     
     result.push({
       id: `${seed}-${i}`,
       b: currentB,
       phi0: 0,
       color,
-      points: points3D,
+      points,
+      orientation,
       crossed: res.crossed,
       escaped: res.escaped,
       turned: res.turned,
-      timeOffset: Math.floor(rng() * 400) // Random start offset for continuous mode
+      horizonIndex: res.horizonIndex,
+      singularityLambda: res.singularityLambda,
+      timeOffset,
+      launchTime,
+      stepSizes: res.stepSizes,
+      maxConstraintError: res.maxConstraintError,
+      particle: massive ? 'massive' : 'photon',
+      energy: massive ? massive.energy : 1,
+      angularMomentum: massive ? massive.angularMomentum : currentB,
+      periapsisAdvance: res.periapsisAdvance,
+      ...res.observables
     });
   }
   return result;
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+import { Point3D, RayPath, PlaybackClock, SpacetimeSettings, IntegratorSettings, ParticleType } from '../types';
+import { getMetric, getHorizons } from './metrics';
+import { MASSIVE_STEP_SCALE } from './physics';
+import { getKerrErgosphereRadius } from './kerr';
+
+// Playback runs on one of three clocks shared by every ray, all starting at 0 when
+// the rays leave the source:
+// - affine: λ along each ray (proper time for massive particles)
+// - coordinate: t, the time of static observers far from the hole
+// - observer: proper time of a static observer at r_obs, sqrt(f(r_obs)) t
+
+// Clock advance per animation frame at speed 1x; matches one integration step
+export function getClockRate(integrator: IntegratorSettings, particle: ParticleType) {
+  return integrator.step * (particle === 'massive' ? MASSIVE_STEP_SCALE : 1);
+}
+
+// dτ_obs/dt for a static observer at r_obs (units of M), kept inside the static region.
+// For Kerr the observer sits on the equator, where -g_tt = 1 - 2Mr/Σ with Σ = r^2 + a^2 cos^2 θ
+// = r^2; static observers there need r beyond the ergosphere's r_E = 2M, not just r_+.
+export function getObserverClockFactor(mass: number, spacetime: SpacetimeSettings, observerRadius: number) {
+  if (spacetime.kind === 'kerr') {
+    const a = spacetime.spin * mass;
+    const r = Math.max(observerRadius * mass, 1.01 * getKerrErgosphereRadius(mass, a, 0));
+    const sigma = r * r; // cos θ = 0
+    return Math.sqrt(Math.max(0, 1 - (2 * mass * r) / sigma));
+  }
+  const { event, cosmological } = getHorizons(mass, spacetime);
+  let r = Math.max(observerRadius * mass, 1.01 * event);
+  if (cosmological !== null) r = Math.min(r, 0.99 * cosmological);
+  return Math.sqrt(Math.max(0, getMetric(mass, spacetime).f(r)));
+}
+
+export function getClockValue(p: Point3D, clock: PlaybackClock, observerFactor: number) {
+  if (clock === 'affine') return p.lambda;
+  return clock === 'coordinate' ? p.t : observerFactor * p.t;
+}
+
+// Last point a clock reaches. Distant clocks never see a ray cross the horizon: its
+// t diverges there, so the ray appears to freeze just outside.
+export function getClockEndIndex(ray: RayPath, clock: PlaybackClock) {
+  if (clock !== 'affine' && ray.horizonIndex > 0) return ray.horizonIndex - 1;
+  return ray.points.length - 1;
+}
+
+export function getClockDuration(ray: RayPath, clock: PlaybackClock, observerFactor: number) {
+  return getClockValue(ray.points[getClockEndIndex(ray, clock)], clock, observerFactor);
+}
+
+export interface ClockSample {
+  index: number; // Point at or just before the clock value
+  frac: number; // Fraction of the way to the next point
+}
+
+// Where a ray is when the shared clock reads `value`. Clock values increase along
+// every ray, so this is a binary search plus linear interpolation.
+export function locateOnClock(ray: RayPath, clock: PlaybackClock, observerFactor: number, value: number): ClockSample {
+  const end = getClockEndIndex(ray, clock);
+  const at = (i: number) => getClockValue(ray.points[i], clock, observerFactor);
+  if (end <= 0 || value <= at(0)) return { index: 0, frac: 0 };
+  if (value >= at(end)) return { index: end, frac: 0 };
+  let lo = 0;
+  let hi = end;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (at(mid) <= value) lo = mid; else hi = mid;
+  }
+  const c0 = at(lo);
+  const c1 = at(hi);
+  return { index: lo, frac: c1 > c0 ? (value - c0) / (c1 - c0) : 0 };
+}
+
+// Clock reading at which a ray leaves its source. Launch times are coordinate times;
+// the affine clock reads them as they are, which holds for light far from the hole.
+export function getLaunchReading(ray: RayPath, clock: PlaybackClock, observerFactor: number) {
+  return clock === 'observer' ? observerFactor * ray.launchTime : ray.launchTime;
+}
+
+// Coordinate time t at a reading of the shared clock, with the same convention
+export function getCoordinateTime(value: number, clock: PlaybackClock, observerFactor: number) {
+  return clock === 'observer' && observerFactor > 0 ? value / observerFactor : value;
+}
+
+// Where a ray is drawn when the shared clock reads `time`: counted from its launch
+// and, in continuous mode, cycling with its random offset and a pause between
+// passes. Null while the ray is not on screen (not launched yet, or between passes).
+export function getPlaybackSample(ray: RayPath, time: number, clock: PlaybackClock, observerFactor: number, isContinuous: boolean, clockRate: number): ClockSample | null {
+  let value = time - getLaunchReading(ray, clock, observerFactor);
+  const duration = getClockDuration(ray, clock, observerFactor);
+  if (isContinuous) {
+    const cycleLength = duration + 60 * clockRate;
+    value = (((value + ray.timeOffset * clockRate) % cycleLength) + cycleLength) % cycleLength;
+  }
+  if (value < 0 || (isContinuous && !(value <= duration))) return null;
+  return locateOnClock(ray, clock, observerFactor, value);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getAllowedIntervals, getRadialPotential } from './potential';
+import { buildRays, DEFAULT_SPACETIME } from './physics';
+
+const grid = (lo: number, hi: number, step: number) =>
+  Array.from({ length: Math.round((hi - lo) / step) + 1 }, (_, k) => lo + k * step);
+
+describe('radial potentials', () => {
+  it('peaks at 1/27M^2 on the photon sphere for light', () => {
+    const { potential, level } = getRadialPotential({ particle: 'photon', energy: 1, angularMomentum: 8 }, 1, DEFAULT_SPACETIME);
+    expect(level).toBeCloseTo(1 / 64, 12);
+    expect(potential(3)).toBeCloseTo(1 / 27, 12);
+    expect(potential(3)).toBeGreaterThan(potential(2.9));
+    expect(potential(3)).toBeGreaterThan(potential(3.1));
+  });
+
+  it('splits a scattered photon into a captured and an escaping region at its periapsis', () => {
+    const [ray] = buildRays(8, 1, 1, 1, 'planar', 'fixed');
+    const intervals = getAllowedIntervals(getRadialPotential(ray, 1, DEFAULT_SPACETIME), grid(2, 100, 0.01));
+    expect(intervals).toHaveLength(2);
+    expect(intervals[0][0]).toBe(2);
+    expect(intervals[1][1]).toBe(100);
+    // r^3 - b^2 r + 2Mb^2 changes sign at the turning point
+    const rTurn = intervals[1][0];
+    const turning = (r: number) => r ** 3 - 64 * r + 128;
+    expect(turning(rTurn - 0.01)).toBeLessThan(0);
+    expect(turning(rTurn)).toBeGreaterThanOrEqual(0);
+    expect(ray.rMin).toBeCloseTo(rTurn, 1);
+  });
+
+  it('lets light below b_crit through everywhere', () => {
+    const potential = getRadialPotential({ particle: 'photon', energy: 1, angularMomentum: 5 }, 1, DEFAULT_SPACETIME);
+    expect(getAllowedIntervals(potential, grid(2, 100, 0.01))).toEqual([[2, 100]]);
+  });
+
+  it('confines a bound massive particle between its periapsis and apoapsis', () => {
+    const potential = getRadialPotential({ particle: 'massive', energy: Math.sqrt(0.95), angularMomentum: 4 }, 1, DEFAULT_SPACETIME);
+    expect(potential.level).toBeCloseTo(0.95, 12);
+    const intervals = getAllowedIntervals(potential, grid(2, 100, 0.01));
+    expect(intervals).toHaveLength(2);
+    const [periapsis, apoapsis] = intervals[1];
+    expect(apoapsis).toBeLessThan(100);
+    [periapsis, apoapsis].forEach(r => expect(potential.potential(r)).toBeCloseTo(0.95, 3));
+  });
+});
@@ -0,0 +1,38 @@
+import { RayPath, SpacetimeSettings } from '../types';
+import { getMetric } from './metrics';
+
+// Radial motion in a static spherical metric as a particle in a potential.
+// Light: (dr/dλ)^2 / L^2 = 1/b^2 - V with V = f(r)/r^2, so the level is 1/b^2.
+// Massive particles: (dr/dτ)^2 = E^2 - V with V = f(r)(1 + L^2/r^2), level E^2.
+// The ray can only be where V <= level.
+
+export interface RadialPotential {
+  potential: (r: number) => number;
+  level: number;
+}
+
+// Kerr gets its a = 0 limit
+export function getRadialPotential(ray: Pick<RayPath, 'particle' | 'energy' | 'angularMomentum'>, mass: number, spacetime: SpacetimeSettings): RadialPotential {
+  const { f } = getMetric(mass, spacetime.kind === 'kerr' ? { ...spacetime, kind: 'schwarzschild' } : spacetime);
+  const L = ray.angularMomentum;
+  if (ray.particle === 'photon') {
+    return { potential: r => f(r) / (r * r), level: (ray.energy * ray.energy) / (L * L) };
+  }
+  return { potential: r => f(r) * (1 + (L * L) / (r * r)), level: ray.energy * ray.energy };
+}
+
+// Stretches of [rLo, rHi] (sampled on `radii`) where the ray is allowed, V <= level
+export function getAllowedIntervals(potential: RadialPotential, radii: number[]): [number, number][] {
+  const intervals: [number, number][] = [];
+  let start: number | null = null;
+  radii.forEach((r, k) => {
+    const allowed = potential.potential(r) <= potential.level;
+    if (allowed && start === null) start = r;
+    if (!allowed && start !== null) {
+      intervals.push([start, radii[k - 1]]);
+      start = null;
+    }
+  });
+  if (start !== null) intervals.push([start, radii[radii.length - 1]]);
+  return intervals;
+}
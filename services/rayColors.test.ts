@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { RayColorSettings } from '../types';
+import { MAX_SHIFT, MIN_SHIFT, shiftToColor } from './colormap';
+import { buildRays, getCriticalB } from './physics';
+import { createRayColoring, DEFAULT_RAY_COLORS, getRayColorLegend } from './rayColors';
+
+const bCrit = getCriticalB(1);
+const trace = (b: number) => buildRays(b, 1, 1, 1, 'planar', 'fixed')[0];
+const colorOf = (settings: RayColorSettings, b: number) => {
+  const ray = trace(b);
+  return createRayColoring(settings, bCrit).colorRay(ray)(ray.points[0]);
+};
+
+describe('createRayColoring', () => {
+  it('paints each fate in its own colour', () => {
+    const settings: RayColorSettings = {
+      ...DEFAULT_RAY_COLORS,
+      mode: 'fate',
+      fateColors: { captured: '#ff0000', strong: '#00ff00', escaped: '#0000ff', bound: '#ffffff' },
+    };
+    expect(colorOf(settings, 3)).toEqual([1, 0, 0]);
+    expect(colorOf(settings, 1.1 * bCrit)).toEqual([0, 1, 0]);
+    expect(colorOf(settings, 20)).toEqual([0, 0, 1]);
+  });
+
+  it('puts b_crit in the white middle of the impact colormap', () => {
+    const [r, g, b] = colorOf({ ...DEFAULT_RAY_COLORS, mode: 'impact' }, bCrit)!;
+    expect(r).toBeCloseTo(g, 6);
+    expect(g).toBeCloseTo(b, 6);
+    expect(r).toBeGreaterThan(0.9);
+  });
+
+  it('leaves the deflection of captured light uncoloured', () => {
+    const settings: RayColorSettings = { ...DEFAULT_RAY_COLORS, mode: 'deflection' };
+    expect(colorOf(settings, 3)).toBeNull();
+    expect(colorOf(settings, 20)).not.toBeNull();
+  });
+
+  it('stretches the chosen shift range over the whole colormap', () => {
+    const settings: RayColorSettings = { ...DEFAULT_RAY_COLORS, mode: 'shift', shiftRange: [0.5, 2] };
+    const ray = trace(20);
+    const color = createRayColoring(settings, bCrit).colorRay(ray);
+    const at = (shift: number) => color({ ...ray.points[0], shift });
+    expect(at(0.5)).toEqual(shiftToColor(MIN_SHIFT));
+    expect(at(2)).toEqual(shiftToColor(MAX_SHIFT));
+    expect(at(0.1)).toEqual(shiftToColor(MIN_SHIFT));
+    expect(at(NaN)).toBeNull();
+  });
+});
+
+describe('getRayColorLegend', () => {
+  it('lists the fates a particle can have', () => {
+    const settings: RayColorSettings = { ...DEFAULT_RAY_COLORS, mode: 'fate' };
+    const light = getRayColorLegend(settings, bCrit, 1, false);
+    const matter = getRayColorLegend(settings, bCrit, 1, true);
+    expect(light.kind === 'swatches' && light.items.map(item => item.label)).toEqual(['Captured', 'Strongly lensed (b < 1.25 b_crit)', 'Escaped']);
+    expect(matter.kind === 'swatches' && matter.items.map(item => item.label)).toEqual(['Captured', 'Escaped', 'Bound']);
+  });
+
+  it('ticks the impact colormap around b_crit and saturates the winding one', () => {
+    const impact = getRayColorLegend({ ...DEFAULT_RAY_COLORS, mode: 'impact', impactSpan: 0.5 }, bCrit, 1, false);
+    expect(impact.kind === 'gradient' && impact.ticks.map(tick => tick.label)).toEqual([
+      (0.5 * bCrit).toFixed(2),
+      bCrit.toFixed(2),
+      (1.5 * bCrit).toFixed(2),
+    ]);
+    const winding = getRayColorLegend({ ...DEFAULT_RAY_COLORS, mode: 'winding', maxWindings: 3 }, bCrit, 1, false);
+    expect(winding.kind === 'gradient' && winding.ticks.map(tick => tick.label)).toEqual(['0', '1', '2', '3+']);
+  });
+});
@@ -0,0 +1,200 @@
+import { FateCategory, Point3D, RayColorSettings, RayPath } from '../types';
+import { getWorldTransform } from './physics';
+import { FATE_LABELS, getFateCategory, STRONG_LENSING_FACTOR } from './observables';
+import { shiftToColor, shiftGradientCss, MIN_SHIFT, MAX_SHIFT, FATE_COLORS } from './colormap';
+
+// Colours of whole trails by one property of the ray, or of each point by its frequency
+// shift. Colours are [0, 1] triples in the same convention as the blackbody colormap.
+
+type RGB = [number, number, number];
+
+export const DEFAULT_RAY_COLORS: RayColorSettings = {
+  mode: 'shift',
+  fateColors: FATE_COLORS,
+  strongFactor: STRONG_LENSING_FACTOR,
+  impactSpan: 0.5,
+  maxWindings: 3,
+  maxDeflection: Math.PI,
+  orientationOffset: 0,
+  shiftRange: [MIN_SHIFT, MAX_SHIFT],
+};
+
+// Sequential (viridis) and diverging (red - white - blue) colormaps, as even stops
+const SEQUENTIAL: RGB[] = [
+  [0.267, 0.005, 0.329],
+  [0.231, 0.322, 0.545],
+  [0.129, 0.569, 0.549],
+  [0.369, 0.788, 0.384],
+  [0.992, 0.906, 0.145],
+];
+const DIVERGING: RGB[] = [
+  [0.698, 0.094, 0.169],
+  [0.937, 0.541, 0.384],
+  [0.969, 0.969, 0.969],
+  [0.404, 0.663, 0.812],
+  [0.129, 0.4, 0.675],
+];
+
+function sampleStops(stops: RGB[], u: number): RGB {
+  const x = Math.min(1, Math.max(0, u)) * (stops.length - 1);
+  const k = Math.min(stops.length - 2, Math.floor(x));
+  const t = x - k;
+  return [0, 1, 2].map(c => stops[k][c] + t * (stops[k + 1][c] - stops[k][c])) as RGB;
+}
+
+function hslToRgb(h: number, s: number, l: number): RGB {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const f = (n: number) => {
+    const k = (n + h * 12) % 12;
+    return l - (c / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+function hexToRgb(hex: string): RGB {
+  const v = parseInt(hex.replace('#', ''), 16);
+  return [((v >> 16) & 255) / 255, ((v >> 8) & 255) / 255, (v & 255) / 255];
+}
+
+const toCss = ([r, g, b]: RGB) => `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+
+// Evenly spaced colours along a colormap, for gradients outside CSS (SVG figures)
+function gradientStops(color: (u: number) => RGB, stops = 16): string[] {
+  return Array.from({ length: stops + 1 }, (_, i) => toCss(color(i / stops)));
+}
+
+function gradientCss(color: (u: number) => RGB, stops = 16) {
+  const parts = gradientStops(color, stops).map((css, i) => `${css} ${((100 * i) / stops).toFixed(1)}%`);
+  return `linear-gradient(to right, ${parts.join(', ')})`;
+}
+
+// A colormap as both forms the legends need
+const colormapGradient = (color: (u: number) => RGB) => ({ gradient: gradientCss(color), stops: gradientStops(color) });
+
+// Azimuth and elevation (radians) of the direction a ray sets off in, in the scene
+function getEmissionDirection(ray: RayPath): { azimuth: number; elevation: number } {
+  const toWorld = getWorldTransform(ray.orientation);
+  const [x0, y0, z0] = toWorld(ray.points[0]);
+  const [x1, y1, z1] = toWorld(ray.points[1]);
+  const [dx, dy, dz] = [x1 - x0, y1 - y0, z1 - z0];
+  return { azimuth: Math.atan2(dy, dx), elevation: Math.asin(Math.max(-1, Math.min(1, dz / (Math.hypot(dx, dy, dz) || 1)))) };
+}
+
+export interface RayColoring {
+  // Colour of each point of a ray, null where the property is undefined
+  colorRay: (ray: RayPath) => (p: Point3D) => RGB | null;
+}
+
+export function createRayColoring(settings: RayColorSettings, bCrit: number): RayColoring {
+  const fate = Object.fromEntries(
+    Object.entries(settings.fateColors).map(([category, hex]) => [category, hexToRgb(hex)])
+  ) as Record<FateCategory, RGB>;
+  const [shiftLo, shiftHi] = settings.shiftRange;
+
+  const perRay = (ray: RayPath): RGB | null => {
+    switch (settings.mode) {
+      case 'fate':
+        return fate[getFateCategory(ray, bCrit, settings.strongFactor)];
+      case 'impact':
+        return sampleStops(DIVERGING, 0.5 + (0.5 * (ray.b / bCrit - 1)) / settings.impactSpan);
+      case 'winding':
+        return sampleStops(SEQUENTIAL, ray.windings / settings.maxWindings);
+      case 'deflection':
+        return isFinite(ray.deflection) ? sampleStops(SEQUENTIAL, ray.deflection / settings.maxDeflection) : null;
+      case 'orientation': {
+        const { azimuth, elevation } = getEmissionDirection(ray);
+        const hue = ((((azimuth * 180) / Math.PI - settings.orientationOffset) % 360) + 360) % 360;
+        return hslToRgb(hue / 360, 0.85, 0.5 + 0.3 * Math.sin(elevation));
+      }
+      default:
+        return null;
+    }
+  };
+
+  return {
+    colorRay: ray => {
+      if (settings.mode === 'shift') {
+        // Stretch the chosen range over the whole colormap
+        return p => {
+          if (!isFinite(p.shift) || p.shift <= 0) return null;
+          const u = Math.log(p.shift / shiftLo) / Math.log(shiftHi / shiftLo);
+          return shiftToColor(MIN_SHIFT * Math.pow(MAX_SHIFT / MIN_SHIFT, Math.min(1, Math.max(0, u))));
+        };
+      }
+      const rgb = ray.points.length > 1 ? perRay(ray) : null;
+      return () => rgb;
+    },
+  };
+}
+
+// Legend of the current mode: swatches for fates, otherwise a gradient with ticks
+// (positions in [0, 1])
+export type RayColorLegend =
+  | { kind: 'swatches'; title: string; items: { label: string; color: string }[] }
+  | { kind: 'gradient'; title: string; gradient: string; stops: string[]; ticks: { label: string; at: number }[]; ends: [string, string] };
+
+export function getRayColorLegend(settings: RayColorSettings, bCrit: number, mass: number, massive: boolean): RayColorLegend {
+  switch (settings.mode) {
+    case 'fate': {
+      const categories: FateCategory[] = massive ? ['captured', 'escaped', 'bound'] : ['captured', 'strong', 'escaped'];
+      return {
+        kind: 'swatches',
+        title: 'Fate',
+        items: categories.map(category => ({
+          label: category === 'strong' ? `${FATE_LABELS.strong} (b < ${settings.strongFactor.toFixed(2)} b_crit)` : FATE_LABELS[category],
+          color: settings.fateColors[category],
+        })),
+      };
+    }
+    case 'impact': {
+      const span = settings.impactSpan;
+      return {
+        kind: 'gradient',
+        title: 'Impact parameter b/M',
+        ...colormapGradient(u => sampleStops(DIVERGING, u)),
+        ticks: [0, 0.5, 1].map(at => ({ label: (((1 + (2 * at - 1) * span) * bCrit) / mass).toFixed(2), at })),
+        ends: ['inside b_crit', 'outside'],
+      };
+    }
+    case 'winding': {
+      const n = settings.maxWindings;
+      return {
+        kind: 'gradient',
+        title: 'Full loops',
+        ...colormapGradient(u => sampleStops(SEQUENTIAL, u)),
+        ticks: Array.from({ length: n + 1 }, (_, k) => ({ label: k === n ? `${k}+` : `${k}`, at: k / n })),
+        ends: ['none', 'many'],
+      };
+    }
+    case 'deflection': {
+      const max = settings.maxDeflection;
+      return {
+        kind: 'gradient',
+        title: 'Deflection α (rad)',
+        ...colormapGradient(u => sampleStops(SEQUENTIAL, u)),
+        ticks: [0, 0.5, 1].map(at => ({ label: (at * max).toFixed(2), at })),
+        ends: ['weak', 'strong'],
+      };
+    }
+    case 'orientation':
+      return {
+        kind: 'gradient',
+        title: 'Emission azimuth',
+        ...colormapGradient(u => hslToRgb(u, 0.85, 0.5)),
+        ticks: [0, 0.25, 0.5, 0.75].map(at => ({ label: `${((settings.orientationOffset + 360 * at) % 360).toFixed(0)}°`, at })),
+        ends: ['lighter: heading +z', 'darker: -z'],
+      };
+    default: {
+      const [lo, hi] = settings.shiftRange;
+      const atShift = (shift: number) => Math.log(shift / lo) / Math.log(hi / lo);
+      return {
+        kind: 'gradient',
+        title: 'ν / ν_emit (static observers)',
+        gradient: shiftGradientCss(),
+        stops: gradientStops(u => shiftToColor(MIN_SHIFT * Math.pow(MAX_SHIFT / MIN_SHIFT, u))!),
+        ticks: [0.25, 0.5, 1, 2, 4].filter(t => t >= lo && t <= hi).map(t => ({ label: `${t}`, at: atShift(t) })),
+        ends: ['redshift', 'blueshift'],
+      };
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { RayPath, Point3D, DistributionMode, ImpactMode } from '../types';
+import { BuildOptions } from './physics';
+import { getSharedTrajectoryKey } from './trajectoryCache';
+
+// Messages between the ray pool and its workers. Trajectories cross the thread
+// boundary as flat Float32Arrays, which are transferred instead of copied.
+
+export interface RayBuildRequest {
+  b: number;
+  mass: number;
+  count: number;
+  seed: number;
+  distMode: DistributionMode;
+  impactMode: ImpactMode;
+  opts: BuildOptions;
+}
+
+export interface RayJobMessage {
+  jobId: number;
+  request: RayBuildRequest;
+  start: number;
+  end: number;
+}
+
+// Rays that share a planar trajectory reference one packed copy of it
+export interface PackedTrajectory {
+  key: string | null; // Cache key when the trajectory is shared, see getSharedTrajectoryKey
+  data: Float32Array; // POINT_STRIDE values per point, see packRays
+  stepSizes: Float32Array;
+}
+
+export type PackedRay = Omit<RayPath, 'points' | 'stepSizes'> & {
+  trajectory: number; // Index into the batch's trajectories
+};
+
+export interface RayBatchMessage {
+  jobId: number;
+  start: number;
+  trajectories: PackedTrajectory[];
+  rays: PackedRay[];
+}
+
+// Sent instead of a batch when tracing the chunk throws
+export interface RayErrorMessage {
+  jobId: number;
+  start: number;
+  end: number;
+  error: string;
+}
+
+const POINT_STRIDE = 8;
+
+export function packRays(rays: RayPath[]): { trajectories: PackedTrajectory[]; rays: PackedRay[] } {
+  const trajectories: PackedTrajectory[] = [];
+  const indices = new Map<Point3D[], number>();
+  const packed = rays.map(ray => {
+    const { points, stepSizes, ...rest } = ray;
+    let trajectory = indices.get(points);
+    if (trajectory === undefined) {
+      const data = new Float32Array(points.length * POINT_STRIDE);
+      points.forEach((p, i) => {
+        const o = i * POINT_STRIDE;
+        data[o] = p.r;
+        data[o + 1] = p.phi;
+        data[o + 2] = p.x;
+        data[o + 3] = p.y;
+        data[o + 4] = p.z;
+        data[o + 5] = p.lambda;
+        data[o + 6] = p.t;
+        data[o + 7] = p.shift;
+      });
+      trajectory = trajectories.length;
+      trajectories.push({ key: getSharedTrajectoryKey(points) ?? null, data, stepSizes: Float32Array.from(stepSizes) });
+      indices.set(points, trajectory);
+    }
+    return { ...rest, trajectory };
+  });
+  return { trajectories, rays: packed };
+}
+
+// Shared trajectories are unpacked once per job: `shared` carries them over from
+// earlier batches. Per-point fate flags are the same for the whole ray, so they
+// are not sent.
+export function unpackRays(batch: RayBatchMessage, shared: Map<string, { points: Point3D[]; stepSizes: number[] }>): RayPath[] {
+  const unpacked: ({ points: Point3D[]; stepSizes: number[] } | undefined)[] = [];
+  return batch.rays.map(({ trajectory, ...rest }) => {
+    let entry = unpacked[trajectory];
+    if (!entry) {
+      const { key, data, stepSizes } = batch.trajectories[trajectory];
+      entry = key !== null ? shared.get(key) : undefined;
+      if (!entry) {
+        const points: Point3D[] = new Array(data.length / POINT_STRIDE);
+        for (let i = 0; i < points.length; i++) {
+          const o = i * POINT_STRIDE;
+          points[i] = {
+            r: data[o],
+            phi: data[o + 1],
+            x: data[o + 2],
+            y: data[o + 3],
+            z: data[o + 4],
+            lambda: data[o + 5],
+            t: data[o + 6],
+            shift: data[o + 7],
+            crossed: rest.crossed,
+            escaped: rest.escaped,
+            turned: rest.turned,
+          };
+        }
+        entry = { points, stepSizes: Array.from(stepSizes) };
+        if (key !== null) shared.set(key, entry);
+      }
+      unpacked[trajectory] = entry;
+    }
+    return { ...rest, ...entry };
+  });
+}
+
+export function getTransferables(trajectories: PackedTrajectory[]): ArrayBuffer[] {
+  return trajectories.flatMap(t => [t.data.buffer as ArrayBuffer, t.stepSizes.buffer as ArrayBuffer]);
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRayPool } from './rayPool';
+import { RayBatchMessage, RayBuildRequest, RayErrorMessage, RayJobMessage } from './rayPacking';
+
+// Stands in for rayWorker.ts: the chunk starting at ray 0 throws, the others trace no
+// rays, and jobs with b = 0 never finish
+class FakeWorker {
+  static spawned = 0;
+  static terminated = 0;
+  onmessage: ((event: { data: RayBatchMessage | RayErrorMessage }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  constructor() {
+    FakeWorker.spawned++;
+  }
+  postMessage({ jobId, start, end, request }: RayJobMessage) {
+    if (request.b === 0) return;
+    const reply: RayBatchMessage | RayErrorMessage = start === 0
+      ? { jobId, start, end, error: 'Bad source ray' }
+      : { jobId, start, trajectories: [], rays: [] };
+    setTimeout(() => this.onmessage?.({ data: reply }));
+  }
+  terminate() {
+    FakeWorker.terminated++;
+  }
+}
+
+const request: RayBuildRequest = { b: 4, mass: 1, count: 20, seed: 1, distMode: 'planar', impactMode: 'fixed', opts: {} };
+
+describe('createRayPool', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.spawned = 0;
+    FakeWorker.terminated = 0;
+  });
+
+  it('reports a failed chunk and still finishes the job', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const pool = createRayPool(2);
+    const batches: number[] = [];
+    const errors: [number, number, string][] = [];
+    await new Promise<void>(resolve => {
+      pool.run(request, {
+        onBatch: start => batches.push(start),
+        onError: (start, end, message) => errors.push([start, end, message]),
+        onDone: resolve,
+      });
+    });
+    pool.dispose();
+
+    expect(errors).toHaveLength(1);
+    const [[start, end, message]] = errors;
+    expect(start).toBe(0);
+    expect(message).toBe('Bad source ray');
+    // The other chunks still arrive
+    expect(batches).toHaveLength(Math.ceil((request.count - end) / end));
+    expect(batches).not.toContain(0);
+  });
+
+  it('replaces workers stuck on a cancelled job', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const pool = createRayPool(2);
+    const ignore = { onBatch: () => {}, onError: () => {}, onDone: () => {} };
+    pool.run({ ...request, b: 0 }, ignore);
+    expect(FakeWorker.spawned).toBe(2);
+    // Both workers are still on the runaway job when the next one starts
+    let finished = false;
+    await new Promise<void>(resolve => {
+      pool.run(request, { ...ignore, onDone: () => { finished = true; resolve(); } });
+    });
+    expect(finished).toBe(true);
+    expect(FakeWorker.terminated).toBe(2);
+    expect(FakeWorker.spawned).toBe(4);
+
+    // Idle workers are kept
+    pool.cancel();
+    expect(FakeWorker.spawned).toBe(4);
+    pool.dispose();
+    expect(FakeWorker.terminated).toBe(4);
+    expect(FakeWorker.spawned).toBe(4);
+  });
+});
@@ -0,0 +1,141 @@
+import { RayPath, Point3D } from '../types';
+import { unpackRays, RayBuildRequest, RayJobMessage, RayBatchMessage, RayErrorMessage } from './rayPacking';
+
+// A small pool of workers tracing rays off the main thread. A job is split into
+// chunks that idle workers pick up one at a time, so slow (e.g. orbiting) rays do
+// not hold up the rest, and results stream back chunk by chunk. Starting a new job
+// drops the queue of the old one, and workers still tracing its chunks are replaced,
+// so a runaway chunk cannot keep a worker from the jobs after it.
+// A chunk that fails is reported and skipped, so the rest of the job still arrives.
+
+export interface RayJobHandlers {
+  onBatch: (start: number, rays: RayPath[]) => void; // Rays start, start+1, ... of the job
+  onError: (start: number, end: number, message: string) => void; // Rays start..end-1 could not be traced
+  onDone: () => void;
+}
+
+// How far the current job has got
+export interface RayProgress {
+  done: number; // Rays traced or given up on
+  total: number;
+  failed: number; // Rays that could not be traced
+  error: string | null; // Why the first of them failed
+}
+
+export interface RayPool {
+  run: (request: RayBuildRequest, handlers: RayJobHandlers) => void;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+// Leave a core for the UI thread
+function getPoolSize() {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+// Enough chunks per worker for load balancing and steady progress, without
+// paying the per-message overhead on every ray
+function getChunkSize(count: number, workers: number) {
+  return Math.max(1, Math.min(32, Math.ceil(count / (workers * 4))));
+}
+
+export function createRayPool(size = getPoolSize()): RayPool {
+  const workers: Worker[] = [];
+  const assigned = new Map<Worker, { job: number; start: number; end: number } | null>(); // Chunk each worker is tracing
+  let jobId = 0;
+  let request: RayBuildRequest | null = null;
+  let handlers: RayJobHandlers | null = null;
+  let queue: { start: number; end: number }[] = [];
+  let inFlight = 0; // Chunks of the current job still being traced
+  let shared = new Map<string, { points: Point3D[]; stepSizes: number[] }>(); // Trajectories rays of this job share
+
+  const dispatch = () => {
+    for (const worker of workers) {
+      if (assigned.get(worker) !== null || !request) continue;
+      const chunk = queue.shift();
+      if (!chunk) break;
+      const message: RayJobMessage = { jobId, request, ...chunk };
+      assigned.set(worker, { job: jobId, ...chunk });
+      inFlight++;
+      worker.postMessage(message);
+    }
+  };
+
+  const finishChunk = (worker: Worker) => {
+    const chunk = assigned.get(worker);
+    assigned.set(worker, null);
+    if (chunk?.job === jobId) {
+      inFlight--;
+      if (inFlight === 0 && queue.length === 0 && handlers) {
+        const done = handlers;
+        handlers = null;
+        request = null;
+        done.onDone();
+      }
+    }
+    dispatch();
+  };
+
+  const spawn = () => {
+    const worker = new Worker(new URL('./rayWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<RayBatchMessage | RayErrorMessage>) => {
+      const message = event.data;
+      if (message.jobId === jobId && handlers) {
+        if ('error' in message) handlers.onError(message.start, message.end, message.error);
+        else handlers.onBatch(message.start, unpackRays(message, shared));
+      }
+      finishChunk(worker);
+    };
+    worker.onerror = event => {
+      // The worker itself failed (e.g. its script did not load): give up on its chunk
+      event.preventDefault();
+      const chunk = assigned.get(worker);
+      if (chunk?.job === jobId && handlers) handlers.onError(chunk.start, chunk.end, event.message || 'Ray worker failed');
+      finishChunk(worker);
+    };
+    assigned.set(worker, null);
+    return worker;
+  };
+  for (let i = 0; i < size; i++) workers.push(spawn());
+
+  const cancel = () => {
+    workers.forEach((worker, i) => {
+      if (assigned.get(worker) === null) return;
+      worker.terminate();
+      assigned.delete(worker);
+      workers[i] = spawn();
+    });
+    jobId++;
+    queue = [];
+    inFlight = 0;
+    shared = new Map();
+    request = null;
+    handlers = null;
+  };
+
+  return {
+    run: (next, nextHandlers) => {
+      cancel();
+      request = next;
+      handlers = nextHandlers;
+      const chunk = getChunkSize(next.count, workers.length);
+      for (let start = 0; start < next.count; start += chunk) {
+        queue.push({ start, end: Math.min(next.count, start + chunk) });
+      }
+      if (queue.length === 0) {
+        cancel();
+        nextHandlers.onDone();
+        return;
+      }
+      dispatch();
+    },
+    cancel,
+    dispose: () => {
+      workers.forEach(w => w.terminate());
+      workers.length = 0;
+      assigned.clear();
+      cancel();
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import { buildRays } from './physics';
+import { packRays, getTransferables, RayJobMessage, RayBatchMessage, RayErrorMessage } from './rayPacking';
+
+// Traces one chunk of rays per message; the pool decides which chunks are still wanted
+self.onmessage = (event: MessageEvent<RayJobMessage>) => {
+  const { jobId, request, start, end } = event.data;
+  const { b, mass, count, seed, distMode, impactMode, opts } = request;
+  let rays;
+  try {
+    rays = buildRays(b, mass, count, seed, distMode, impactMode, { ...opts, range: { start, end } });
+  } catch (error) {
+    const failure: RayErrorMessage = { jobId, start, end, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(failure);
+    return;
+  }
+  const message: RayBatchMessage = { jobId, start, ...packRays(rays) };
+  self.postMessage(message, { transfer: getTransferables(message.trajectories) });
+};
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFrameSink, DEFAULT_RECORDING, DISPLAY_FPS, getFrameReading, getMaxRecordingFrames, getRecordingPlan, MAX_RECORDING_FRAMES } from './recording';
+
+const playback = { time: 3, maxTime: 100, speed: 1, clockRate: 0.05, isContinuous: false };
+
+describe('getRecordingPlan', () => {
+  it('records a whole playback at the live pace', () => {
+    const plan = getRecordingPlan({ ...DEFAULT_RECORDING, fps: DISPLAY_FPS }, playback);
+    expect(plan.start).toBe(0);
+    expect(plan.step).toBeCloseTo(playback.clockRate, 12);
+    expect(getFrameReading(plan, plan.frames - 1)).toBe(playback.maxTime);
+  });
+
+  it('records continuous mode for its duration from the current reading', () => {
+    const plan = getRecordingPlan({ ...DEFAULT_RECORDING, fps: 30, duration: 4 }, { ...playback, isContinuous: true });
+    expect(plan.frames).toBe(120);
+    expect(getFrameReading(plan, 0)).toBe(playback.time);
+  });
+});
+
+describe('getMaxRecordingFrames', () => {
+  it('caps PNG recordings by their size in memory', () => {
+    const png = { ...DEFAULT_RECORDING, format: 'png' as const };
+    const fourK = getMaxRecordingFrames({ ...png, width: 3840, height: 2160 });
+    const hd = getMaxRecordingFrames({ ...png, width: 1280, height: 720 });
+    expect(fourK).toBeLessThan(hd);
+    expect(fourK * 3840 * 2160).toBeLessThan(2 ** 32);
+    expect(hd).toBeLessThanOrEqual(MAX_RECORDING_FRAMES);
+  });
+
+  it('only caps WebM recordings by frame count', () => {
+    expect(getMaxRecordingFrames({ ...DEFAULT_RECORDING, format: 'webm', width: 3840, height: 2160 })).toBe(MAX_RECORDING_FRAMES);
+  });
+});
+
+// Stamps frames with its time spent recording, like the browser's
+class FakeRecorder {
+  static isTypeSupported = () => true;
+  static last: FakeRecorder;
+  state = 'inactive';
+  elapsed = 0;
+  since = 0;
+  ondataavailable: unknown = null;
+  onstop: (() => void) | null = null;
+  constructor() { FakeRecorder.last = this; }
+  get time() { return this.elapsed + (this.state === 'recording' ? performance.now() - this.since : 0); }
+  start() { this.state = 'recording'; this.since = performance.now(); }
+  pause() { this.elapsed = this.time; this.state = 'paused'; }
+  resume() { this.state = 'recording'; this.since = performance.now(); }
+  stop() { this.state = 'inactive'; this.onstop?.(); }
+}
+
+describe('WebM frames', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('are stamped by the recording clock however slowly they render', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'performance'] });
+    vi.stubGlobal('MediaRecorder', FakeRecorder);
+    const stamps: number[] = [];
+    const track = { requestFrame: () => stamps.push(FakeRecorder.last.time), stop: () => {} };
+    const stream = { getVideoTracks: () => [track], getTracks: () => [track] };
+    const canvas = { captureStream: () => stream } as unknown as HTMLCanvasElement;
+    const sink = createFrameSink(canvas, { ...DEFAULT_RECORDING, format: 'webm', fps: 25 }, 4);
+    for (let index = 0; index < 4; index++) {
+      vi.advanceTimersByTime(300 * index); // Rendering the frame
+      const added = sink.addFrame(index);
+      await vi.runAllTimersAsync();
+      await added;
+    }
+    expect(stamps).toEqual([0, 40, 80, 120]);
+    sink.abort();
+  });
+});
@@ -0,0 +1,147 @@
+import { RecordingSettings } from '../types';
+import { createZip, ZipEntry } from './zip';
+
+// Offline recording of the 3D scene. Frames are drawn one by one from a recording clock
+// (a fixed step of the playback clock, autorotation and disk shader per frame) instead
+// of display frames, so the same scenario always gives the same frames, however slowly
+// they render.
+
+// Live playback advances once per display frame; recordings keep its pace at this rate
+export const DISPLAY_FPS = 60;
+// Upper bound on frames per recording
+export const MAX_RECORDING_FRAMES = 7200;
+// PNG frames are held in memory until zipped, so they are also capped by their
+// estimated size: about a byte per pixel for the dark scene, within a budget that
+// leaves the zip well short of its 4 GB limit
+const PNG_BYTES_PER_PIXEL = 1;
+const MAX_PNG_BYTES = 2 * 1024 ** 3;
+
+export const DEFAULT_RECORDING: RecordingSettings = {
+  format: 'webm',
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  duration: 10,
+};
+
+export const RECORDING_SIZES: { label: string; width: number; height: number }[] = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 },
+  { label: 'Square', width: 1080, height: 1080 },
+];
+
+export const RECORDING_FRAME_RATES = [24, 30, 60];
+
+export interface RecordingPlan {
+  start: number; // Clock reading of the first frame
+  step: number; // Clock units per frame
+  end: number; // Last reading; frames past it are held there
+  frames: number;
+}
+
+// A whole playback from 0 to its end, or in continuous mode `duration` seconds from the
+// current reading, at the live playback speed
+export function getRecordingPlan(
+  settings: RecordingSettings,
+  playback: { time: number; maxTime: number; speed: number; clockRate: number; isContinuous: boolean }
+): RecordingPlan {
+  const { time, maxTime, speed, clockRate, isContinuous } = playback;
+  const step = (speed * clockRate * DISPLAY_FPS) / settings.fps;
+  if (isContinuous) {
+    const frames = Math.max(1, Math.round(settings.duration * settings.fps));
+    return { start: time, step, end: Infinity, frames };
+  }
+  return { start: 0, step, end: maxTime, frames: Math.ceil(maxTime / step) + 1 };
+}
+
+// Most frames one recording at this format and size may have
+export function getMaxRecordingFrames(settings: RecordingSettings) {
+  if (settings.format !== 'png') return MAX_RECORDING_FRAMES;
+  const frameBytes = settings.width * settings.height * PNG_BYTES_PER_PIXEL;
+  return Math.max(1, Math.min(MAX_RECORDING_FRAMES, Math.floor(MAX_PNG_BYTES / frameBytes)));
+}
+
+export const getFrameReading = (plan: RecordingPlan, frame: number) => Math.min(plan.start + frame * plan.step, plan.end);
+
+export function getWebmMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+// Collects the frames drawn on the canvas and turns them into the file
+export interface FrameSink {
+  addFrame: (index: number) => Promise<void>; // Call right after the frame is drawn
+  finish: () => Promise<Blob>;
+  abort: () => void;
+  extension: string;
+}
+
+function createPngSink(canvas: HTMLCanvasElement, frames: number): FrameSink {
+  const entries: ZipEntry[] = [];
+  const digits = Math.max(4, String(frames).length);
+  return {
+    addFrame: async index => {
+      // toBlob copies the drawing buffer when called, before the next frame replaces it
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('Could not encode a PNG frame');
+      entries.push({ name: `frame-${String(index + 1).padStart(digits, '0')}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+    },
+    finish: async () => createZip(entries),
+    abort: () => { entries.length = 0; },
+    extension: 'zip',
+  };
+}
+
+function createWebmSink(canvas: HTMLCanvasElement, settings: RecordingSettings): FrameSink {
+  const mimeType = getWebmMimeType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video; use PNG frames');
+  // Frame rate 0: the stream only takes the frames it is handed
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: Math.round(0.15 * settings.width * settings.height * settings.fps),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  // MediaRecorder stamps frames with the time it has spent recording, so it is paused
+  // while a frame renders and runs for exactly one frame period per frame: the video
+  // then follows the recording clock however long each frame takes to draw
+  recorder.start();
+  recorder.pause();
+  let recorded = 0;
+  const release = () => stream.getTracks().forEach(t => t.stop());
+
+  return {
+    addFrame: async index => {
+      recorder.resume();
+      const resumedAt = performance.now();
+      track.requestFrame();
+      // Timers overshoot, so each frame is held until the total, not its own share, is due
+      const due = ((index + 1) * 1000) / settings.fps - recorded;
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, due)));
+      recorder.pause();
+      recorded += performance.now() - resumedAt;
+    },
+    finish: () => new Promise<Blob>(resolve => {
+      recorder.onstop = () => {
+        release();
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      };
+      recorder.stop();
+    }),
+    abort: () => {
+      recorder.onstop = release;
+      recorder.stop();
+    },
+    extension: 'webm',
+  };
+}
+
+export function createFrameSink(canvas: HTMLCanvasElement, settings: RecordingSettings, frames: number): FrameSink {
+  return settings.format === 'png' ? createPngSink(canvas, frames) : createWebmSink(canvas, settings);
+}
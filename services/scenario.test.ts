@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createScenario, decodeScenarioHash, DEFAULT_SCENARIO, encodeScenarioHash, parseScenario, SCENARIO_FORMAT, SCENARIO_VERSION,
+} from './scenario';
+
+const withState = (state: unknown) => ({ format: SCENARIO_FORMAT, version: SCENARIO_VERSION, name: 'Test', savedAt: '', state });
+
+describe('scenario links', () => {
+  it('round-trips a scenario through the URL hash', () => {
+    const scenario = createScenario('Photon ring', {
+      ...DEFAULT_SCENARIO,
+      seed: 42,
+      spacetime: { ...DEFAULT_SCENARIO.spacetime, kind: 'kerr', spin: 0.7 },
+      hiddenRayIds: ['ray-3'],
+      camera: { position: [1, 2, 3], target: [0, 0, 0], autoRotate: true },
+    });
+    expect(decodeScenarioHash(encodeScenarioHash(scenario))).toEqual(scenario);
+  });
+
+  it('reads no scenario from a hash without one', () => {
+    expect(decodeScenarioHash('#other=1')).toBeNull();
+  });
+
+  it('rejects scenarios from newer versions', () => {
+    expect(() => parseScenario({ ...withState({}), version: SCENARIO_VERSION + 1 })).toThrow(/newer/);
+  });
+});
+
+describe('parseScenario', () => {
+  it('fills missing fields from the defaults', () => {
+    const { state } = parseScenario(withState({ mass: 2, spacetime: { spin: 0.5 } }));
+    expect(state.mass).toBe(2);
+    expect(state.spacetime).toEqual({ ...DEFAULT_SCENARIO.spacetime, spin: 0.5 });
+    expect(state.source).toEqual(DEFAULT_SCENARIO.source);
+  });
+
+  it('drops union strings outside their set', () => {
+    const { state } = parseScenario(withState({
+      distributionMode: 'nope',
+      impactMode: 'zzz',
+      clock: 'sundial',
+      view: 'x-ray',
+      integrator: { method: 'euler', step: 0.02 },
+      spacetime: { kind: 'wormhole' },
+      rayColors: { mode: 'rainbow' },
+    }));
+    expect(state.distributionMode).toBe(DEFAULT_SCENARIO.distributionMode);
+    expect(state.impactMode).toBe(DEFAULT_SCENARIO.impactMode);
+    expect(state.clock).toBe(DEFAULT_SCENARIO.clock);
+    expect(state.view).toBe(DEFAULT_SCENARIO.view);
+    expect(state.integrator).toEqual({ ...DEFAULT_SCENARIO.integrator, step: 0.02 });
+    expect(state.spacetime.kind).toBe(DEFAULT_SCENARIO.spacetime.kind);
+    expect(state.rayColors.mode).toBe(DEFAULT_SCENARIO.rayColors.mode);
+  });
+
+  it('drops arrays with invalid entries', () => {
+    const { state } = parseScenario(withState({
+      source: { list: [null, 3] },
+      hiddenRayIds: ['ray-1', 7],
+      rayColors: { shiftRange: [0.5, 2, 3] },
+    }));
+    expect(state.source.list).toEqual(DEFAULT_SCENARIO.source.list);
+    expect(state.hiddenRayIds).toEqual([]);
+    expect(state.rayColors.shiftRange).toEqual(DEFAULT_SCENARIO.rayColors.shiftRange);
+  });
+
+  it('keeps valid arrays', () => {
+    const list = [{ b: 5, theta: 45, phi: 0, psi: 10 }];
+    const { state } = parseScenario(withState({ source: { list }, hiddenRayIds: ['ray-1'], rayColors: { shiftRange: [0.5, 2] } }));
+    expect(state.source.list).toEqual(list);
+    expect(state.hiddenRayIds).toEqual(['ray-1']);
+    expect(state.rayColors.shiftRange).toEqual([0.5, 2]);
+  });
+});
+
+describe('numeric fields', () => {
+  // Every numeric field of the state, by path
+  const numericPaths = (value: unknown, path = ''): string[] =>
+    typeof value === 'number'
+      ? [path]
+      : typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? Object.entries(value).flatMap(([key, v]) => numericPaths(v, path ? `${path}.${key}` : key))
+        : [];
+  const withValue = (path: string, v: number) =>
+    path.split('.').reduceRight<unknown>((inner, key) => ({ [key]: inner }), v);
+  const read = (state: object, path: string) =>
+    path.split('.').reduce<unknown>((object, key) => (object as Record<string, unknown>)[key], state) as number;
+
+  it('clamps the values that would stall or swamp tracing', () => {
+    const { state } = parseScenario(withState({
+      mass: -3,
+      rayCount: 1e9,
+      integrator: { step: 0, absTol: -1, relTol: 0, maxStep: 1e6 },
+      emitter: { startRadius: 1e12 },
+      spacetime: { spin: 1, charge: 2, cosmologicalConstant: 1 },
+    }));
+    expect(state.mass).toBe(0.5);
+    expect(state.rayCount).toBe(1000);
+    expect(state.integrator).toEqual({ ...DEFAULT_SCENARIO.integrator, step: 0.005, absTol: 1e-12, relTol: 1e-12, maxStep: 5 });
+    expect(state.emitter.startRadius).toBe(300);
+    expect(state.spacetime.spin).toBeLessThan(1);
+    expect(state.spacetime.charge).toBeLessThan(1);
+    expect(state.spacetime.cosmologicalConstant).toBeLessThan(1 / 9);
+  });
+
+  it('bounds every numeric field', () => {
+    numericPaths(DEFAULT_SCENARIO).forEach(path => {
+      expect(read(parseScenario(withState(withValue(path, -1e300))).state, path), path).toBeGreaterThan(-1e300);
+      if (path !== 'time') expect(read(parseScenario(withState(withValue(path, 1e300))).state, path), path).toBeLessThan(1e300);
+    });
+  });
+
+  it('rounds counts and keeps values inside their range', () => {
+    const { state } = parseScenario(withState({ rayCount: 12.6, seed: 7.2, mass: 1.7, rayColors: { maxWindings: 2.4 } }));
+    expect(state).toMatchObject({ rayCount: 13, seed: 7, mass: 1.7 });
+    expect(state.rayColors.maxWindings).toBe(2);
+  });
+
+  it('drops shift ranges beyond the colormap', () => {
+    const { state } = parseScenario(withState({ rayColors: { shiftRange: [1e-6, 2] } }));
+    expect(state.rayColors.shiftRange).toEqual(DEFAULT_SCENARIO.rayColors.shiftRange);
+  });
+});
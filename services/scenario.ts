@@ -0,0 +1,311 @@
+import {
+  BeamShape, CameraPose, DiskEmissivity, DiskModel, DiskSettings, DistributionMode, EmitterMode, EmitterSettings, ImpactDistribution,
+  ImpactMode, ImpactSettings, IntegratorMethod, IntegratorSettings, MicrolensingSettings, ObserverImageSettings, OrbitSpec,
+  ParticleSettings, ParticleType, PlaybackClock, RayColorMode, RayColorSettings, SkyKind, SourceSettings, SpacetimeKind,
+  SpacetimeSettings, ViewMode,
+} from '../types';
+import { DEFAULT_PARTICLE, DEFAULT_SPACETIME, DEFAULT_EMITTER, DEFAULT_SOURCE, DEFAULT_IMPACT } from './physics';
+import { DEFAULT_INTEGRATOR } from './integrators';
+import { DEFAULT_DISK } from './accretionDisk';
+import { DEFAULT_RAY_COLORS } from './rayColors';
+import { DEFAULT_OBSERVER_IMAGE } from './observerImage';
+import { DEFAULT_MICROLENSING, MAX_IMPACT_PARAMETER } from './microlensing';
+import { MAX_SHIFT, MIN_SHIFT } from './colormap';
+
+// Everything needed to bring the simulator back to a given state: the physics, the
+// playhead, what is drawn and how, and the 3D camera. Scenarios travel as versioned
+// JSON: in the URL hash (base64url), in the browser's saved library, and as files.
+//
+// Reading merges a scenario over the defaults, so files from older versions (or with
+// fields missing) still load; values of the wrong type or out of their set fall back
+// to the default, and numbers are clamped to the ranges the controls offer, so that a
+// crafted link cannot ask for a zero step or a billion rays.
+
+export const SCENARIO_FORMAT = 'schwarzschild-scenario';
+export const SCENARIO_VERSION = 1;
+
+const HASH_KEY = 'scenario';
+const LIBRARY_KEY = 'schwarzschild-geodesics.scenarios';
+
+export interface ScenarioState {
+  mass: number;
+  b: number;
+  rayCount: number;
+  seed: number;
+  speed: number;
+  photonSize: number;
+  distributionMode: DistributionMode;
+  impactMode: ImpactMode;
+  time: number; // Reading of the playback clock
+  clock: PlaybackClock;
+  observerRadius: number; // Units of M
+  view: ViewMode;
+  showEventHorizon: boolean;
+  showInterior: boolean;
+  integrator: IntegratorSettings;
+  particle: ParticleSettings;
+  spacetime: SpacetimeSettings;
+  emitter: EmitterSettings;
+  source: SourceSettings;
+  impact: ImpactSettings;
+  disk: DiskSettings;
+  rayColors: RayColorSettings;
+  observerImage: ObserverImageSettings;
+  microlensing: MicrolensingSettings;
+  selectedRayId: string | null;
+  hiddenRayIds: string[];
+  soloRayId: string | null;
+  camera: CameraPose | null; // Null leaves the camera where it is
+}
+
+export interface Scenario {
+  format: typeof SCENARIO_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string; // ISO date
+  state: ScenarioState;
+}
+
+export const DEFAULT_SCENARIO: ScenarioState = {
+  mass: 1.0,
+  b: 4.0,
+  rayCount: 7,
+  seed: 0,
+  speed: 1.0,
+  photonSize: 0.04,
+  distributionMode: 'isotropic',
+  impactMode: 'fixed',
+  time: 0,
+  clock: 'affine',
+  observerRadius: 20,
+  view: 'scene',
+  showEventHorizon: true,
+  showInterior: true,
+  integrator: DEFAULT_INTEGRATOR,
+  particle: DEFAULT_PARTICLE,
+  spacetime: DEFAULT_SPACETIME,
+  emitter: DEFAULT_EMITTER,
+  source: DEFAULT_SOURCE,
+  impact: DEFAULT_IMPACT,
+  disk: DEFAULT_DISK,
+  rayColors: DEFAULT_RAY_COLORS,
+  observerImage: DEFAULT_OBSERVER_IMAGE,
+  microlensing: DEFAULT_MICROLENSING,
+  selectedRayId: null,
+  hiddenRayIds: [],
+  soloRayId: null,
+  camera: null,
+};
+
+export function createScenario(name: string, state: ScenarioState): Scenario {
+  return { format: SCENARIO_FORMAT, version: SCENARIO_VERSION, name, savedAt: new Date().toISOString(), state };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+// Allowed values of the string fields that are unions, by path in the state
+const CHOICES: Record<string, readonly string[]> = {
+  distributionMode: ['isotropic', 'planar', 'beam', 'plane-wave', 'ring', 'point', 'list'] satisfies DistributionMode[],
+  impactMode: ['fixed', 'random'] satisfies ImpactMode[],
+  clock: ['affine', 'coordinate', 'observer'] satisfies PlaybackClock[],
+  view: ['scene', 'embedding', 'observer', 'microlensing'] satisfies ViewMode[],
+  'integrator.method': ['rk4', 'rk45'] satisfies IntegratorMethod[],
+  'particle.type': ['photon', 'massive'] satisfies ParticleType[],
+  'particle.spec': ['energy', 'apsides'] satisfies OrbitSpec[],
+  'spacetime.kind': ['schwarzschild', 'kerr', 'reissner-nordstrom', 'schwarzschild-de-sitter'] satisfies SpacetimeKind[],
+  'emitter.mode': ['distant', 'local', 'hot-spot'] satisfies EmitterMode[],
+  'source.beamShape': ['square', 'disk'] satisfies BeamShape[],
+  'impact.distribution': ['uniform', 'area', 'gaussian', 'log-critical', 'sweep'] satisfies ImpactDistribution[],
+  'disk.model': ['decorative', 'physical'] satisfies DiskModel[],
+  'disk.emissivity': ['novikov-thorne', 'power-law'] satisfies DiskEmissivity[],
+  'rayColors.mode': ['fate', 'impact', 'winding', 'deflection', 'orientation', 'shift'] satisfies RayColorMode[],
+  'observerImage.sky': ['checker', 'panorama', 'none'] satisfies SkyKind[],
+};
+
+// [min, max] of every numeric field, by path in the state: the ends of its control.
+// Radii the controls bound by the horizons are only held to the widest range here;
+// the physics clamps them further.
+const RANGES: Record<string, [number, number]> = {
+  mass: [0.5, 2.5],
+  b: [0, 25],
+  rayCount: [1, 1000],
+  seed: [0, 0xffffffff],
+  speed: [0.25, 8],
+  photonSize: [0.01, 0.3],
+  time: [0, Infinity],
+  observerRadius: [0, 150],
+  'integrator.step': [0.005, 0.2],
+  'integrator.absTol': [1e-12, 1e-3],
+  'integrator.relTol': [1e-12, 1e-3],
+  'integrator.maxStep': [0.05, 5],
+  'particle.energy': [0.9, 1.2],
+  'particle.angularMomentum': [0, 8],
+  'particle.periapsis': [4, 60],
+  'particle.apoapsis': [4, 100],
+  'spacetime.spin': [0, 0.998],
+  'spacetime.charge': [0, 0.999],
+  'spacetime.cosmologicalConstant': [0, 0.05],
+  'emitter.startRadius': [20, 300],
+  'emitter.escapeRadius': [25, 400],
+  'emitter.radius': [1, 400],
+  'emitter.angle': [0, 180],
+  'emitter.orbitRadius': [0, 30],
+  'emitter.inclination': [0, 90],
+  'source.beamRadius': [1, 20],
+  'source.beamSpacing': [0.1, 2],
+  'source.pointDistance': [1, 400],
+  'source.coneAngle': [1, 90],
+  'impact.min': [0, 19.9],
+  'impact.max': [0.1, 20],
+  'impact.width': [0.05, 3],
+  'disk.outerRadius': [8, 50],
+  'disk.powerIndex': [0, 6],
+  'rayColors.strongFactor': [1, 3],
+  'rayColors.impactSpan': [0.05, 1],
+  'rayColors.maxWindings': [1, 10],
+  'rayColors.maxDeflection': [0.05, 4 * Math.PI],
+  'rayColors.orientationOffset': [0, 359],
+  'observerImage.observerRadius': [0, 100],
+  'observerImage.fov': [5, 150],
+  'observerImage.latitude': [-90, 90],
+  'observerImage.skyRotation': [0, 360],
+  'observerImage.resolution': [256, 512],
+  'microlensing.impactParameter': [0.02, MAX_IMPACT_PARAMETER],
+  'microlensing.trackAngle': [0, 180],
+  'microlensing.lensDistance': [50, 5000],
+};
+
+// Numeric fields that count something, rounded after clamping
+const INTEGERS = new Set(['rayCount', 'seed', 'rayColors.maxWindings', 'observerImage.resolution']);
+
+// What every entry of each array field must be, and the length of fixed-size ones
+const ARRAYS: Record<string, { entry: (value: unknown) => boolean; length?: number }> = {
+  'source.list': { entry: v => isRecord(v) && ['b', 'theta', 'phi', 'psi'].every(key => isFiniteNumber(v[key])) },
+  'rayColors.shiftRange': { entry: v => isFiniteNumber(v) && v >= MIN_SHIFT && v <= MAX_SHIFT, length: 2 },
+  hiddenRayIds: { entry: v => typeof v === 'string' },
+};
+
+// Takes each field of `value` that has the default's type; objects are merged field by
+// field. Union strings must be one of their CHOICES, numbers are clamped to their
+// RANGES, and arrays are taken whole when all their entries are valid. Fields that
+// default to null (the ray ids) take strings.
+function mergeWithDefaults<T>(defaults: T, value: unknown, path = ''): T {
+  if (isRecord(defaults)) {
+    if (!isRecord(value)) return defaults;
+    const merged: Record<string, unknown> = { ...defaults };
+    Object.keys(defaults).forEach(key => {
+      if (key in value) merged[key] = mergeWithDefaults(defaults[key], value[key], path ? `${path}.${key}` : key);
+    });
+    return merged as T;
+  }
+  if (Array.isArray(defaults)) {
+    const rule = ARRAYS[path];
+    const valid = rule && Array.isArray(value) && (rule.length === undefined || value.length === rule.length) && value.every(rule.entry);
+    return (valid ? value : defaults) as T;
+  }
+  if (defaults === null) return (typeof value === 'string' ? value : null) as T;
+  if (typeof value !== typeof defaults) return defaults;
+  if (path in CHOICES && !CHOICES[path].includes(value as string)) return defaults;
+  if (typeof value !== 'number') return value as T;
+  if (!isFinite(value)) return defaults;
+  const [min, max] = RANGES[path] ?? [-Infinity, Infinity];
+  const clamped = Math.min(Math.max(value, min), max);
+  return (INTEGERS.has(path) ? Math.round(clamped) : clamped) as T;
+}
+
+function readCamera(value: unknown): CameraPose | null {
+  if (!isRecord(value)) return null;
+  const vector = (v: unknown) => Array.isArray(v) && v.length === 3 && v.every(x => typeof x === 'number' && isFinite(x));
+  if (!vector(value.position) || !vector(value.target)) return null;
+  return { position: value.position, target: value.target, autoRotate: value.autoRotate === true } as CameraPose;
+}
+
+export function parseScenario(value: unknown): Scenario {
+  if (!isRecord(value) || value.format !== SCENARIO_FORMAT) throw new Error('Not a scenario file');
+  const version = typeof value.version === 'number' ? value.version : 0;
+  if (version > SCENARIO_VERSION) throw new Error(`Scenario version ${version} is newer than this simulator reads (${SCENARIO_VERSION})`);
+  const state = mergeWithDefaults(DEFAULT_SCENARIO, value.state);
+  return {
+    format: SCENARIO_FORMAT,
+    version: SCENARIO_VERSION,
+    name: typeof value.name === 'string' ? value.name : 'Untitled',
+    savedAt: typeof value.savedAt === 'string' ? value.savedAt : '',
+    state: { ...state, camera: readCamera(isRecord(value.state) ? value.state.camera : null) },
+  };
+}
+
+// --- URL hash ---
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+export function encodeScenarioHash(scenario: Scenario): string {
+  return `#${HASH_KEY}=${toBase64Url(JSON.stringify(scenario))}`;
+}
+
+// The scenario in a location hash, or null when there is none. Malformed ones throw.
+export function decodeScenarioHash(hash: string): Scenario | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  if (!encoded) return null;
+  return parseScenario(JSON.parse(fromBase64Url(encoded)));
+}
+
+// --- Saved library (localStorage) ---
+
+// Raw entries, so that ones this version cannot read survive saves made alongside them
+function readLibrary(): unknown[] {
+  try {
+    const entries: unknown = JSON.parse(localStorage.getItem(LIBRARY_KEY) ?? '[]');
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+const entryName = (entry: unknown) => (isRecord(entry) ? entry.name : undefined);
+
+export function listSavedScenarios(): Scenario[] {
+  // Entries that do not read (a newer version saved by another tab) are left out
+  return readLibrary().flatMap(entry => {
+    try {
+      return [parseScenario(entry)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+// Saving under an existing name replaces that entry. Throws when storage is full or
+// unavailable.
+export function saveScenario(scenario: Scenario): Scenario[] {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify([...readLibrary().filter(e => entryName(e) !== scenario.name), scenario]));
+  return listSavedScenarios();
+}
+
+export function removeSavedScenario(name: string): Scenario[] {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(readLibrary().filter(e => entryName(e) !== name)));
+  return listSavedScenarios();
+}
+
+// --- Files ---
+
+export function exportScenarioJson(scenario: Scenario): string {
+  return JSON.stringify(scenario, null, 2);
+}
+
+export async function readScenarioFile(file: File): Promise<Scenario> {
+  return parseScenario(JSON.parse(await file.text()));
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { SourceSettings } from '../types';
+import { buildRays, DEFAULT_SOURCE, getSourceRadii, getSourceRayCount, getWorldTransform } from './physics';
+
+const source: SourceSettings = { ...DEFAULT_SOURCE, beamShape: 'disk', beamRadius: 9, beamSpacing: 3 };
+const start = (ray: ReturnType<typeof buildRays>[number], k = 0) => getWorldTransform(ray.orientation)(ray.points[k]);
+
+describe('plane-wave source', () => {
+  const rays = buildRays(4, 1, 1, 1, 'plane-wave', 'fixed', { source });
+
+  it('launches one ray per grid point inside the disk', () => {
+    // Offsets (i, j) * 3M with i^2 + j^2 <= 9
+    expect(getSourceRayCount('plane-wave', 1, source)).toBe(29);
+    expect(rays).toHaveLength(29);
+  });
+
+  it('starts parallel rays down the -z axis at their offsets', () => {
+    const { rStart } = getSourceRadii(1);
+    const sqrtF = Math.sqrt(1 - 2 / rStart);
+    rays.forEach(ray => {
+      const [x, y, z] = start(ray);
+      const [, , zNext] = start(ray, 1);
+      expect(z).toBeGreaterThan(0);
+      expect(zNext).toBeLessThan(z);
+      // b is the offset; sqrt(f) relates it to the transverse position at r_start
+      expect(Math.hypot(x, y) / sqrtF).toBeCloseTo(ray.b, 6);
+    });
+  });
+});
+
+describe('other sources', () => {
+  it('gives every ring ray the same b', () => {
+    const rays = buildRays(5, 1, 8, 1, 'ring', 'fixed');
+    expect(rays).toHaveLength(8);
+    rays.forEach(ray => expect(ray.b).toBe(5));
+  });
+
+  it('launches the point source from one point on the +z axis', () => {
+    const rays = buildRays(4, 1, 6, 1, 'point', 'fixed', { source });
+    rays.forEach(ray => {
+      const [x, y, z] = start(ray);
+      expect(Math.hypot(x, y)).toBeCloseTo(0, 6);
+      expect(z).toBeCloseTo(source.pointDistance, 6);
+    });
+  });
+
+  it('traces the explicit list as given', () => {
+    const rays = buildRays(4, 1, 1, 1, 'list', 'fixed', { source });
+    expect(rays.map(ray => ray.b)).toEqual(source.list.map(entry => entry.b));
+  });
+});
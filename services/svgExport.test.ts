@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { RayColorSettings } from '../types';
+import { buildRays, DEFAULT_SPACETIME } from './physics';
+import { DEFAULT_RAY_COLORS } from './rayColors';
+import { DEFAULT_DIAGRAM, exportDiagramSvg, getDiagramExtent } from './svgExport';
+
+const fate: RayColorSettings = { ...DEFAULT_RAY_COLORS, mode: 'fate' };
+// A captured, a strongly lensed and an escaped ray
+const rays = [3, 5.5, 12].map(b => buildRays(b, 1, 1, 1, 'planar', 'fixed')[0]);
+const input = { rays, mass: 1, spacetime: DEFAULT_SPACETIME, rayColors: fate, showInterior: true };
+
+// Every opened element is closed in order, and nothing but elements and text appears
+function expectWellFormed(svg: string) {
+  const open: string[] = [];
+  const tags = svg.match(/<[^>]*>/g) ?? [];
+  tags.forEach(tag => {
+    const name = /^<\/?([a-zA-Z]+)/.exec(tag)?.[1];
+    expect(name).toBeDefined();
+    if (tag.startsWith('</')) expect(open.pop()).toBe(name);
+    else if (!tag.endsWith('/>')) open.push(name!);
+  });
+  expect(open).toEqual([]);
+  // No stray markup characters in text or attributes
+  expect(svg.replace(/<[^>]*>/g, '')).not.toMatch(/[<>]/);
+  expect(svg.replace(/&(amp|lt|gt);/g, '')).not.toContain('&');
+}
+
+describe('exportDiagramSvg', () => {
+  it('writes a well-formed figure for every projection and theme', () => {
+    (['orbital', 'xy', 'xz', 'yz'] as const).forEach(projection => {
+      (['print', 'dark'] as const).forEach(theme => {
+        const svg = exportDiagramSvg(input, { ...DEFAULT_DIAGRAM, projection, theme });
+        expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+        expectWellFormed(svg);
+      });
+    });
+  });
+
+  it('draws the trails and explains them in the legend', () => {
+    const svg = exportDiagramSvg(input, DEFAULT_DIAGRAM);
+    expect(svg.match(/<path d="M/g)?.length).toBeGreaterThanOrEqual(rays.length);
+    expect(svg).toContain('>Fate</text>');
+    expect(svg).toContain('Strongly lensed (b &lt; 1.25 b_crit)');
+    expect(svg).toContain('Horizon r = 2M');
+    expect(svg).toContain('Photon sphere r = 3M');
+    expect(svg).toContain('Inside the horizon');
+    expect(svg).toContain('3 rays · grid every 5M');
+  });
+
+  it('adds the ISCO and the colormap gradient only when asked for', () => {
+    expect(exportDiagramSvg(input, DEFAULT_DIAGRAM)).not.toContain('ISCO');
+    expect(exportDiagramSvg(input, { ...DEFAULT_DIAGRAM, showISCO: true })).toContain('ISCO r = 6M');
+    expect(exportDiagramSvg(input, DEFAULT_DIAGRAM)).not.toContain('linearGradient');
+    const shift = exportDiagramSvg({ ...input, rayColors: DEFAULT_RAY_COLORS }, DEFAULT_DIAGRAM);
+    expect(shift).toContain('<linearGradient id="colormap"');
+  });
+
+  it('stops the trails at the horizon when the interior is hidden', () => {
+    const svg = exportDiagramSvg({ ...input, showInterior: false }, DEFAULT_DIAGRAM);
+    expect(svg).not.toContain('Inside the horizon');
+    expect(svg).not.toContain('rgb(250, 51, 255)');
+  });
+});
+
+describe('getDiagramExtent', () => {
+  it('fits the furthest start with a little room, within the slider range', () => {
+    expect(getDiagramExtent(rays, 1)).toBe(Math.ceil(rays[0].points[0].r * 1.05));
+    const at = (r: number) => [{ ...rays[0], points: [{ ...rays[0].points[0], r }] }];
+    expect(getDiagramExtent(at(2), 1)).toBe(5);
+    expect(getDiagramExtent(at(1000), 1)).toBe(200);
+    expect(getDiagramExtent([], 1)).toBe(5);
+  });
+});
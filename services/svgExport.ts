@@ -0,0 +1,349 @@
+import { DiagramSettings, RayColorSettings, RayPath, SpacetimeSettings } from '../types';
+import { getWorldTransform, getISCORadius } from './physics';
+import { getHorizons, getPhotonSphere, getCriticalImpactParameter } from './metrics';
+import { getKerrPhotonOrbitRadii } from './kerr';
+import { createRayColoring, getRayColorLegend } from './rayColors';
+
+// Vector figures of the current rays for papers and slides. In the orbital-plane
+// projection each ray is drawn from the (r, φ) its planar trajectory was integrated
+// in, before the rotation into the scene; the view projections drop one axis of the
+// scene instead. Lengths are in units of M throughout.
+
+export const DEFAULT_DIAGRAM: DiagramSettings = {
+  projection: 'orbital',
+  theme: 'print',
+  extent: 25,
+  showISCO: false,
+};
+
+export const PROJECTION_AXES: Record<DiagramSettings['projection'], [string, string]> = {
+  orbital: ['x′', 'y′'],
+  xy: ['x', 'y'],
+  xz: ['x', 'z'],
+  yz: ['y', 'z'],
+};
+
+interface Theme {
+  background: string;
+  text: string;
+  muted: string;
+  grid: string;
+  axis: string;
+  horizon: string;
+  horizonEdge: string;
+  photon: string;
+  isco: string;
+  innerHorizon: string;
+  cosmological: string;
+  halo: string | null; // Under-stroke that keeps pale trails visible on white
+}
+
+const THEMES: Record<DiagramSettings['theme'], Theme> = {
+  print: {
+    background: '#ffffff',
+    text: '#1f2937',
+    muted: '#6b7280',
+    grid: '#e5e7eb',
+    axis: '#374151',
+    horizon: '#111111',
+    horizonEdge: '#111111',
+    photon: '#0e7490',
+    isco: '#7e22ce',
+    innerHorizon: '#c2410c',
+    cosmological: '#047857',
+    halo: 'rgba(0, 0, 0, 0.35)',
+  },
+  dark: {
+    background: '#020205',
+    text: '#e5e7eb',
+    muted: '#9ca3af',
+    grid: '#1f2937',
+    axis: '#9ca3af',
+    horizon: '#000000',
+    horizonEdge: '#4b5563',
+    photon: '#22d3ee',
+    isco: '#c084fc',
+    innerHorizon: '#fb923c',
+    cosmological: '#34d399',
+    halo: null,
+  },
+};
+
+// Layout, in SVG pixels
+const PLOT = 560;
+const MARGIN = { left: 64, right: 24, top: 24, bottom: 56 };
+const LEGEND_WIDTH = 220;
+const FONT = 'Helvetica, Arial, sans-serif';
+const TRAIL_WIDTH = 1.2;
+// A trail starts a new segment once its colour has moved this far (per channel, 0-1)
+const COLOR_TOLERANCE = 0.04;
+// Points closer than this (pixels) to the last one drawn are skipped
+const MIN_POINT_SPACING = 1;
+// Trails are cut this far (pixels) outside the plot, where the clip hides them anyway
+const PLOT_BLEED = 10;
+
+const INTERIOR_COLOR: [number, number, number] = [0.98, 0.2, 1]; // Violet, as in the scene
+const UNDEFINED_COLOR: [number, number, number] = [0.35, 0.35, 0.35];
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const fmt = (v: number) => (Math.round(v * 100) / 100).toString();
+const rgbCss = ([r, g, b]: [number, number, number]) => `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+
+// Grid spacing of 1, 2 or 5 times a power of ten giving about `count` rings
+function getNiceStep(extent: number, count = 5): number {
+  const raw = extent / count;
+  const power = Math.pow(10, Math.floor(Math.log10(raw)));
+  const mantissa = raw / power;
+  return (mantissa < 1.5 ? 1 : mantissa < 3.5 ? 2 : mantissa < 7.5 ? 5 : 10) * power;
+}
+
+// Half-width (units of M) that holds every ray's start, for the "fit" option
+export function getDiagramExtent(rays: RayPath[], mass: number): number {
+  const rMax = Math.max(0, ...rays.filter(r => r.points.length > 0).map(r => r.points[0].r / mass));
+  return Math.min(200, Math.max(5, Math.ceil(rMax * 1.05)));
+}
+
+export interface DiagramInput {
+  rays: RayPath[]; // The rays to draw (already without hidden ones)
+  mass: number;
+  spacetime: SpacetimeSettings;
+  rayColors: RayColorSettings;
+  showInterior: boolean;
+}
+
+export function exportDiagramSvg(input: DiagramInput, settings: DiagramSettings): string {
+  const { rays, mass, spacetime, rayColors, showInterior } = input;
+  const theme = THEMES[settings.theme];
+  const isKerr = spacetime.kind === 'kerr';
+  const a = isKerr ? spacetime.spin * mass : 0;
+
+  const width = MARGIN.left + PLOT + MARGIN.right + LEGEND_WIDTH;
+  const height = MARGIN.top + PLOT + MARGIN.bottom;
+  const cx = MARGIN.left + PLOT / 2;
+  const cy = MARGIN.top + PLOT / 2;
+  const scale = PLOT / (2 * settings.extent * mass); // Pixels per physics unit
+  const toX = (x: number) => cx + x * scale;
+  const toY = (y: number) => cy - y * scale;
+  const isOffPlot = ([x, y]: [number, number]) =>
+    x < MARGIN.left - PLOT_BLEED || x > MARGIN.left + PLOT + PLOT_BLEED || y < MARGIN.top - PLOT_BLEED || y > MARGIN.top + PLOT + PLOT_BLEED;
+
+  // Radii of spherical structures in the plot. Kerr's lie in the Kerr-Schild frame of
+  // the scene: oblate, with equatorial radius sqrt(r^2 + a^2). The orbital-plane view
+  // uses Boyer-Lindquist r directly.
+  const ellipse = (r: number) => {
+    const equatorial = settings.projection === 'orbital' ? r : Math.sqrt(r * r + a * a);
+    const vertical = settings.projection === 'xz' || settings.projection === 'yz' ? r : equatorial;
+    return { rx: equatorial * scale, ry: vertical * scale };
+  };
+  const ring = (r: number, stroke: string, dash: string | null, strokeWidth = 1.2) => {
+    const { rx, ry } = ellipse(r);
+    return `<ellipse cx="${fmt(cx)}" cy="${fmt(cy)}" rx="${fmt(rx)}" ry="${fmt(ry)}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}"${dash ? ` stroke-dasharray="${dash}"` : ''}/>`;
+  };
+
+  const parts: string[] = [];
+  const defs: string[] = [
+    `<clipPath id="plot"><rect x="${MARGIN.left}" y="${MARGIN.top}" width="${PLOT}" height="${PLOT}"/></clipPath>`,
+  ];
+
+  parts.push(`<rect width="${width}" height="${height}" fill="${theme.background}"/>`);
+
+  // Radial grid: rings every `step` M and spokes every 30°
+  const step = getNiceStep(settings.extent);
+  const grid: string[] = [];
+  for (let r = step; r <= settings.extent * Math.SQRT2; r += step) {
+    grid.push(`<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="${fmt(r * mass * scale)}" fill="none" stroke="${theme.grid}" stroke-width="0.75"/>`);
+  }
+  const spoke = settings.extent * Math.SQRT2 * mass * scale;
+  for (let k = 0; k < 12; k++) {
+    const angle = (k * Math.PI) / 6;
+    grid.push(`<line x1="${fmt(cx)}" y1="${fmt(cy)}" x2="${fmt(cx + spoke * Math.cos(angle))}" y2="${fmt(cy - spoke * Math.sin(angle))}" stroke="${theme.grid}" stroke-width="0.75"/>`);
+  }
+  parts.push(`<g clip-path="url(#plot)">${grid.join('')}</g>`);
+
+  // The hole's radii
+  const horizons = getHorizons(mass, spacetime);
+  const structures: string[] = [];
+  const key: { label: string; mark: string }[] = [];
+  const { rx: hx, ry: hy } = ellipse(horizons.event);
+  structures.push(`<ellipse cx="${fmt(cx)}" cy="${fmt(cy)}" rx="${fmt(hx)}" ry="${fmt(hy)}" fill="${theme.horizon}" stroke="${theme.horizonEdge}" stroke-width="1"/>`);
+  key.push({ label: `Horizon r = ${fmt(horizons.event / mass)}M`, mark: `<circle cx="8" cy="0" r="5" fill="${theme.horizon}" stroke="${theme.horizonEdge}"/>` });
+  if (horizons.inner !== null && horizons.inner > 0) {
+    structures.push(ring(horizons.inner, theme.innerHorizon, '3 3', 1));
+    key.push({ label: `Inner horizon r = ${fmt(horizons.inner / mass)}M`, mark: `<line x1="0" y1="0" x2="16" y2="0" stroke="${theme.innerHorizon}" stroke-dasharray="3 3"/>` });
+  }
+  if (isKerr) {
+    const { prograde, retrograde } = getKerrPhotonOrbitRadii(mass, a);
+    structures.push(ring(prograde, theme.photon, '5 3'), ring(retrograde, theme.photon, '1.5 3'));
+    key.push(
+      { label: `Prograde photon orbit ${fmt(prograde / mass)}M`, mark: `<line x1="0" y1="0" x2="16" y2="0" stroke="${theme.photon}" stroke-width="1.2" stroke-dasharray="5 3"/>` },
+      { label: `Retrograde photon orbit ${fmt(retrograde / mass)}M`, mark: `<line x1="0" y1="0" x2="16" y2="0" stroke="${theme.photon}" stroke-width="1.2" stroke-dasharray="1.5 3"/>` },
+    );
+  } else {
+    const photonSphere = getPhotonSphere(mass, spacetime);
+    structures.push(ring(photonSphere, theme.photon, '5 3'));
+    key.push({ label: `Photon sphere r = ${fmt(photonSphere / mass)}M`, mark: `<line x1="0" y1="0" x2="16" y2="0" stroke="${theme.photon}" stroke-width="1.2" stroke-dasharray="5 3"/>` });
+  }
+  const isco = getISCORadius(mass, spacetime);
+  if (settings.showISCO && isco !== null) {
+    structures.push(ring(isco, theme.isco, '1.5 2.5'));
+    key.push({ label: `ISCO r = ${fmt(isco / mass)}M${isKerr ? ' (a = 0)' : ''}`, mark: `<line x1="0" y1="0" x2="16" y2="0" stroke="${theme.isco}" stroke-width="1.2" stroke-dasharray="1.5 2.5"/>` });
+  }
+  if (horizons.cosmological !== null && horizons.cosmological < settings.extent * mass * Math.SQRT2) {
+    structures.push(ring(horizons.cosmological, theme.cosmological, '6 3', 1));
+    key.push({ label: `Cosmological horizon ${fmt(horizons.cosmological / mass)}M`, mark: `<line x1="0" y1="0" x2="16" y2="0" stroke="${theme.cosmological}" stroke-dasharray="6 3"/>` });
+  }
+  parts.push(`<g clip-path="url(#plot)">${structures.join('')}</g>`);
+
+  // Trails, split into runs of nearly one colour
+  const coloring = createRayColoring(rayColors, getCriticalImpactParameter(mass, spacetime));
+  const trails: string[] = [];
+  const halos: string[] = [];
+  let anyInterior = false;
+  rays.forEach(ray => {
+    const colorAt = coloring.colorRay(ray);
+    const toWorld = getWorldTransform(ray.orientation);
+    const project = (i: number): [number, number] => {
+      const p = ray.points[i];
+      if (settings.projection === 'orbital') return [toX(p.r * Math.cos(p.phi)), toY(p.r * Math.sin(p.phi))];
+      const [x, y, z] = toWorld(p);
+      if (settings.projection === 'xy') return [toX(x), toY(y)];
+      if (settings.projection === 'xz') return [toX(x), toY(z)];
+      return [toX(y), toY(z)];
+    };
+    const end = !showInterior && ray.horizonIndex >= 0 ? ray.horizonIndex + 1 : ray.points.length;
+
+    // Runs of points drawn in one colour. A run ends where the colour drifts, where the
+    // trail is off the plot, or at an undefined point.
+    let run: [number, number][] = [];
+    let runColor: [number, number, number] = UNDEFINED_COLOR;
+    let previous: [number, number] | null = null; // Last projected point, drawn or not
+    const flush = () => {
+      if (run.length > 1) {
+        const d = `M${run.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join('L')}`;
+        trails.push(`<path d="${d}" stroke="${rgbCss(runColor)}"/>`);
+        halos.push(`<path d="${d}"/>`);
+      }
+      run = [];
+    };
+    for (let i = 0; i < end; i++) {
+      const point = project(i);
+      if (!isFinite(point[0]) || !isFinite(point[1])) {
+        flush();
+        previous = null;
+        continue;
+      }
+      // A segment with both ends off the plot does not show
+      if (previous && isOffPlot(point) && isOffPlot(previous)) {
+        flush();
+        previous = point;
+        continue;
+      }
+      const interior = ray.horizonIndex >= 0 && i >= ray.horizonIndex;
+      // A hidden interior still ends the trail on its first point inside, which only
+      // closes the last run and draws nothing violet
+      if (interior && showInterior) anyInterior = true;
+      const color = interior ? INTERIOR_COLOR : colorAt(ray.points[i]) ?? UNDEFINED_COLOR;
+      if (run.length === 0) {
+        runColor = color;
+        if (previous) run.push(previous);
+      } else if (color.some((c, k) => Math.abs(c - runColor[k]) > COLOR_TOLERANCE)) {
+        // The new colour takes over from this point on
+        run.push(point);
+        flush();
+        runColor = color;
+        run.push(point);
+        previous = point;
+        continue;
+      }
+      const [lx, ly] = run.length > 0 ? run[run.length - 1] : [NaN, NaN];
+      previous = point;
+      if (i < end - 1 && Math.hypot(point[0] - lx, point[1] - ly) < MIN_POINT_SPACING) continue;
+      run.push(point);
+    }
+    flush();
+  });
+  const trailStyle = (strokeWidth: number) => `fill="none" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round"`;
+  if (theme.halo) {
+    parts.push(`<g clip-path="url(#plot)" ${trailStyle(TRAIL_WIDTH + 0.8)} stroke="${theme.halo}">${halos.join('')}</g>`);
+  }
+  parts.push(`<g clip-path="url(#plot)" ${trailStyle(TRAIL_WIDTH)}>${trails.join('')}</g>`);
+
+  // Frame, ticks and axis labels
+  const [xName, yName] = PROJECTION_AXES[settings.projection];
+  const axis: string[] = [
+    `<rect x="${MARGIN.left}" y="${MARGIN.top}" width="${PLOT}" height="${PLOT}" fill="none" stroke="${theme.axis}" stroke-width="1"/>`,
+  ];
+  const firstTick = Math.ceil(-settings.extent / step) * step;
+  for (let v = firstTick; v <= settings.extent + 1e-9; v += step) {
+    const label = fmt(v).replace('-', '−'); // Typographic minus
+    const px = toX(v * mass);
+    const py = toY(v * mass);
+    axis.push(
+      `<line x1="${fmt(px)}" y1="${MARGIN.top + PLOT}" x2="${fmt(px)}" y2="${MARGIN.top + PLOT + 5}" stroke="${theme.axis}"/>`,
+      `<text x="${fmt(px)}" y="${MARGIN.top + PLOT + 18}" text-anchor="middle">${label}</text>`,
+      `<line x1="${MARGIN.left - 5}" y1="${fmt(py)}" x2="${MARGIN.left}" y2="${fmt(py)}" stroke="${theme.axis}"/>`,
+      `<text x="${MARGIN.left - 8}" y="${fmt(py + 4)}" text-anchor="end">${label}</text>`,
+    );
+  }
+  axis.push(
+    `<text x="${fmt(cx)}" y="${height - 12}" text-anchor="middle" font-size="13"><tspan font-style="italic">${xName}</tspan> / <tspan font-style="italic">M</tspan></text>`,
+    `<text transform="translate(18 ${fmt(cy)}) rotate(-90)" text-anchor="middle" font-size="13"><tspan font-style="italic">${yName}</tspan> / <tspan font-style="italic">M</tspan></text>`,
+  );
+  parts.push(`<g font-family="${FONT}" font-size="11" fill="${theme.text}">${axis.join('')}</g>`);
+
+  // Legend: the colouring mode, then the radii drawn
+  const legend = getRayColorLegend(rayColors, getCriticalImpactParameter(mass, spacetime), mass, rays.some(r => r.particle === 'massive'));
+  const lx = MARGIN.left + PLOT + MARGIN.right;
+  let ly = MARGIN.top + 8;
+  const items: string[] = [`<text x="0" y="${ly}" font-weight="bold" font-size="12">${escapeXml(legend.title)}</text>`];
+  ly += 18;
+  if (legend.kind === 'swatches') {
+    legend.items.forEach(item => {
+      items.push(
+        `<line x1="0" y1="${ly - 4}" x2="16" y2="${ly - 4}" stroke="${item.color}" stroke-width="2.5" stroke-linecap="round"/>`,
+        `<text x="24" y="${ly}">${escapeXml(item.label)}</text>`,
+      );
+      ly += 16;
+    });
+  } else {
+    const barWidth = LEGEND_WIDTH - 24;
+    defs.push(
+      `<linearGradient id="colormap" x1="0" x2="1" y1="0" y2="0">${legend.stops
+        .map((color, i) => `<stop offset="${fmt(i / (legend.stops.length - 1))}" stop-color="${color}"/>`)
+        .join('')}</linearGradient>`
+    );
+    items.push(`<rect x="0" y="${ly - 6}" width="${barWidth}" height="10" fill="url(#colormap)" stroke="${theme.grid}"/>`);
+    ly += 16;
+    legend.ticks.forEach(t => {
+      items.push(`<text x="${fmt(t.at * barWidth)}" y="${ly}" text-anchor="middle">${escapeXml(t.label)}</text>`);
+    });
+    ly += 14;
+    items.push(
+      `<text x="0" y="${ly}" fill="${theme.muted}" font-size="10">${escapeXml(legend.ends[0])}</text>`,
+      `<text x="${barWidth}" y="${ly}" text-anchor="end" fill="${theme.muted}" font-size="10">${escapeXml(legend.ends[1])}</text>`,
+    );
+    ly += 18;
+  }
+  if (anyInterior) {
+    key.push({ label: 'Inside the horizon', mark: `<line x1="0" y1="0" x2="16" y2="0" stroke="${rgbCss(INTERIOR_COLOR)}" stroke-width="2"/>` });
+  }
+  ly += 6;
+  key.forEach(({ label, mark }) => {
+    items.push(`<g transform="translate(0 ${ly - 4})">${mark}</g>`, `<text x="24" y="${ly}">${escapeXml(label)}</text>`);
+    ly += 16;
+  });
+  ly += 8;
+  const projectionNote = settings.projection === 'orbital' ? 'Each ray in its orbital plane' : `Projected on the ${xName}${yName} plane`;
+  [projectionNote, `${rays.length} rays · grid every ${fmt(step)}M`].forEach(line => {
+    items.push(`<text x="0" y="${ly}" fill="${theme.muted}" font-size="10">${escapeXml(line)}</text>`);
+    ly += 14;
+  });
+  parts.push(`<g transform="translate(${lx} 0)" font-family="${FONT}" font-size="11" fill="${theme.text}">${items.join('')}</g>`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Point3D } from '../types';
+import { buildRays } from './physics';
+import { createTrajectoryCache, getSharedTrajectoryKey } from './trajectoryCache';
+
+const path = (length: number) => ({ points: new Array<Point3D>(length) });
+
+describe('createTrajectoryCache', () => {
+  it('evicts the least recently used entries once over its point budget', () => {
+    const cache = createTrajectoryCache<{ points: Point3D[] }>(10);
+    cache.set('a', path(4));
+    cache.set('b', path(4));
+    cache.get('a');
+    cache.set('c', path(4));
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('keys cached point arrays back to their entry', () => {
+    const cache = createTrajectoryCache<{ points: Point3D[] }>();
+    const value = path(3);
+    cache.set('key', value);
+    expect(getSharedTrajectoryKey(value.points)).toBe('key');
+    expect(getSharedTrajectoryKey([])).toBeUndefined();
+  });
+});
+
+describe('buildRays trajectory reuse', () => {
+  it('shares one planar trajectory between rays of the same b', () => {
+    const rays = buildRays(6, 1, 5, 1, 'isotropic', 'fixed');
+    rays.forEach(ray => expect(ray.points).toBe(rays[0].points));
+    expect(new Set(rays.map(ray => JSON.stringify(ray.orientation))).size).toBe(5);
+  });
+
+  it('interpolates random-mode trajectories close to the exact ones', () => {
+    const [random] = buildRays(0, 1, 1, 3, 'isotropic', 'random');
+    const [exact] = buildRays(random.b, 1, 1, 3, 'isotropic', 'fixed');
+    expect(random.crossed).toBe(exact.crossed);
+    expect(random.rMin).toBeCloseTo(exact.rMin, 2);
+  });
+});
@@ -0,0 +1,51 @@
+import { Point3D } from '../types';
+
+// Least-recently-used store for planar trajectories. Entries are weighed by point
+// count so a handful of long bound orbits cannot crowd out memory; each worker
+// keeps its own cache, which survives between jobs (dragging a slider back to an
+// earlier value is instant).
+const MAX_CACHED_POINTS = 500000;
+
+export interface TrajectoryCache<T extends { points: Point3D[] }> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T) => void;
+}
+
+// Point arrays that came out of a cache, keyed back to their cache key so that
+// rays sharing one can be recognised after they cross a thread boundary
+const sharedKeys = new WeakMap<Point3D[], string>();
+
+export function getSharedTrajectoryKey(points: Point3D[]) {
+  return sharedKeys.get(points);
+}
+
+export function createTrajectoryCache<T extends { points: Point3D[] }>(maxPoints = MAX_CACHED_POINTS): TrajectoryCache<T> {
+  const entries = new Map<string, T>(); // Insertion order doubles as recency order
+  let total = 0;
+
+  return {
+    get: key => {
+      const value = entries.get(key);
+      if (value) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set: (key, value) => {
+      const previous = entries.get(key);
+      if (previous) {
+        entries.delete(key);
+        total -= previous.points.length;
+      }
+      entries.set(key, value);
+      sharedKeys.set(value.points, key);
+      total += value.points.length;
+      for (const [oldKey, old] of entries) {
+        if (total <= maxPoints || oldKey === key) break;
+        entries.delete(oldKey);
+        total -= old.points.length;
+      }
+    },
+  };
+}
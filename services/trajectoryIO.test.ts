@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildRays, getWorldTransform } from './physics';
+import { RayBuildRequest } from './rayPacking';
+import {
+  exportTrajectoriesBinary, exportTrajectoriesCsv, exportTrajectoriesJson, parseTrajectoriesBinary, parseTrajectoriesCsv,
+  parseTrajectoriesJson, TrajectoryOverlay,
+} from './trajectoryIO';
+
+const request: RayBuildRequest = { b: 6, mass: 1, count: 3, seed: 7, distMode: 'isotropic', impactMode: 'random', opts: {} };
+const rays = buildRays(request.b, request.mass, request.count, request.seed, request.distMode, request.impactMode, request.opts);
+
+function expectRoundTrip(overlay: TrajectoryOverlay) {
+  expect(overlay.parameters).toEqual(request);
+  expect(overlay.paths.map(path => path.id)).toEqual(rays.map(ray => ray.id));
+  overlay.paths.forEach((path, i) => {
+    const toWorld = getWorldTransform(rays[i].orientation);
+    expect(path.positions).toHaveLength(3 * rays[i].points.length);
+    rays[i].points.forEach((p, k) => {
+      const [x, y, z] = toWorld(p);
+      // Binary files store Float32
+      expect(path.positions[3 * k]).toBeCloseTo(x, 3);
+      expect(path.positions[3 * k + 1]).toBeCloseTo(y, 3);
+      expect(path.positions[3 * k + 2]).toBeCloseTo(z, 3);
+    });
+  });
+}
+
+describe('trajectory files', () => {
+  it('round-trips CSV', () => {
+    expectRoundTrip(parseTrajectoriesCsv(exportTrajectoriesCsv(rays, request), 'rays.csv'));
+  });
+
+  it('round-trips JSON', () => {
+    expectRoundTrip(parseTrajectoriesJson(exportTrajectoriesJson(rays, request), 'rays.json'));
+  });
+
+  it('round-trips binary', () => {
+    expectRoundTrip(parseTrajectoriesBinary(exportTrajectoriesBinary(rays, request), 'rays.bin'));
+  });
+
+  it('reads CSV from other solvers without parameters', () => {
+    const overlay = parseTrajectoriesCsv('ray,x,y,z\na,1,0,0\na,2,0,0\nb,0,1,0\n', 'other.csv');
+    expect(overlay.parameters).toBeNull();
+    expect(overlay.paths.map(path => path.id)).toEqual(['a', 'b']);
+    expect(Array.from(overlay.paths[0].positions)).toEqual([1, 0, 0, 2, 0, 0]);
+  });
+});
@@ -0,0 +1,231 @@
+import { RayPath } from '../types';
+import { RayBuildRequest } from './rayPacking';
+import { getWorldTransform } from './physics';
+
+// Trajectories in and out of the simulator. Every format carries, per point, the
+// orbital-plane r and φ, the scene position x, y, z (physics units), λ, t, ν/ν_emit
+// and the fate flags, together with the parameters the rays were traced with.
+//
+// - CSV: one row per point, parameters as a leading `#` comment line of JSON
+// - JSON: one object per ray with its points as columns
+// - Binary: "GEOD", a little-endian uint32 header length, the JSON header (padded to
+//   4 bytes), then Float32 rows of POINT_FIELDS for every ray in header order
+
+export const TRAJECTORY_FORMAT = 'schwarzschild-geodesics';
+export const TRAJECTORY_VERSION = 1;
+
+const BINARY_MAGIC = 'GEOD';
+
+export const POINT_FIELDS = ['r', 'phi', 'x', 'y', 'z', 'lambda', 't', 'shift', 'flags'] as const;
+type PointField = typeof POINT_FIELDS[number];
+
+// Bits of the flags field
+const FLAG_CROSSED = 1;
+const FLAG_ESCAPED = 2;
+const FLAG_TURNED = 4;
+const FLAG_INTERIOR = 8; // At or past the ray's first point inside the horizon
+
+export type TrajectoryFormat = 'csv' | 'json' | 'binary';
+
+export interface TrajectoryHeader {
+  format: typeof TRAJECTORY_FORMAT;
+  version: number;
+  parameters: RayBuildRequest;
+}
+
+// Per-ray summary stored alongside the points
+type RayRecord = Pick<RayPath,
+  'id' | 'b' | 'particle' | 'energy' | 'angularMomentum' | 'crossed' | 'escaped' | 'turned' |
+  'horizonIndex' | 'rMin' | 'deflection' | 'windings' | 'orientation'>;
+
+// Externally computed (or re-imported) paths to overlay on the scene
+export interface TrajectoryOverlay {
+  name: string;
+  parameters: RayBuildRequest | null; // Null for files from other solvers
+  paths: { id: string; positions: Float32Array }[]; // x, y, z per point, physics units
+}
+
+function getRayRecord(ray: RayPath): RayRecord {
+  const { id, b, particle, energy, angularMomentum, crossed, escaped, turned, horizonIndex, rMin, deflection, windings, orientation } = ray;
+  return { id, b, particle, energy, angularMomentum, crossed, escaped, turned, horizonIndex, rMin, deflection, windings, orientation };
+}
+
+// Point values of a ray in POINT_FIELDS order, one row per point
+function getPointRows(ray: RayPath): number[][] {
+  const toWorld = getWorldTransform(ray.orientation);
+  return ray.points.map((p, i) => {
+    const [x, y, z] = toWorld(p);
+    const flags = (p.crossed ? FLAG_CROSSED : 0) | (p.escaped ? FLAG_ESCAPED : 0) | (p.turned ? FLAG_TURNED : 0)
+      | (ray.horizonIndex >= 0 && i >= ray.horizonIndex ? FLAG_INTERIOR : 0);
+    return [p.r, p.phi, x, y, z, p.lambda, p.t, p.shift, flags];
+  });
+}
+
+const getHeader = (parameters: RayBuildRequest): TrajectoryHeader => ({ format: TRAJECTORY_FORMAT, version: TRAJECTORY_VERSION, parameters });
+
+export function exportTrajectoriesCsv(rays: RayPath[], parameters: RayBuildRequest): string {
+  const lines = [`# ${JSON.stringify(getHeader(parameters))}`];
+  lines.push(['ray_id', 'b', 'point', 'r', 'phi', 'x', 'y', 'z', 'lambda', 't', 'shift', 'crossed', 'escaped', 'turned', 'interior'].join(','));
+  rays.forEach(ray => {
+    getPointRows(ray).forEach((row, i) => {
+      const flags = row[8];
+      const values = row.slice(0, 8).map(v => (isFinite(v) ? `${v}` : ''));
+      const bits = [FLAG_CROSSED, FLAG_ESCAPED, FLAG_TURNED, FLAG_INTERIOR].map(bit => (flags & bit ? 1 : 0));
+      lines.push([ray.id, ray.b, i, ...values, ...bits].join(','));
+    });
+  });
+  return lines.join('\n');
+}
+
+export function exportTrajectoriesJson(rays: RayPath[], parameters: RayBuildRequest): string {
+  return JSON.stringify({
+    ...getHeader(parameters),
+    fields: POINT_FIELDS,
+    rays: rays.map(ray => {
+      const rows = getPointRows(ray);
+      // NaN is not JSON; undefined values (t inside the horizon, shift in the ergosphere) become null
+      const points = Object.fromEntries(POINT_FIELDS.map((field, k) => [field, rows.map(row => (isFinite(row[k]) ? row[k] : null))]));
+      return { ...getRayRecord(ray), points };
+    }),
+  });
+}
+
+export function exportTrajectoriesBinary(rays: RayPath[], parameters: RayBuildRequest): ArrayBuffer {
+  const header = {
+    ...getHeader(parameters),
+    fields: POINT_FIELDS,
+    rays: rays.map(ray => ({ ...getRayRecord(ray), count: ray.points.length })),
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const headerLength = Math.ceil(headerBytes.length / 4) * 4;
+  const pointCount = rays.reduce((n, ray) => n + ray.points.length, 0);
+  const buffer = new ArrayBuffer(8 + headerLength + pointCount * POINT_FIELDS.length * 4);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(new TextEncoder().encode(BINARY_MAGIC), 0);
+  new DataView(buffer).setUint32(4, headerLength, true);
+  // Padded with spaces, which JSON.parse ignores
+  bytes.fill(0x20, 8, 8 + headerLength);
+  bytes.set(headerBytes, 8);
+  const data = new Float32Array(buffer, 8 + headerLength);
+  let offset = 0;
+  rays.forEach(ray => {
+    getPointRows(ray).forEach(row => {
+      data.set(row, offset);
+      offset += POINT_FIELDS.length;
+    });
+  });
+  return buffer;
+}
+
+// --- Import ---
+
+// Scene positions from whichever columns a file has: x, y, z, or else the
+// orbital-plane r and φ laid in the equatorial plane
+function toPositions(columns: Partial<Record<PointField, ArrayLike<number | null>>>, count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const { x, y, z, r, phi } = columns;
+  for (let i = 0; i < count; i++) {
+    if (x && y) {
+      positions[i * 3] = x[i] ?? NaN;
+      positions[i * 3 + 1] = y[i] ?? NaN;
+      positions[i * 3 + 2] = z ? z[i] ?? NaN : 0;
+    } else if (r && phi) {
+      const [ri, phii] = [r[i] ?? NaN, phi[i] ?? NaN];
+      positions[i * 3] = ri * Math.cos(phii);
+      positions[i * 3 + 1] = ri * Math.sin(phii);
+    } else {
+      throw new Error('Trajectory files need x, y (and z) or r, phi columns');
+    }
+  }
+  return positions;
+}
+
+function checkHeader(header: Partial<TrajectoryHeader>): RayBuildRequest | null {
+  if (header.format !== TRAJECTORY_FORMAT) return null;
+  if ((header.version ?? 0) > TRAJECTORY_VERSION) throw new Error(`File version ${header.version} is newer than this simulator reads (${TRAJECTORY_VERSION})`);
+  return header.parameters ?? null;
+}
+
+// Tidy CSV: one row per point, grouped into paths by a ray_id (or id, or ray) column.
+// Without one the whole file is a single path.
+export function parseTrajectoriesCsv(text: string, name: string): TrajectoryOverlay {
+  const lines = text.split(/\r?\n/);
+  let parameters: RayBuildRequest | null = null;
+  const rows: string[][] = [];
+  lines.forEach(line => {
+    if (line.startsWith('#')) {
+      try {
+        parameters = checkHeader(JSON.parse(line.slice(1))) ?? parameters;
+      } catch (err) {
+        if (err instanceof SyntaxError) return; // An ordinary comment
+        throw err;
+      }
+    } else if (line.trim() !== '') {
+      rows.push(line.split(',').map(cell => cell.trim()));
+    }
+  });
+  if (rows.length < 2) throw new Error('No data rows found');
+  const [head, ...body] = rows;
+  const column = (...names: string[]) => names.map(n => head.indexOf(n)).find(k => k >= 0) ?? -1;
+  const idColumn = column('ray_id', 'id', 'ray');
+
+  const groups = new Map<string, string[][]>();
+  body.forEach(row => {
+    const id = idColumn >= 0 ? row[idColumn] : name;
+    if (!groups.has(id)) groups.set(id, []);
+    groups.get(id)!.push(row);
+  });
+
+  const paths = [...groups.entries()].map(([id, group]) => {
+    const columns: Partial<Record<PointField, number[]>> = {};
+    (['x', 'y', 'z', 'r', 'phi'] as PointField[]).forEach(field => {
+      const k = column(field);
+      if (k >= 0) columns[field] = group.map(row => (row[k] === '' ? NaN : parseFloat(row[k])));
+    });
+    return { id, positions: toPositions(columns, group.length) };
+  });
+  return { name, parameters, paths };
+}
+
+export function parseTrajectoriesJson(text: string, name: string): TrajectoryOverlay {
+  const file = JSON.parse(text);
+  const parameters = checkHeader(file);
+  if (!Array.isArray(file.rays)) throw new Error('Expected a "rays" array');
+  const paths = file.rays.map((ray: { id?: string; points?: Partial<Record<PointField, (number | null)[]>> }, k: number) => {
+    const columns = ray.points ?? {};
+    const count = (columns.x ?? columns.r ?? []).length;
+    return { id: ray.id ?? `${k}`, positions: toPositions(columns, count) };
+  });
+  return { name, parameters, paths };
+}
+
+export function parseTrajectoriesBinary(buffer: ArrayBuffer, name: string): TrajectoryOverlay {
+  const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, 4));
+  if (magic !== BINARY_MAGIC) throw new Error('Not a binary trajectory file');
+  const headerLength = new DataView(buffer).getUint32(4, true);
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 8, headerLength)));
+  const parameters = checkHeader(header);
+  const fields: PointField[] = header.fields;
+  const stride = fields.length;
+  const data = new Float32Array(buffer, 8 + headerLength);
+  let offset = 0;
+  const paths = (header.rays as { id: string; count: number }[]).map(ray => {
+    const columns = Object.fromEntries(fields.map((field, k) => [
+      field,
+      Array.from({ length: ray.count }, (_, i) => data[offset + i * stride + k]),
+    ])) as Partial<Record<PointField, number[]>>;
+    offset += ray.count * stride;
+    return { id: ray.id, positions: toPositions(columns, ray.count) };
+  });
+  return { name, parameters, paths };
+}
+
+// Picks the parser from the file's first bytes rather than its extension
+export async function readTrajectoryFile(file: File): Promise<TrajectoryOverlay> {
+  const buffer = await file.arrayBuffer();
+  if (buffer.byteLength >= 8 && new TextDecoder().decode(new Uint8Array(buffer, 0, 4)) === BINARY_MAGIC) {
+    return parseTrajectoriesBinary(buffer, file.name);
+  }
+  const text = new TextDecoder().decode(buffer);
+  return text.trimStart().startsWith('{') ? parseTrajectoriesJson(text, file.name) : parseTrajectoriesCsv(text, file.name);
+}
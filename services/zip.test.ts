@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe('createZip', () => {
+  it('stores entries with their CRC-32 and a central directory', async () => {
+    const bytes = new DataView(await createZip([{ name: 'a.txt', data: text('hello') }, { name: 'b.txt', data: text('') }]).arrayBuffer());
+    // First local header: signature, stored, CRC-32 of "hello", sizes, name
+    expect(bytes.getUint32(0, true)).toBe(0x04034b50);
+    expect(bytes.getUint16(8, true)).toBe(0);
+    expect(bytes.getUint32(14, true)).toBe(0x3610a686);
+    expect(bytes.getUint32(18, true)).toBe(5);
+    expect(bytes.getUint32(22, true)).toBe(5);
+    expect(new TextDecoder().decode(new Uint8Array(bytes.buffer, 30, 5))).toBe('a.txt');
+
+    // End of central directory: two entries, directory right after the data
+    const end = bytes.byteLength - 22;
+    expect(bytes.getUint32(end, true)).toBe(0x06054b50);
+    expect(bytes.getUint16(end + 10, true)).toBe(2);
+    const directory = bytes.getUint32(end + 16, true);
+    expect(directory).toBe(30 + 5 + 5 + 30 + 5);
+    expect(bytes.getUint32(directory, true)).toBe(0x02014b50);
+  });
+
+  it('refuses entries its 32-bit fields cannot hold', () => {
+    const huge = { length: 2 ** 32 } as Uint8Array;
+    expect(() => createZip([{ name: 'big.png', data: huge }])).toThrow(/4 GB/);
+  });
+});
@@ -0,0 +1,94 @@
+// Minimal zip writer: stored (uncompressed) entries, no zip64, so fewer than 65535 files
+// and under 4 GB in all (createZip throws beyond either). PNG frames are already
+// compressed, so storing costs nothing.
+
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields
+function dosDateTime(date: Date): { time: number; day: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    day: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[], date = new Date()): Blob {
+  if (entries.length > MAX_UINT16) throw new Error(`A zip without zip64 holds at most ${MAX_UINT16} files`);
+  const { time, day } = dosDateTime(date);
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    // Every offset and size field is 32 bits wide
+    if (offset > MAX_UINT32 || data.length > MAX_UINT32) throw new Error('The zip would be larger than 4 GB');
+    const crc = crc32(data);
+
+    // Fields shared by the local header and the central directory record, from "version needed"
+    const common = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // Version needed: 2.0
+      view.setUint16(at + 2, 0x0800, true); // UTF-8 names
+      view.setUint16(at + 4, 0, true); // Stored
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, day, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, nameBytes.length, true);
+    };
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    common(localView, 4);
+    local.set(nameBytes, 30);
+
+    const record = new Uint8Array(46 + nameBytes.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014b50, true);
+    recordView.setUint16(4, 20, true); // Version made by
+    common(recordView, 6);
+    recordView.setUint32(42, offset, true);
+    record.set(nameBytes, 46);
+
+    parts.push(local, data);
+    central.push(record);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = central.reduce((n, record) => n + record.length, 0);
+  if (offset > MAX_UINT32 || centralSize > MAX_UINT32) throw new Error('The zip would be larger than 4 GB');
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end] as BlobPart[], { type: 'application/zip' });
+}
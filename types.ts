@@ -1,5 +1,146 @@
-export type DistributionMode = 'isotropic' | 'planar' | 'beam';
+export type DistributionMode = 'isotropic' | 'planar' | 'beam' | 'plane-wave' | 'ring' | 'point' | 'list';
 export type ImpactMode = 'fixed' | 'random';
+export type ImpactDistribution = 'uniform' | 'area' | 'gaussian' | 'log-critical' | 'sweep';
+export type IntegratorMethod = 'rk4' | 'rk45';
+export type ParticleType = 'photon' | 'massive';
+export type OrbitSpec = 'energy' | 'apsides';
+export type PlaybackClock = 'affine' | 'coordinate' | 'observer';
+export type SpacetimeKind = 'schwarzschild' | 'kerr' | 'reissner-nordstrom' | 'schwarzschild-de-sitter';
+export type ViewMode = 'scene' | 'embedding' | 'observer' | 'microlensing';
+export type SkyKind = 'checker' | 'panorama' | 'none';
+export type DiskModel = 'decorative' | 'physical';
+export type DiskEmissivity = 'novikov-thorne' | 'power-law';
+export type RayColorMode = 'fate' | 'impact' | 'winding' | 'deflection' | 'orientation' | 'shift';
+export type FateCategory = 'captured' | 'strong' | 'escaped' | 'bound';
+export type RecordingFormat = 'webm' | 'png';
+export type DiagramProjection = 'orbital' | 'xy' | 'xz' | 'yz';
+export type DiagramTheme = 'print' | 'dark';
+
+export interface SpacetimeSettings {
+  kind: SpacetimeKind;
+  spin: number; // Kerr a, in units of M (0 <= a < 1)
+  charge: number; // Reissner-Nordström Q, in units of M (0 <= Q < 1)
+  cosmologicalConstant: number; // Λ, in units of 1/M^2 (0 <= Λ < 1/9)
+}
+
+export type EmitterMode = 'distant' | 'local' | 'hot-spot';
+
+export interface EmitterSettings {
+  mode: EmitterMode; // Light comes in from r_start, leaves a local emitter at r_e, or an orbiting hot spot
+  startRadius: number; // r_start of distant sources, units of M
+  escapeRadius: number; // Outgoing rays past this radius count as escaped, units of M
+  radius: number; // r_e of the local emitter, units of M
+  angle: number; // Local emission angle from the outward radial direction, degrees
+  orbitRadius: number; // Circular orbit of the hot spot, units of M (at least the ISCO)
+  inclination: number; // Angle between the orbit's axis (+Z) and the distant observer, degrees
+}
+
+// How random mode picks impact parameters within [min, max]
+export interface ImpactSettings {
+  distribution: ImpactDistribution; // Uniform in b or b^2, clustered around b_crit, or an even sweep
+  min: number; // Units of M
+  max: number; // Units of M
+  width: number; // σ of the Gaussian around b_crit, units of M
+}
+
+export type BeamShape = 'square' | 'disk';
+
+// One ray of the explicit source list
+export interface SourceRay {
+  b: number; // Impact parameter, units of M
+  theta: number; // Orientation of its orbital plane, degrees (see RayOrientation)
+  phi: number;
+  psi: number;
+}
+
+// Layouts of the sources that do not just spread rays over orientations
+export interface SourceSettings {
+  beamShape: BeamShape; // Cross-section of the plane wave
+  beamRadius: number; // Half-width (square) or radius (disk) of the plane wave, units of M
+  beamSpacing: number; // Distance between neighbouring plane-wave rays, units of M
+  pointDistance: number; // Radius of the point source, units of M
+  coneAngle: number; // Half-angle of its cone about the direction to the hole, degrees
+  list: SourceRay[];
+}
+
+// Camera of the backward ray-traced observer image: a static observer at r_obs
+// looking straight at the hole
+export interface ObserverImageSettings {
+  observerRadius: number; // r_obs, units of M
+  fov: number; // Vertical field of view, degrees
+  latitude: number; // Observer's latitude on the celestial sphere, degrees
+  skyRotation: number; // Turns the celestial sphere about its axis, degrees
+  sky: SkyKind; // Procedural checkerboard, an uploaded equirectangular panorama, or black
+  resolution: number; // Image height in pixels
+}
+
+// A background point source crossing behind the hole on a straight track
+export interface MicrolensingSettings {
+  impactParameter: number; // Closest approach u_0 of the track to the lens, in Einstein radii
+  trackAngle: number; // Direction of the track on the sky, degrees
+  lensDistance: number; // D_L, in the units of the mass (the source sits twice as far)
+}
+
+// Geometrically thin disk in the equatorial plane (z = 0), from the ISCO outward
+export interface DiskSettings {
+  model: DiskModel; // Decorative plasma, or a Keplerian disk imaged with its redshifts
+  outerRadius: number; // Units of M
+  emissivity: DiskEmissivity; // Flux profile F(r) of the physical disk
+  powerIndex: number; // q in F ∝ r^-q for the power-law profile
+}
+
+// What the trails are coloured by, and where each colormap starts and saturates
+export interface RayColorSettings {
+  mode: RayColorMode;
+  fateColors: Record<FateCategory, string>;
+  strongFactor: number; // Escaped light with b below this many b_crit counts as strongly lensed
+  impactSpan: number; // The b colormap runs over b_crit (1 ± span)
+  maxWindings: number; // Loops at which the winding colormap saturates
+  maxDeflection: number; // Deflection (rad) at which the deflection colormap saturates
+  orientationOffset: number; // Emission azimuth (degrees) drawn red
+  shiftRange: [number, number]; // ν/ν_emit stretched over the whole blackbody colormap
+}
+
+// Offline rendering of the 3D scene, one frame per fixed step of the playback clock
+export interface RecordingSettings {
+  format: RecordingFormat; // WebM through MediaRecorder, or a zip of numbered PNG frames
+  width: number; // Pixels
+  height: number;
+  fps: number;
+  duration: number; // Seconds recorded in continuous mode; otherwise one whole playback
+}
+
+// 2D vector figure of the rays with the hole's radii, a grid in units of M and a legend
+export interface DiagramSettings {
+  projection: DiagramProjection; // Each ray in its own orbital plane from (r, φ), or the scene seen along an axis
+  theme: DiagramTheme; // Light for print, or the app's dark one for slides
+  extent: number; // Half-width of the plotted square, units of M
+  showISCO: boolean;
+}
+
+// Where the 3D scene's orbit camera sits and looks, in scene units
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+  autoRotate: boolean;
+}
+
+export interface ParticleSettings {
+  type: ParticleType;
+  spec: OrbitSpec; // Launch from (E, L) or from periapsis/apoapsis
+  energy: number; // Specific energy E
+  angularMomentum: number; // Specific angular momentum L, in units of M
+  periapsis: number; // In units of M
+  apoapsis: number; // In units of M
+}
+
+export interface IntegratorSettings {
+  method: IntegratorMethod;
+  step: number; // Fixed step for RK4, initial step for RK45
+  absTol: number;
+  relTol: number;
+  maxStep: number; // Upper bound on adaptive steps (keeps trails smooth far out)
+}
 
 export interface Point3D {
   r: number;
@@ -8,21 +149,49 @@ export interface Point3D {
   x: number;
   y: number;
   z: number;
+  lambda: number; // Affine parameter (proper time for massive particles)
+  t: number; // Coordinate time of static observers at infinity, NaN inside the horizon
+  shift: number; // ν/ν_emit between static observers here and at the emission point, NaN where none exist
   crossed: boolean;
   escaped: boolean;
   turned: boolean;
 }
 
+// Rotation taking a ray's orbital plane (local XY, launched from +X) into the scene:
+// spin by psi about local X, tilt to polar angle theta, then turn by phi about Z
+export interface RayOrientation {
+  theta: number;
+  phi: number;
+  psi: number;
+}
+
 export interface RayPath {
   id: string;
   b: number; // Impact parameter
   phi0: number; // Initial angle
   color: string;
+  // In the orbital plane when `orientation` is set, and then shared by every ray
+  // with the same trajectory; in scene coordinates otherwise (Kerr)
   points: Point3D[];
+  orientation: RayOrientation | null;
   crossed: boolean;
   escaped: boolean;
   turned: boolean;
+  horizonIndex: number; // First point inside the event horizon, -1 if the ray stays outside
+  singularityLambda: number; // Affine parameter at which r reaches 0, NaN if it never does
   timeOffset: number; // Random delay for continuous mode
+  launchTime: number; // Coordinate time at which the ray leaves its source (hot-spot photons; 0 otherwise)
+  stepSizes: number[]; // Affine step taken to reach each point after the first
+  maxConstraintError: number; // max |(dr/dλ)^2 + V_eff - E^2| along the exterior part of the ray
+  particle: ParticleType;
+  energy: number; // E (1 for photons)
+  angularMomentum: number; // L (equal to b for photons)
+  periapsisAdvance: number; // Radians per orbit, NaN unless the orbit is bound
+  rMin: number; // Closest approach to r = 0
+  deflection: number; // Total bending angle (Δφ - π for planar orbits), NaN unless the ray escaped
+  windings: number; // Full loops around the hole
+  lambdaNear: number; // Affine parameter spent within r = 3M
+  tNear: number; // Coordinate time spent within r = 3M, outside the horizon
 }
 
 export interface SimulationConfig {